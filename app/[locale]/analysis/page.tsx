@@ -5,9 +5,33 @@ import { useLocale } from "next-intl";
 import { useState, useEffect } from "react";
 import { useRouter } from "@/lib/i18n/navigation";
 import { cn } from "@/lib/utils";
-import type { TopicInfo } from "@/lib/engine/portfolio-types";
-import { TRAINING_DIRECTIONS, DIRECTION_COLORS } from "@/lib/engine/portfolio-types";
+import type { TopicInfo, AnalysisResult } from "@/lib/engine/portfolio-types";
+import {
+  TRAINING_DIRECTIONS,
+  DIRECTION_COLORS,
+  createDefaultOptimizerSettings,
+} from "@/lib/engine/portfolio-types";
 import { getTopicStats } from "@/lib/engine/data-loader";
+import {
+  buildTopicTimelines,
+  computeTopicGrowth,
+  type TopicTimeline,
+} from "@/lib/engine/momentum";
+import {
+  rarityCutoff,
+  createDefaultRarityRule,
+  type RarityRule,
+  type RarityOverrides,
+} from "@/lib/engine/rarity";
+import PublicationTimeline from "@/components/charts/PublicationTimeline";
+import RarityRuleEditor from "@/components/analysis/RarityRuleEditor";
+import TopicEditPanel from "@/components/analysis/TopicEditPanel";
+import AffinityRationaleNote from "@/components/analysis/AffinityRationaleNote";
+import AffinityHeatmap from "@/components/analysis/AffinityHeatmap";
+import { Button } from "@/components/ui/Button";
+import { TopicEditError, type TopicEdit } from "@/lib/engine/topic-edits";
+import { findAffinityOverride, activeAffinityOverrides, type AffinityOverride } from "@/lib/engine/affinity-overrides";
+import type { EnsembleSummary } from "@/lib/engine/ensemble";
 import {
   BarChart3,
   Tag,
@@ -16,18 +40,51 @@ import {
   GraduationCap,
   Users,
   Grid3X3,
+  CalendarRange,
+  TrendingUp,
+  TrendingDown,
+  AlertTriangle,
+  Pencil,
+  Merge,
+  Undo2,
+  RefreshCw,
+  UserPen,
 } from "lucide-react";
-import { getCurrentProject } from "@/lib/project-manager";
+import {
+  getCurrentProject,
+  saveProject,
+  getSettings,
+  setTopicRarity,
+  editTopics,
+  undoTopicEdit,
+  applyRescoredAffinity,
+  isStale,
+  clearStale,
+  effectiveAffinityMatrix,
+  setAffinityOverride,
+  clearAffinityOverride,
+  type ProjectData,
+} from "@/lib/project-manager";
 import { useProject } from "@/lib/project-context";
 
+/** Annual log growth beyond which a topic is marked as rising or fading. */
+const GROWTH_MARKER = 0.1;
+
 export default function AnalysisPage() {
   const t = useTranslations("analysis");
   const locale = useLocale();
   const router = useRouter();
-  const { currentProject: ctxProject } = useProject();
+  const { currentProject: ctxProject, refreshCurrentProject } = useProject();
 
   const [topics, setTopics] = useState<TopicInfo[]>([]);
-  const [affinityMatrix, setAffinityMatrix] = useState<Record<number, number[]>>({});
+  const [affinityMatrix, setAffinityMatrix] = useState<Record<number, number[]>>({}); // with hand-set cells
+  const [aiMatrix, setAiMatrix] = useState<Record<number, number[]>>({});
+  const [affinityOverrides, setAffinityOverrides] = useState<AffinityOverride[]>([]);
+  const [author, setAuthor] = useState("");
+  const [affinityVariance, setAffinityVariance] = useState<Record<number, number[]> | undefined>();
+  const [ensemble, setEnsemble] = useState<EnsembleSummary | undefined>();
+  const [unscoredTopics, setUnscoredTopics] = useState<number[]>([]);
+  const [rationale, setRationale] = useState<AnalysisResult["affinityRationale"]>();
   const [sectorName, setSectorName] = useState("");
   const [sectorDescription, setSectorDescription] = useState("");
   const [programTitle, setProgramTitle] = useState("");
@@ -35,6 +92,48 @@ export default function AnalysisPage() {
   const [targetAudience, setTargetAudience] = useState("");
   const [selectedTopic, setSelectedTopic] = useState<TopicInfo | null>(null);
   const [stats, setStats] = useState<ReturnType<typeof getTopicStats> | null>(null);
+  const [timelines, setTimelines] = useState<Record<number, TopicTimeline>>({});
+  const [growth, setGrowth] = useState<Record<number, number>>({});
+  const [momentumWindow, setMomentumWindow] = useState(
+    () => createDefaultOptimizerSettings().momentum.windowYears
+  );
+  const [rarityRule, setRarityRule] = useState<RarityRule>(createDefaultRarityRule);
+  const [rarityOverrides, setRarityOverrides] = useState<RarityOverrides>({});
+  const [editing, setEditing] = useState(false);
+  const [mergeSelection, setMergeSelection] = useState<number[]>([]); // in click order; the first absorbs the rest
+  const [lastEdit, setLastEdit] = useState<TopicEdit | null>(null);
+  const [pendingRescore, setPendingRescore] = useState<number[]>([]);
+  const [analysisStale, setAnalysisStale] = useState(false);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [rescoring, setRescoring] = useState(false);
+
+  // Topics, papers and affinity rows change with rarity and topic edits
+  const showTopicModel = (project: ProjectData) => {
+    if (!project.sourceData || !project.analysis) return;
+    const nextTopics = project.sourceData.topics;
+    setTopics(nextTopics);
+    setStats(getTopicStats(nextTopics));
+    setAffinityMatrix(effectiveAffinityMatrix(project));
+    setAiMatrix(project.analysis.affinityMatrix);
+    setAffinityVariance(project.analysis.affinityVariance);
+    setRationale(project.analysis.affinityRationale);
+    setAffinityOverrides(project.config.affinityOverrides ?? []);
+    setRarityRule(project.config.rarityRule ?? createDefaultRarityRule());
+    setRarityOverrides(project.config.rarityOverrides ?? {});
+    setLastEdit(project.topicEditHistory?.at(-1)?.edit ?? null);
+    setPendingRescore(project.pendingRescore ?? []);
+    setAnalysisStale(isStale(project, "analysis"));
+    setSelectedTopic((prev) => (prev ? nextTopics.find((t) => t.topicNumber === prev.topicNumber) ?? null : null));
+
+    // Same window as the momentum-adjusted return model
+    const windowYears =
+      project.config.optimizerSettings?.momentum?.windowYears ??
+      createDefaultOptimizerSettings().momentum.windowYears;
+    const topicTimelines = buildTopicTimelines(project.sourceData.papers);
+    setTimelines(topicTimelines);
+    setGrowth(computeTopicGrowth(topicTimelines, windowYears));
+    setMomentumWindow(windowYears);
+  };
 
   useEffect(() => {
     const project = ctxProject ?? getCurrentProject();
@@ -42,16 +141,118 @@ export default function AnalysisPage() {
       router.push("/upload");
       return;
     }
-    setTopics(project.sourceData.topics);
-    setAffinityMatrix(project.analysis.affinityMatrix);
     setSectorName(project.analysis.sectorName);
     setSectorDescription(project.analysis.sectorDescription);
     setProgramTitle(project.analysis.programTitle);
     setProgramDescription(project.analysis.programDescription);
     setTargetAudience(project.analysis.targetAudience);
-    setStats(getTopicStats(project.sourceData.topics));
+    setEnsemble(project.analysis.ensemble);
+    setUnscoredTopics(project.analysis.unscoredTopics ?? []);
+    setAuthor(getSettings().name);
+    showTopicModel(project);
   }, [router]);
 
+  const commit = (updated: ProjectData) => {
+    saveProject(updated);
+    refreshCurrentProject();
+    showTopicModel(updated);
+  };
+
+  // Re-label topics and papers; the portfolio and courses are marked stale
+  const updateRarity = (rule: RarityRule, overrides: RarityOverrides) => {
+    const project = getCurrentProject();
+    if (!project?.sourceData) return;
+    commit(setTopicRarity(project, rule, overrides));
+  };
+
+  const overrideTopic = (topicNumber: number, label: "COMMON" | "RARE" | null) => {
+    const next = { ...rarityOverrides };
+    if (label) next[topicNumber] = label;
+    else delete next[topicNumber];
+    updateRarity(rarityRule, next);
+  };
+
+  // Merge, split, rename or exclude; the analysis, portfolio and courses are marked stale
+  const applyEdit = (edit: TopicEdit) => {
+    const project = getCurrentProject();
+    if (!project) return;
+    try {
+      commit(editTopics(project, edit));
+      setEditError(null);
+      if (edit.type === "merge") {
+        setMergeSelection([]);
+        setSelectedTopic(null);
+      }
+    } catch (err) {
+      if (!(err instanceof TopicEditError)) throw err;
+      setEditError(err.message);
+    }
+  };
+
+  const undoEdit = () => {
+    const project = getCurrentProject();
+    if (!project) return;
+    commit(undoTopicEdit(project));
+    setMergeSelection([]);
+    setEditError(null);
+  };
+
+  const toggleMerge = (topicNumber: number) => {
+    setMergeSelection((prev) =>
+      prev.includes(topicNumber) ? prev.filter((n) => n !== topicNumber) : [...prev, topicNumber]
+    );
+  };
+
+  // Ask the model for new rows of just the topics the edits changed
+  const rescore = async () => {
+    const project = getCurrentProject();
+    if (!project?.sourceData || !project.analysis || !project.pendingRescore?.length) return;
+    const settings = getSettings();
+    setRescoring(true);
+    setEditError(null);
+    try {
+      const res = await fetch("/api/rescore", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          topics: project.sourceData.topics,
+          topicNumbers: project.pendingRescore,
+          sectorName: project.analysis.sectorName,
+          sectorDescription: project.analysis.sectorDescription,
+          language: locale,
+          aiProvider: settings.aiProvider || "claude",
+          apiKey: settings.apiKey || undefined,
+          modelId: settings.verifiedModel || undefined,
+        }),
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err.error || `Re-scoring failed (${res.status})`);
+      }
+      const data = await res.json();
+      commit(applyRescoredAffinity(getCurrentProject() ?? project, data.affinityMatrix, data.affinityRationale));
+      // Topics the model returned no usable row for stay pending
+      if (data.unscoredTopics?.length > 0) {
+        setEditError(t("edit.rescore_unscored", { count: data.unscoredTopics.length }));
+      }
+    } catch (err) {
+      setEditError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setRescoring(false);
+    }
+  };
+
+  // Hand-set affinity scores; the portfolio and courses are marked stale
+  const overrideAffinity = (override: AffinityOverride) => {
+    const project = getCurrentProject();
+    if (project) commit(setAffinityOverride(project, override));
+  };
+
+  const revertAffinity = (topicNumber: number, directionKey: AffinityOverride["directionKey"]) => {
+    const project = getCurrentProject();
+    if (project) commit(clearAffinityOverride(project, topicNumber, directionKey));
+  };
+
   const activeTopics = topics.filter((t) => t.topicNumber !== -1);
   const maxCount = activeTopics.length > 0
     ? Math.max(...activeTopics.map((t) => t.count))
@@ -119,58 +320,162 @@ export default function AnalysisPage() {
         </div>
       </div>
 
+      {unscoredTopics.length > 0 && (
+        <div className="mb-6 flex items-center gap-2 rounded-lg bg-accent/10 px-4 py-3 text-sm font-medium text-accent">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          {t("heatmap.unscored", { count: unscoredTopics.length, topics: unscoredTopics.map((n) => `T${n}`).join(", ") })}
+        </div>
+      )}
+
+      {analysisStale && (
+        <div className="mb-6 flex flex-wrap items-center gap-3 rounded-lg bg-accent/10 px-4 py-3 text-sm font-medium text-accent">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          <span className="flex-1">
+            {pendingRescore.length > 0 ? t("edit.stale_pending", { count: pendingRescore.length }) : t("edit.stale")}
+          </span>
+          {pendingRescore.length > 0 ? (
+            <Button size="sm" onClick={rescore} loading={rescoring}>
+              <RefreshCw className="h-3.5 w-3.5" />
+              {t("edit.rescore", { count: pendingRescore.length })}
+            </Button>
+          ) : (
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => {
+                const project = getCurrentProject();
+                if (project) commit(clearStale(project, "analysis"));
+              }}
+            >
+              {t("edit.dismiss")}
+            </Button>
+          )}
+        </div>
+      )}
+
+      <RarityRuleEditor
+        rule={rarityRule}
+        cutoff={rarityCutoff(topics, rarityRule)}
+        overrideCount={Object.keys(rarityOverrides).length}
+        onChange={(rule) => updateRarity(rule, rarityOverrides)}
+        onClearOverrides={() => updateRarity(rarityRule, {})}
+      />
+
       <div className="grid gap-8 lg:grid-cols-5">
         {/* Topic Distribution */}
         <div className="lg:col-span-3">
-          <h2 className="mb-4 flex items-center gap-2 text-lg font-semibold">
-            <BarChart3 className="h-5 w-5 text-primary" />
-            {t("topic_distribution")}
-          </h2>
+          <div className="mb-4 flex flex-wrap items-center gap-2">
+            <h2 className="flex flex-1 items-center gap-2 text-lg font-semibold">
+              <BarChart3 className="h-5 w-5 text-primary" />
+              {t("topic_distribution")}
+            </h2>
+            {lastEdit && (
+              <Button variant="ghost" size="sm" onClick={undoEdit}>
+                <Undo2 className="h-3.5 w-3.5" />
+                {t(`edit.undo.${lastEdit.type}`)}
+              </Button>
+            )}
+            <Button
+              variant={editing ? "primary" : "secondary"}
+              size="sm"
+              onClick={() => {
+                setEditing(!editing);
+                setMergeSelection([]);
+              }}
+            >
+              <Pencil className="h-3.5 w-3.5" />
+              {editing ? t("edit.done") : t("edit.start")}
+            </Button>
+          </div>
+
+          {editing && (
+            <div className="mb-3 flex flex-wrap items-center gap-3 rounded-lg border border-border px-4 py-2 text-xs text-muted-foreground">
+              <span className="flex-1">
+                {mergeSelection.length >= 2
+                  ? t("edit.merge_into", { count: mergeSelection.length, topic: mergeSelection[0] })
+                  : t("edit.merge_hint")}
+              </span>
+              <Button
+                variant="secondary"
+                size="sm"
+                disabled={mergeSelection.length < 2}
+                onClick={() => applyEdit({ type: "merge", topicNumbers: mergeSelection })}
+              >
+                <Merge className="h-3.5 w-3.5" />
+                {t("edit.merge")}
+              </Button>
+            </div>
+          )}
+          {editError && <p className="mb-3 text-sm text-danger">{editError}</p>}
+
           <div className="space-y-2">
             {activeTopics
               .sort((a, b) => b.count - a.count)
               .map((topic) => (
-                <button
-                  key={topic.topicNumber}
-                  onClick={() => setSelectedTopic(topic)}
-                  className={cn(
-                    "flex w-full items-center gap-3 rounded-lg border px-4 py-2.5 text-left text-sm transition-colors",
-                    selectedTopic?.topicNumber === topic.topicNumber
-                      ? "border-primary bg-primary/5"
-                      : "border-border hover:bg-muted"
+                <div key={topic.topicNumber} className="flex items-center gap-2">
+                  {editing && (
+                    <input
+                      type="checkbox"
+                      aria-label={t("edit.select", { topic: topic.topicNumber })}
+                      checked={mergeSelection.includes(topic.topicNumber)}
+                      onChange={() => toggleMerge(topic.topicNumber)}
+                      className="h-4 w-4 shrink-0 accent-primary"
+                    />
                   )}
-                >
-                  <span className="w-6 shrink-0 text-xs font-bold text-muted-foreground">
-                    T{topic.topicNumber}
-                  </span>
-                  <div className="min-w-0 flex-1">
-                    <div className="mb-1 truncate font-medium">{topic.name}</div>
-                    <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
-                      <div
+                  <button
+                    onClick={() => setSelectedTopic(topic)}
+                    className={cn(
+                      "flex w-full items-center gap-3 rounded-lg border px-4 py-2.5 text-left text-sm transition-colors",
+                      selectedTopic?.topicNumber === topic.topicNumber
+                        ? "border-primary bg-primary/5"
+                        : "border-border hover:bg-muted",
+                      topic.excluded && "opacity-50"
+                    )}
+                  >
+                    <span className="w-6 shrink-0 text-xs font-bold text-muted-foreground">
+                      T{topic.topicNumber}
+                    </span>
+                    <div className="min-w-0 flex-1">
+                      <div className="mb-1 truncate font-medium">{topic.name}</div>
+                      <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+                        <div
+                          className={cn(
+                            "h-full rounded-full transition-all",
+                            topic.rarityLabel === "COMMON" ? "bg-primary" : "bg-accent"
+                          )}
+                          style={{ width: `${(topic.count / maxCount) * 100}%` }}
+                        />
+                      </div>
+                    </div>
+                    <div className="flex shrink-0 items-center gap-2">
+                      {(growth[topic.topicNumber] ?? 0) > GROWTH_MARKER && (
+                        <TrendingUp className="h-3.5 w-3.5 text-success" />
+                      )}
+                      {(growth[topic.topicNumber] ?? 0) < -GROWTH_MARKER && (
+                        <TrendingDown className="h-3.5 w-3.5 text-danger" />
+                      )}
+                      <span
                         className={cn(
-                          "h-full rounded-full transition-all",
-                          topic.rarityLabel === "COMMON" ? "bg-primary" : "bg-accent"
+                          "rounded-full px-2 py-0.5 text-xs font-medium",
+                          topic.rarityLabel === "COMMON"
+                            ? "bg-primary/10 text-primary"
+                            : "bg-accent/10 text-accent"
                         )}
-                        style={{ width: `${(topic.count / maxCount) * 100}%` }}
-                      />
-                    </div>
-                  </div>
-                  <div className="flex shrink-0 items-center gap-2">
-                    <span
-                      className={cn(
-                        "rounded-full px-2 py-0.5 text-xs font-medium",
-                        topic.rarityLabel === "COMMON"
-                          ? "bg-primary/10 text-primary"
-                          : "bg-accent/10 text-accent"
+                      >
+                        {topic.rarityLabel === "COMMON" ? t("common") : t("rare")}
+                        {rarityOverrides[topic.topicNumber] && " *"}
+                      </span>
+                      {topic.excluded && (
+                        <span className="rounded-full bg-muted px-2 py-0.5 text-xs font-medium text-muted-foreground">
+                          {t("edit.excluded")}
+                        </span>
                       )}
-                    >
-                      {topic.rarityLabel === "COMMON" ? t("common") : t("rare")}
-                    </span>
-                    <span className="text-xs text-muted-foreground">
-                      {topic.count}
-                    </span>
-                  </div>
-                </button>
+                      <span className="text-xs text-muted-foreground">
+                        {topic.count}
+                      </span>
+                    </div>
+                  </button>
+                </div>
               ))}
           </div>
         </div>
@@ -186,6 +491,32 @@ export default function AnalysisPage() {
                 </h3>
                 <p className="mb-4 font-medium text-primary">{selectedTopic.name}</p>
 
+                <div className="mb-4 flex flex-wrap items-center gap-2 text-xs">
+                  <span className="font-semibold">{t("rarity.label")}</span>
+                  {([null, "COMMON", "RARE"] as const).map((label) => (
+                    <button
+                      key={label ?? "auto"}
+                      onClick={() => overrideTopic(selectedTopic.topicNumber, label)}
+                      className={cn(
+                        "rounded-full border px-2.5 py-0.5 font-medium transition-colors",
+                        (rarityOverrides[selectedTopic.topicNumber] ?? null) === label
+                          ? "border-primary bg-primary/10 text-primary"
+                          : "border-border hover:bg-muted"
+                      )}
+                    >
+                      {label === null ? t("rarity.auto") : label === "COMMON" ? t("common") : t("rare")}
+                    </button>
+                  ))}
+                </div>
+
+                {editing && (
+                  <TopicEditPanel
+                    key={`${selectedTopic.topicNumber}:${selectedTopic.name}`}
+                    topic={selectedTopic}
+                    onEdit={applyEdit}
+                  />
+                )}
+
                 <div className="mb-4">
                   <h4 className="mb-2 flex items-center gap-1.5 text-sm font-semibold">
                     <Tag className="h-4 w-4" />
@@ -218,6 +549,32 @@ export default function AnalysisPage() {
                 </div>
               </div>
 
+              {/* Publication timeline for selected topic */}
+              {timelines[selectedTopic.topicNumber] && (
+                <div className="rounded-xl border border-border bg-card p-6">
+                  <h4 className="mb-1 flex items-center gap-1.5 text-sm font-semibold">
+                    <CalendarRange className="h-4 w-4" />
+                    {t("publication_timeline")}
+                  </h4>
+                  <p className="mb-3 text-xs text-muted-foreground">
+                    {t("growth_rate", {
+                      rate: `${(growth[selectedTopic.topicNumber] ?? 0) >= 0 ? "+" : ""}${(
+                        (Math.exp(growth[selectedTopic.topicNumber] ?? 0) - 1) *
+                        100
+                      ).toFixed(0)}`,
+                      years: momentumWindow,
+                    })}
+                  </p>
+                  <PublicationTimeline
+                    timeline={timelines[selectedTopic.topicNumber]}
+                    windowStart={
+                      timelines[selectedTopic.topicNumber].at(-1)!.year - momentumWindow + 1
+                    }
+                    papersLabel={t("papers").toLowerCase()}
+                  />
+                </div>
+              )}
+
               {/* Affinity for selected topic */}
               {affinityMatrix[selectedTopic.topicNumber] && (
                 <div className="rounded-xl border border-border bg-card p-6">
@@ -225,11 +582,12 @@ export default function AnalysisPage() {
                     <Grid3X3 className="h-4 w-4" />
                     {t("affinity_scores")}
                   </h4>
+                  {rationale && <p className="mb-3 text-xs text-muted-foreground">{t("rationale.hover_hint")}</p>}
                   <div className="space-y-2">
                     {TRAINING_DIRECTIONS.map((dir, i) => {
                       const score = affinityMatrix[selectedTopic.topicNumber]?.[i] ?? 0;
                       return (
-                        <div key={dir.key} className="flex items-center gap-2">
+                        <div key={dir.key} className="group relative flex items-center gap-2">
                           <span className="w-40 truncate text-xs">
                             {locale === "el" ? dir.name_el : dir.name}
                           </span>
@@ -242,9 +600,18 @@ export default function AnalysisPage() {
                               }}
                             />
                           </div>
-                          <span className="w-10 text-right text-xs font-medium">
+                          <span className="flex w-14 items-center justify-end gap-1 text-xs font-medium">
+                            {findAffinityOverride(affinityOverrides, selectedTopic.topicNumber, dir.key) && (
+                              <UserPen className="h-3 w-3 text-accent" />
+                            )}
                             {(score * 100).toFixed(0)}%
                           </span>
+                          {/* Why the AI gave this score, on hover */}
+                          {rationale && (
+                            <div className="pointer-events-none absolute left-0 right-0 top-full z-10 mt-1 hidden rounded-lg border border-border bg-card p-3 shadow-lg group-hover:block">
+                              <AffinityRationaleNote rationale={rationale[selectedTopic.topicNumber]?.[i]} />
+                            </div>
+                          )}
                         </div>
                       );
                     })}
@@ -259,6 +626,19 @@ export default function AnalysisPage() {
           )}
         </div>
       </div>
+
+      <AffinityHeatmap
+        topics={[...activeTopics].sort((a, b) => a.topicNumber - b.topicNumber)}
+        aiMatrix={aiMatrix}
+        overrides={activeAffinityOverrides(aiMatrix, affinityOverrides)}
+        variance={affinityVariance}
+        ensemble={ensemble}
+        rationale={rationale}
+        author={author}
+        locale={locale}
+        onOverride={overrideAffinity}
+        onRevert={revertAffinity}
+      />
     </div>
   );
 }
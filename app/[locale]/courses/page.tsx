@@ -3,7 +3,13 @@
 import { useTranslations } from "next-intl";
 import { useLocale } from "next-intl";
 import { useState, useEffect, useCallback } from "react";
-import { TRAINING_DIRECTIONS, type CourseOutline, type SupervisorMatch } from "@/lib/engine/portfolio-types";
+import {
+  TRAINING_DIRECTIONS,
+  type CourseOutline,
+  type SupervisorMatch,
+  type ProgramBudget,
+} from "@/lib/engine/portfolio-types";
+import { allocateCourseHours, checkCourseHours } from "@/lib/engine/hours-budget";
 import {
   BookOpen,
   ChevronDown,
@@ -15,18 +21,26 @@ import {
   Loader2,
   Target,
   UserCheck,
+  AlertTriangle,
 } from "lucide-react";
 import { parseRichContent, type RichBlock } from "@/lib/rich-text";
 import {
   getCurrentProject,
   saveProject,
   getSettings,
+  getActivePortfolio,
+  isStale,
+  clearStale,
+  effectiveAffinityMatrix,
 } from "@/lib/project-manager";
 import { useProject } from "@/lib/project-context";
 import { PageContainer } from "@/components/ui/PageContainer";
 import { PageHeader } from "@/components/ui/PageHeader";
 import { EmptyState } from "@/components/ui/EmptyState";
 import { Button } from "@/components/ui/Button";
+import { cn } from "@/lib/utils";
+import { Card, CardContent } from "@/components/ui/Card";
+import ProgramBudgetEditor from "@/components/courses/ProgramBudgetEditor";
 
 function RichContent({ content }: { content: string }) {
   const blocks = parseRichContent(content);
@@ -87,6 +101,9 @@ export default function CoursesPage() {
   const [error, setError] = useState<string | null>(null);
   const [expandedModules, setExpandedModules] = useState<Set<string>>(new Set());
   const [expandedUnits, setExpandedUnits] = useState<Set<string>>(new Set());
+  const [budget, setBudget] = useState<ProgramBudget | null>(null);
+  const [weights, setWeights] = useState<number[]>([]);
+  const [stale, setStale] = useState(false); // topics, rarity or affinity changed since generation
 
   const generateCourses = useCallback(async () => {
     setLoading(true);
@@ -100,7 +117,8 @@ export default function CoursesPage() {
         return;
       }
 
-      const weights = project.portfolioResult?.selectedPortfolio.weights;
+      const portfolio = getActivePortfolio(project)?.result;
+      const weights = portfolio?.selectedPortfolio.weights;
       if (!weights) {
         setError(t("no_weights"));
         return;
@@ -111,6 +129,16 @@ export default function CoursesPage() {
         return;
       }
 
+      let hourTargets: number[] | undefined;
+      if (project.config.programBudget) {
+        const allocated = allocateCourseHours(weights, project.config.programBudget);
+        if (!allocated) {
+          setError(t("budget.infeasible"));
+          return;
+        }
+        hourTargets = allocated;
+      }
+
       const res = await fetch("/api/generate", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -118,7 +146,8 @@ export default function CoursesPage() {
           weights,
           topics: project.sourceData.topics,
           papers: project.sourceData.papers,
-          affinityMatrix: project.analysis.affinityMatrix,
+          reports: project.sourceData.reports,
+          affinityMatrix: effectiveAffinityMatrix(project),
           sectorName: project.analysis.sectorName,
           sectorDescription: project.analysis.sectorDescription,
           programTitle: project.analysis.programTitle,
@@ -129,6 +158,8 @@ export default function CoursesPage() {
           aiProvider: settings.aiProvider || "claude",
           apiKey: settings.apiKey || undefined,
           modelId: settings.verifiedModel || undefined,
+          hourTargets,
+          topicAllocation: portfolio?.topicAllocation,
         }),
       });
 
@@ -142,7 +173,8 @@ export default function CoursesPage() {
         if (project) {
           project.courses = data.courses;
           project.courseSupervisors = data.supervisors || null;
-          saveProject(project);
+          saveProject(clearStale(project, "courses"));
+          setStale(false);
           refreshCurrentProject();
         }
       } else {
@@ -162,6 +194,7 @@ export default function CoursesPage() {
     const project = getCurrentProject();
     if (project && project.courses.length > 0) {
       setCourses(project.courses);
+      setStale(isStale(project, "courses"));
       if (project.courseSupervisors) {
         setSupervisors(project.courseSupervisors);
       }
@@ -172,9 +205,41 @@ export default function CoursesPage() {
   const [canGenerate, setCanGenerate] = useState(false);
   useEffect(() => {
     const project = getCurrentProject();
-    setCanGenerate(!!project?.portfolioResult?.selectedPortfolio.weights);
+    const portfolio = project && getActivePortfolio(project)?.result;
+    setCanGenerate(!!portfolio?.selectedPortfolio.weights);
+    setWeights(portfolio?.selectedPortfolio.weights ?? []);
+    setBudget(project?.config.programBudget ?? null);
   }, []);
 
+  const handleBudgetChange = (next: ProgramBudget | null) => {
+    setBudget(next);
+    const project = getCurrentProject();
+    if (project) {
+      project.config.programBudget = next ?? undefined;
+      saveProject(project);
+    }
+  };
+
+  const budgetCard = (
+    <Card className="mb-6">
+      <CardContent>
+        <h2 className="mb-3 text-lg font-semibold">{t("budget.title")}</h2>
+        <ProgramBudgetEditor
+          budget={budget}
+          onChange={handleBudgetChange}
+          weights={weights}
+          locale={locale}
+        />
+      </CardContent>
+    </Card>
+  );
+
+  // Courses generated against a budget whose units don't fill their hours
+  const hourChecks = courses.map((course) =>
+    course.targetHours !== undefined ? checkCourseHours(course, course.targetHours) : null
+  );
+  const mismatched = hourChecks.filter((check) => check && !check.matches).length;
+
   const toggleModule = (key: string) => {
     setExpandedModules((prev) => {
       const next = new Set(prev);
@@ -207,6 +272,7 @@ export default function CoursesPage() {
   if (error) {
     return (
       <PageContainer size="md">
+        {canGenerate && budgetCard}
         <EmptyState
           icon={BookOpen}
           message={t("generation_error")}
@@ -227,6 +293,7 @@ export default function CoursesPage() {
   if (courses.length === 0) {
     return (
       <PageContainer size="md">
+        {canGenerate && budgetCard}
         <EmptyState
           icon={BookOpen}
           message={canGenerate ? t("no_courses") : t("no_weights")}
@@ -256,11 +323,28 @@ export default function CoursesPage() {
         }
       />
 
+      {budgetCard}
+
+      {stale && (
+        <div className="mb-6 flex items-center gap-2 rounded-lg bg-accent/10 px-4 py-3 text-sm font-medium text-accent">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          {t("stale")}
+        </div>
+      )}
+
+      {mismatched > 0 && (
+        <div className="mb-6 flex items-center gap-2 rounded-lg bg-destructive/10 px-4 py-3 text-sm font-medium text-destructive">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          {t("budget.mismatch_summary", { count: mismatched })}
+        </div>
+      )}
+
       <div className="space-y-6">
         {courses.map((course, courseIdx) => {
           const direction = TRAINING_DIRECTIONS.find(
             (d) => d.key === course.trainingDirection
           );
+          const hourCheck = hourChecks[courseIdx];
           return (
             <div
               key={courseIdx}
@@ -280,6 +364,23 @@ export default function CoursesPage() {
                     <Clock className="h-3 w-3" />
                     {course.totalHours} {t("hours")}
                   </span>
+                  {hourCheck && (
+                    <span
+                      className={cn(
+                        "flex items-center gap-1 rounded-md px-2 py-0.5 text-xs font-medium",
+                        hourCheck.matches
+                          ? "bg-success/10 text-success"
+                          : "bg-destructive/10 text-destructive"
+                      )}
+                      title={t("budget.check_hint")}
+                    >
+                      {!hourCheck.matches && <AlertTriangle className="h-3 w-3" />}
+                      {t("budget.planned_of_target", {
+                        planned: hourCheck.plannedHours,
+                        target: hourCheck.targetHours,
+                      })}
+                    </span>
+                  )}
                 </div>
                 <h2 className="text-xl font-bold">{course.title}</h2>
                 <p className="mt-2 text-sm text-muted-foreground">
@@ -15,9 +15,22 @@ import {
   Save,
   Loader2,
 } from "lucide-react";
-import { getCurrentProject, exportProjectToFile } from "@/lib/project-manager";
+import {
+  getCurrentProject,
+  getActivePortfolio,
+  exportProjectToFile,
+  effectiveAffinityMatrix,
+} from "@/lib/project-manager";
 import { useProject } from "@/lib/project-context";
-import { exportCoursesToDocx, exportCoursesToPdf } from "@/lib/export-courses";
+import {
+  exportCoursesToDocx,
+  exportCoursesToPdf,
+  type AffinityOverrideRow,
+  type MethodologyAnnex,
+} from "@/lib/export-courses";
+import { activeAffinityOverrides, findAffinityOverride } from "@/lib/engine/affinity-overrides";
+import { runStressTest } from "@/lib/engine/stress";
+import { DEFAULT_RETURN_MODEL, TRAINING_DIRECTIONS } from "@/lib/engine/portfolio-types";
 import { PageContainer } from "@/components/ui/PageContainer";
 import { PageHeader } from "@/components/ui/PageHeader";
 import { Card, CardContent } from "@/components/ui/Card";
@@ -31,6 +44,8 @@ export default function ExportPage() {
   const [courses, setCourses] = useState<CourseOutline[]>([]);
   const [supervisors, setSupervisors] = useState<Record<string, SupervisorMatch[]>>({});
   const [exporting, setExporting] = useState<"docx" | "pdf" | null>(null);
+  const [includeMethodology, setIncludeMethodology] = useState(false);
+  const [hasRationale, setHasRationale] = useState(false);
 
   useEffect(() => {
     const project = ctxProject ?? getCurrentProject();
@@ -40,6 +55,7 @@ export default function ExportPage() {
         setSupervisors(project.courseSupervisors);
       }
     }
+    setHasRationale(!!project?.analysis?.affinityRationale);
   }, [ctxProject]);
 
   const totalHours = courses.reduce((sum, c) => sum + c.totalHours, 0);
@@ -54,10 +70,69 @@ export default function ExportPage() {
     try {
       const project = getCurrentProject();
       const programTitle = project?.analysis?.programTitle || "Course Outlines";
+      // Saved stress scenarios, run against the portfolio the courses were built from
+      // and the model it was optimized with (current settings for portfolios saved without it)
+      const active = project && getActivePortfolio(project);
+      const weights = active?.result.selectedPortfolio.weights;
+      const topics = project?.sourceData?.topics;
+      const affinityMatrix = project?.analysis && effectiveAffinityMatrix(project);
+      const stressTests =
+        project && topics && affinityMatrix && weights?.length
+          ? (project.config.stressScenarios ?? []).map((scenario) =>
+              runStressTest(
+                weights,
+                topics,
+                affinityMatrix,
+                scenario,
+                active?.result.parameters?.returnModel ??
+                  project.config.optimizerSettings?.returnModel ??
+                  DEFAULT_RETURN_MODEL,
+                active?.result.covariance?.estimator ?? project.config.optimizerSettings?.covarianceEstimator
+              )
+            )
+          : [];
+      // Hand-set affinity cells the portfolio was computed with
+      const overrides: AffinityOverrideRow[] = project?.analysis
+        ? activeAffinityOverrides(project.analysis.affinityMatrix, project.config.affinityOverrides).map((o) => ({
+            ...o,
+            topicName: topics?.find((topic) => topic.topicNumber === o.topicNumber)?.name ?? "",
+          }))
+        : [];
+      // The AI's rationale beside the AI's own score, for reviewers of the method; hand-set scores are cited with their reason
+      const rationale = project?.analysis?.affinityRationale;
+      const aiMatrix = project?.analysis?.affinityMatrix;
+      const methodology: MethodologyAnnex | undefined =
+        project && includeMethodology
+          ? {
+              // The settings the active portfolio was optimized with, so its results can be reproduced
+              parameters: active?.result.parameters && {
+                ...active.result.parameters,
+                strategy: active.result.strategy ?? "mean_variance",
+                covarianceEstimator: active.result.covariance?.estimator,
+              },
+              ensemble: project.analysis?.ensemble,
+              topics:
+                topics && aiMatrix && rationale
+                  ? topics
+                      .filter((topic) => !topic.excluded && aiMatrix[topic.topicNumber])
+                      .map((topic) => ({
+                        topicNumber: topic.topicNumber,
+                        topicName: topic.name,
+                        scores: aiMatrix[topic.topicNumber],
+                        rationale: rationale[topic.topicNumber] ?? [],
+                        overrides: TRAINING_DIRECTIONS.map(
+                          (dir) =>
+                            findAffinityOverride(project.config.affinityOverrides ?? [], topic.topicNumber, dir.key) ??
+                            null
+                        ),
+                      }))
+                  : [],
+            }
+          : undefined;
       if (format === "docx") {
-        await exportCoursesToDocx(courses, supervisors, programTitle, locale);
+        await exportCoursesToDocx(courses, supervisors, programTitle, locale, stressTests, overrides, methodology);
       } else {
-        await exportCoursesToPdf(courses, supervisors, programTitle, locale);
+        await exportCoursesToPdf(courses, supervisors, programTitle, locale, stressTests, overrides, methodology);
       }
     } catch (err) {
       console.error(`Export ${format} error:`, err);
@@ -105,6 +180,21 @@ export default function ExportPage() {
         </CardContent>
       </Card>
 
+      {hasRationale && (
+        <label className="mb-4 flex items-start gap-2 text-sm">
+          <input
+            type="checkbox"
+            className="mt-0.5"
+            checked={includeMethodology}
+            onChange={(e) => setIncludeMethodology(e.target.checked)}
+          />
+          <span>
+            <span className="font-medium">{t("include_methodology")}</span>
+            <span className="block text-xs text-muted-foreground">{t("include_methodology_desc")}</span>
+          </span>
+        </label>
+      )}
+
       {/* Export Buttons */}
       <div className="grid gap-4 sm:grid-cols-3">
         <button
@@ -2,9 +2,35 @@
 
 import { useTranslations } from "next-intl";
 import { useLocale } from "next-intl";
-import { useState, useCallback, useEffect, useRef } from "react";
+import { useState, useCallback, useEffect, useRef, useMemo } from "react";
 import { useRouter } from "@/lib/i18n/navigation";
-import { TRAINING_DIRECTIONS, DIRECTION_COLORS } from "@/lib/engine/portfolio-types";
+import {
+  TRAINING_DIRECTIONS,
+  DIRECTION_COLORS,
+  createDefaultPortfolioConstraints,
+  createDefaultOptimizerSettings,
+  withOptimizerDefaults,
+  DEFAULT_RETURN_MODEL,
+  type TopicInfo,
+  type PortfolioConstraints,
+  type ExpertView,
+  type OptimizerSettings,
+  type AllocationStrategy,
+  type RiskMeasure,
+  type StressScenario,
+} from "@/lib/engine/portfolio-types";
+import { validatePortfolioConstraints } from "@/lib/engine/constraints";
+import { computeExpectedReturns } from "@/lib/engine/skill-mapper";
+import {
+  buildTopicTimelines,
+  resolveTopicMomentum,
+  applyTopicMomentum,
+  type TopicTimeline,
+} from "@/lib/engine/momentum";
+import { runStressTest } from "@/lib/engine/stress";
+import { allocateTopicWeights } from "@/lib/engine/topic-allocation";
+import { optimizeInBrowser } from "@/lib/optimize-client";
+import type { OptimizeRequest, OptimizeError } from "@/lib/engine/optimize-request";
 import { cn } from "@/lib/utils";
 import {
   BarChart3,
@@ -13,15 +39,47 @@ import {
   TrendingUp,
   Shield,
   Zap,
+  Save,
+  AlertTriangle,
 } from "lucide-react";
 import SkillRadar from "@/components/charts/SkillRadar";
+import TopicSunburst from "@/components/charts/TopicSunburst";
+import CorrelationHeatmap from "@/components/charts/CorrelationHeatmap";
 import EfficientFrontier from "@/components/charts/EfficientFrontier";
+import ConstraintsEditor from "@/components/portfolio/ConstraintsEditor";
+import ExpertViewsEditor from "@/components/portfolio/ExpertViewsEditor";
+import ReturnsComparison from "@/components/portfolio/ReturnsComparison";
+import OptimizerSettingsPanel from "@/components/portfolio/OptimizerSettingsPanel";
+import StrategyComparison, { type StrategyRow } from "@/components/portfolio/StrategyComparison";
+import SensitivityPanel, {
+  type SensitivityResult,
+  type SensitivityDriverRow,
+} from "@/components/portfolio/SensitivityPanel";
+import StressTestPanel from "@/components/portfolio/StressTestPanel";
+import CardinalityComparison, {
+  type CardinalityRow,
+} from "@/components/portfolio/CardinalityComparison";
+import PortfolioComparison, { OVERLAY_COLORS } from "@/components/portfolio/PortfolioComparison";
 import {
   getCurrentProject,
   saveProject,
+  getActivePortfolio,
+  setActivePortfolioResult,
+  savePortfolioAs,
+  activatePortfolio,
+  renamePortfolio,
+  deletePortfolio,
+  isStale,
+  clearStale,
+  type ProjectData,
   type ProjectPortfolioResult,
+  type SavedPortfolio,
+  effectiveAffinityMatrix,
 } from "@/lib/project-manager";
 import { useProject } from "@/lib/project-context";
+import { Badge } from "@/components/ui/Badge";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
 
 interface FrontierPoint {
   risk: number;
@@ -38,9 +96,41 @@ interface SelectedPortfolio {
   diversificationScore: number;
 }
 
+interface WeightInterval {
+  lower: number[];
+  upper: number[];
+}
+
 interface OptimizeResult {
   frontier: FrontierPoint[];
   selectedPortfolio: SelectedPortfolio;
+  priorReturns?: number[];
+  expectedReturns?: number[];
+  weightIntervals?: WeightInterval[];
+  strategy?: AllocationStrategy;
+  strategies?: StrategyRow[];
+  riskMeasure?: RiskMeasure;
+  cvarConfidence?: number;
+  byCount?: Array<CardinalityRow | null>;
+  covariance?: CovarianceSummary;
+}
+
+type CovarianceSummary = NonNullable<ProjectPortfolioResult["covariance"]>;
+
+function toOptimizeResult(pr: ProjectPortfolioResult): OptimizeResult {
+  return {
+    frontier: pr.frontier,
+    selectedPortfolio: pr.selectedPortfolio,
+    priorReturns: pr.priorReturns,
+    expectedReturns: pr.expectedReturns,
+    weightIntervals: pr.weightIntervals,
+    strategy: pr.strategy,
+    strategies: pr.strategies,
+    riskMeasure: pr.parameters?.riskMeasure,
+    cvarConfidence: pr.parameters?.cvarConfidence,
+    byCount: pr.byCount,
+    covariance: pr.covariance,
+  };
 }
 
 export default function PortfolioPage() {
@@ -54,8 +144,36 @@ export default function PortfolioPage() {
   const [loading, setLoading] = useState(false);
   const [selectedFrontierIdx, setSelectedFrontierIdx] = useState<number | null>(null);
   const [noAnalysis, setNoAnalysis] = useState(false);
+  const [stale, setStale] = useState(false); // topics, rarity or affinity changed since the active portfolio was optimized
+  const [constraints, setConstraints] = useState<PortfolioConstraints>(
+    createDefaultPortfolioConstraints
+  );
+  const [expertViews, setExpertViews] = useState<ExpertView[]>([]);
+  const [optimizerSettings, setOptimizerSettings] = useState<OptimizerSettings>(
+    createDefaultOptimizerSettings
+  );
+  const [modelInputs, setModelInputs] = useState<{
+    topics: TopicInfo[];
+    affinityMatrix: Record<number, number[]>;
+    topicTimelines: Record<number, TopicTimeline>;
+  } | null>(null);
+  const [sensitivity, setSensitivity] = useState<SensitivityResult | null>(null);
+  const [sensitivityLoading, setSensitivityLoading] = useState(false);
+  const [sensitivityError, setSensitivityError] = useState<string | null>(null);
+  const [optimizeError, setOptimizeError] = useState<OptimizeError | null>(null);
+  const [stressScenarios, setStressScenarios] = useState<StressScenario[]>([]);
+  const [portfolios, setPortfolios] = useState<SavedPortfolio[]>([]);
+  const [activePortfolioId, setActivePortfolioId] = useState<string | null>(null);
+  const [overlayIds, setOverlayIds] = useState<string[]>([]);
+  const [saveName, setSaveName] = useState("");
+  const constraintIssues = useMemo(
+    () => validatePortfolioConstraints(constraints),
+    [constraints]
+  );
   const hasOptimized = useRef(false);
   const skipAutoOptimize = useRef(false);
+  // The per-count table ignores the slider; it is kept for the rest of the request it came from
+  const byCountCache = useRef<{ key: string; rows: Array<CardinalityRow | null> } | null>(null);
 
   // Restore saved portfolio results on mount
   useEffect(() => {
@@ -64,35 +182,69 @@ export default function PortfolioPage() {
       setNoAnalysis(true);
       return;
     }
-    if (project.portfolioResult) {
-      const pr = project.portfolioResult;
-      setRiskTolerance(pr.riskTolerance);
-      setResult({
-        frontier: pr.frontier,
-        selectedPortfolio: pr.selectedPortfolio,
-      });
+    if (project.config.portfolioConstraints) {
+      setConstraints(project.config.portfolioConstraints);
+    }
+    if (project.config.expertViews) {
+      setExpertViews(project.config.expertViews);
+    }
+    setOptimizerSettings(withOptimizerDefaults(project.config.optimizerSettings));
+    setStressScenarios(project.config.stressScenarios ?? []);
+    setModelInputs({
+      topics: project.sourceData.topics,
+      affinityMatrix: effectiveAffinityMatrix(project),
+      topicTimelines: buildTopicTimelines(project.sourceData.papers),
+    });
+    setPortfolios(project.portfolios);
+    setActivePortfolioId(project.activePortfolioId);
+    setStale(isStale(project, "portfolio"));
+    const active = getActivePortfolio(project);
+    if (active) {
+      setRiskTolerance(active.result.riskTolerance);
+      setResult(toOptimizeResult(active.result));
       hasOptimized.current = true;
     }
   }, []);
 
   const optimize = useCallback(async () => {
+    if (constraintIssues.length > 0) return;
     setLoading(true);
+    let superseded = false;
     try {
       const project = getCurrentProject();
       if (!project?.analysis || !project?.sourceData) return;
 
-      const res = await fetch("/api/optimize", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          topics: project.sourceData.topics,
-          affinityMatrix: project.analysis.affinityMatrix,
-          riskTolerance,
-        }),
-      });
+      const request: OptimizeRequest = {
+        topics: project.sourceData.topics,
+        affinityMatrix: effectiveAffinityMatrix(project),
+        riskTolerance,
+        constraints,
+        expertViews,
+        resampling: optimizerSettings.resampling,
+        cardinality: optimizerSettings.cardinality,
+        strategy: optimizerSettings.strategy,
+        returnModel: optimizerSettings.returnModel,
+        riskFreeRate: optimizerSettings.riskFreeRate,
+        riskMeasure: optimizerSettings.riskMeasure,
+        cvarConfidence: optimizerSettings.cvarConfidence,
+        returnTrend: optimizerSettings.returnTrend,
+        momentum: optimizerSettings.momentum,
+        covarianceEstimator: optimizerSettings.covarianceEstimator,
+        topicTimelines: buildTopicTimelines(project.sourceData.papers),
+      };
+      const byCountKey = JSON.stringify({ ...request, riskTolerance: null });
+      const cachedByCount =
+        byCountCache.current?.key === byCountKey ? byCountCache.current.rows : undefined;
 
-      if (res.ok) {
-        const data = await res.json();
+      // Runs in a Web Worker; a newer call (the slider moved again) cancels this one
+      const outcome = await optimizeInBrowser({ ...request, byCount: !cachedByCount });
+      if (!outcome) {
+        superseded = true;
+        return;
+      }
+
+      if (outcome.ok) {
+        const data = outcome.body;
         // Normalize API response (snake_case) to component format (camelCase)
         const frontier: FrontierPoint[] = (data.frontier || []).map(
           (p: { risk: number; return: number; weights: number[]; sharpe_ratio: number }) => ({
@@ -115,9 +267,80 @@ export default function PortfolioPage() {
           sharpeRatio: sel.sharpe_ratio ?? 0,
           diversificationScore,
         };
+        const topicAllocation = allocateTopicWeights(
+          weights,
+          project.sourceData.topics,
+          effectiveAffinityMatrix(project),
+          optimizerSettings.topicRarityTilt
+        );
+
+        const priorReturns: number[] = data.prior_returns ?? data.expected_returns ?? [];
+        const expectedReturns: number[] = data.expected_returns ?? [];
+        const weightIntervals: WeightInterval[] | undefined = data.resampling?.weight_intervals;
+        const strategy: AllocationStrategy = data.strategy ?? "mean_variance";
+        const riskMeasure: RiskMeasure = data.risk_measure?.kind ?? "variance";
+        const cvarConfidence: number | undefined = data.risk_measure?.confidence;
+        const covariance: CovarianceSummary = data.covariance;
+        const strategies: StrategyRow[] = (data.strategies || []).map(
+          (p: {
+            strategy: AllocationStrategy;
+            weights: number[];
+            return: number;
+            risk: number;
+            sharpe_ratio: number;
+            hhi: number;
+            status: string;
+          }) => ({
+            strategy: p.strategy,
+            weights: p.weights,
+            return_: p.return,
+            risk: p.risk,
+            sharpeRatio: p.sharpe_ratio,
+            hhi: p.hhi,
+            feasible: p.status === "optimal",
+          })
+        );
 
-        setResult({ frontier, selectedPortfolio });
+        const computedByCount: Array<CardinalityRow | null> | undefined = data.cardinality?.by_count.map(
+          (
+            p: {
+              assets: number;
+              held: CardinalityRow["held"];
+              weights: number[];
+              return: number;
+              risk: number;
+              sharpe_ratio: number;
+              hhi: number;
+            } | null
+          ) =>
+            p && {
+              assets: p.assets,
+              held: p.held,
+              weights: p.weights,
+              return_: p.return,
+              risk: p.risk,
+              sharpeRatio: p.sharpe_ratio,
+              hhi: p.hhi,
+            }
+        );
+        if (computedByCount) byCountCache.current = { key: byCountKey, rows: computedByCount };
+        const byCount = computedByCount ?? cachedByCount;
+
+        setResult({
+          frontier,
+          selectedPortfolio,
+          priorReturns,
+          expectedReturns,
+          weightIntervals,
+          strategy,
+          strategies,
+          riskMeasure,
+          cvarConfidence,
+          byCount,
+          covariance,
+        });
         setSelectedFrontierIdx(null);
+        setSensitivity(null); // drivers describe the previous allocation
 
         // Save to active project
         if (project) {
@@ -125,21 +348,223 @@ export default function PortfolioPage() {
             frontier,
             selectedPortfolio,
             riskTolerance,
+            priorReturns,
+            expectedReturns,
+            weightIntervals,
+            strategy,
+            strategies,
+            byCount,
+            topicAllocation,
+            covariance,
+            parameters: {
+              returnModel: data.parameters?.return_model ?? optimizerSettings.returnModel,
+              riskFreeRate: data.parameters?.risk_free_rate ?? optimizerSettings.riskFreeRate,
+              riskMeasure,
+              cvarConfidence,
+              returnTrend: data.parameters?.return_trend ?? optimizerSettings.returnTrend,
+              momentum: data.parameters?.momentum
+                ? {
+                    windowYears: data.parameters.momentum.window_years,
+                    strength: data.parameters.momentum.strength,
+                  }
+                : undefined,
+              cardinality: data.cardinality?.enabled
+                ? {
+                    maxAssets: data.cardinality.max_assets ?? optimizerSettings.cardinality.maxAssets,
+                    minPosition: data.cardinality.min_position,
+                  }
+                : undefined,
+            },
           };
-          project.portfolioResult = portfolioResult;
-          saveProject(project);
+          // Re-optimizing updates the active portfolio; "save as" keeps a copy
+          const updated = clearStale(setActivePortfolioResult(project, portfolioResult), "portfolio");
+          saveProject(updated);
+          setPortfolios(updated.portfolios);
+          setActivePortfolioId(updated.activePortfolioId);
+          setStale(false);
           refreshCurrentProject();
         }
+        setOptimizeError(null);
+      } else {
+        // The previous result no longer matches the inputs, so it is cleared
+        setOptimizeError(outcome.body);
+        setResult(null);
+        setSelectedFrontierIdx(null);
+        setSensitivity(null);
       }
     } catch (err) {
       console.error("Optimization error:", err);
+      setOptimizeError({ error: err instanceof Error ? err.message : String(err) });
     } finally {
-      setLoading(false);
+      if (!superseded) setLoading(false);
     }
     hasOptimized.current = true;
-  }, [riskTolerance]);
+  }, [riskTolerance, constraints, constraintIssues, expertViews, optimizerSettings]);
+
+  // Persist constraint edits to the project; the auto-optimize effect re-runs
+  const handleConstraintsChange = useCallback((next: PortfolioConstraints) => {
+    setConstraints(next);
+    const project = getCurrentProject();
+    if (project) {
+      project.config.portfolioConstraints = next;
+      saveProject(project);
+    }
+  }, []);
+
+  const handleViewsChange = useCallback((next: ExpertView[]) => {
+    setExpertViews(next);
+    const project = getCurrentProject();
+    if (project) {
+      project.config.expertViews = next;
+      saveProject(project);
+    }
+  }, []);
+
+  const handleSettingsChange = useCallback((next: OptimizerSettings) => {
+    setOptimizerSettings(next);
+    const project = getCurrentProject();
+    if (project) {
+      project.config.optimizerSettings = next;
+      saveProject(project);
+    }
+  }, []);
+
+  const handleStressChange = useCallback((next: StressScenario[]) => {
+    setStressScenarios(next);
+    const project = getCurrentProject();
+    if (project) {
+      project.config.stressScenarios = next;
+      saveProject(project);
+    }
+  }, []);
+
+  const handleStrategySelect = useCallback(
+    (strategy: AllocationStrategy) => {
+      setSelectedFrontierIdx(null);
+      handleSettingsChange({
+        ...optimizerSettings,
+        strategy,
+        // The course limit applies to the mean-variance frontier only
+        cardinality:
+          strategy === "mean_variance"
+            ? optimizerSettings.cardinality
+            : { ...optimizerSettings.cardinality, enabled: false },
+      });
+    },
+    [optimizerSettings, handleSettingsChange]
+  );
+
+  const handleCourseLimit = useCallback(
+    (maxAssets: number | null) => {
+      setSelectedFrontierIdx(null);
+      handleSettingsChange({
+        ...optimizerSettings,
+        strategy: maxAssets !== null ? "mean_variance" : optimizerSettings.strategy,
+        resampling:
+          maxAssets !== null
+            ? { ...optimizerSettings.resampling, enabled: false }
+            : optimizerSettings.resampling,
+        cardinality: {
+          ...optimizerSettings.cardinality,
+          enabled: maxAssets !== null,
+          maxAssets: maxAssets ?? optimizerSettings.cardinality.maxAssets,
+        },
+      });
+    },
+    [optimizerSettings, handleSettingsChange]
+  );
+
+  const runSensitivity = useCallback(async () => {
+    const project = getCurrentProject();
+    if (!project?.analysis || !project?.sourceData) return;
+    setSensitivityLoading(true);
+    setSensitivityError(null);
+    try {
+      const res = await fetch("/api/sensitivity", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          topics: project.sourceData.topics,
+          affinityMatrix: effectiveAffinityMatrix(project),
+          riskTolerance,
+          constraints,
+          expertViews,
+          // The optimize request's settings, so the drivers describe the portfolio on the page
+          resampling: optimizerSettings.resampling,
+          cardinality: optimizerSettings.cardinality,
+          strategy: optimizerSettings.strategy,
+          returnModel: optimizerSettings.returnModel,
+          riskFreeRate: optimizerSettings.riskFreeRate,
+          riskMeasure: optimizerSettings.riskMeasure,
+          cvarConfidence: optimizerSettings.cvarConfidence,
+          returnTrend: optimizerSettings.returnTrend,
+          momentum: optimizerSettings.momentum,
+          covarianceEstimator: optimizerSettings.covarianceEstimator,
+          topicTimelines: buildTopicTimelines(project.sourceData.papers),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setSensitivityError(data.error || `Sensitivity analysis failed (${res.status})`);
+        return;
+      }
+      const topDrivers: Record<string, SensitivityDriverRow[]> = {};
+      for (const [key, rows] of Object.entries(
+        data.top_drivers as Record<
+          string,
+          Array<{
+            kind: SensitivityDriverRow["kind"];
+            topic_number?: number;
+            topic_name?: string;
+            scored_direction?: SensitivityDriverRow["scoredDirection"];
+            coefficient?: SensitivityDriverRow["coefficient"];
+            value: number;
+            sensitivity: number;
+          }>
+        >
+      )) {
+        topDrivers[key] = rows.map((r) => ({
+          kind: r.kind,
+          topicNumber: r.topic_number,
+          topicName: r.topic_name,
+          scoredDirection: r.scored_direction,
+          coefficient: r.coefficient,
+          value: r.value,
+          sensitivity: r.sensitivity,
+        }));
+      }
+      setSensitivity({ weights: data.weights, topDrivers });
+    } catch (err) {
+      console.error("Sensitivity analysis error:", err);
+      setSensitivityError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSensitivityLoading(false);
+    }
+  }, [riskTolerance, constraints, expertViews, optimizerSettings]);
 
-  // Auto-optimize when slider changes (only after first manual optimize)
+  // Live preview of the return model before it is sent to the optimizer
+  const returnsPreview = useMemo(() => {
+    if (!modelInputs) return undefined;
+    const previewTopics =
+      optimizerSettings.returnTrend === "momentum"
+        ? applyTopicMomentum(
+            modelInputs.topics,
+            resolveTopicMomentum(modelInputs.topicTimelines, optimizerSettings.momentum)
+          )
+        : modelInputs.topics;
+    return {
+      baseline: computeExpectedReturns(modelInputs.topics, modelInputs.affinityMatrix, DEFAULT_RETURN_MODEL),
+      preview: computeExpectedReturns(
+        previewTopics,
+        modelInputs.affinityMatrix,
+        optimizerSettings.returnModel
+      ),
+    };
+  }, [modelInputs, optimizerSettings.returnModel, optimizerSettings.returnTrend, optimizerSettings.momentum]);
+
+  // Auto-optimize when slider changes (only after first manual optimize).
+  // The worker answers without a round-trip, so a short pause is enough
+  // to follow a dragged slider.
   useEffect(() => {
     if (!hasOptimized.current) return;
     if (skipAutoOptimize.current) {
@@ -148,7 +573,7 @@ export default function PortfolioPage() {
     }
     const timer = setTimeout(() => {
       optimize();
-    }, 500);
+    }, 100);
     return () => clearTimeout(timer);
   }, [riskTolerance, optimize]);
 
@@ -170,6 +595,19 @@ export default function PortfolioPage() {
     setRiskTolerance(Math.max(0, Math.min(1, sliderValue)));
   }, [result]);
 
+  // Frontier point behind the slider-selected portfolio
+  const optimumIdx = result
+    ? result.frontier.findIndex(
+        (p) => Math.abs(p.risk - result.selectedPortfolio.risk) < 0.001
+      )
+    : -1;
+
+  // Resampling intervals belong to frontier points, not to other strategies
+  const activeInterval =
+    selectedFrontierIdx !== null || optimizerSettings.strategy === "mean_variance"
+      ? result?.weightIntervals?.[selectedFrontierIdx ?? optimumIdx]
+      : undefined;
+
   const activeWeights = selectedFrontierIdx !== null && result
     ? result.frontier[selectedFrontierIdx].weights
     : result?.selectedPortfolio.weights || [];
@@ -186,14 +624,148 @@ export default function PortfolioPage() {
     ? result.frontier[selectedFrontierIdx].sharpeRatio
     : result?.selectedPortfolio.sharpeRatio || 0;
 
+  // Second allocation level for the portfolio on screen
+  const topicAllocation =
+    modelInputs && activeWeights.length
+      ? allocateTopicWeights(
+          activeWeights,
+          modelInputs.topics,
+          modelInputs.affinityMatrix,
+          optimizerSettings.topicRarityTilt
+        )
+      : null;
+
+  // Stress the portfolio on screen; cheap enough to redo on every edit
+  const stressResults = useMemo(() => {
+    const weights =
+      selectedFrontierIdx !== null && result
+        ? result.frontier[selectedFrontierIdx].weights
+        : result?.selectedPortfolio.weights;
+    if (!modelInputs || !weights?.length) return [];
+    return stressScenarios.map((scenario) =>
+      runStressTest(
+        weights,
+        modelInputs.topics,
+        modelInputs.affinityMatrix,
+        scenario,
+        optimizerSettings.returnModel,
+        optimizerSettings.covarianceEstimator
+      )
+    );
+  }, [
+    modelInputs,
+    result,
+    selectedFrontierIdx,
+    stressScenarios,
+    optimizerSettings.returnModel,
+    optimizerSettings.covarianceEstimator,
+  ]);
+
+  // Show a saved portfolio and the inputs it was optimized with, without re-optimizing
+  const showPortfolio = (project: ProjectData) => {
+    saveProject(project);
+    setPortfolios(project.portfolios);
+    setActivePortfolioId(project.activePortfolioId);
+    setStale(isStale(project, "portfolio"));
+    refreshCurrentProject();
+    const active = getActivePortfolio(project);
+    if (!active) return;
+    skipAutoOptimize.current = true;
+    setConstraints(project.config.portfolioConstraints ?? createDefaultPortfolioConstraints());
+    setExpertViews(project.config.expertViews ?? []);
+    setOptimizerSettings(withOptimizerDefaults(project.config.optimizerSettings));
+    setRiskTolerance(active.result.riskTolerance);
+    setResult(toOptimizeResult(active.result));
+    setOptimizeError(null);
+    setSelectedFrontierIdx(null);
+    setSensitivity(null);
+    setOverlayIds((ids) => ids.filter((id) => id !== active.id));
+  };
+
+  const handleSaveAs = () => {
+    const project = getCurrentProject();
+    const current = project && getActivePortfolio(project);
+    if (!project || !current) return;
+    const hhi = activeWeights.reduce((sum, w) => sum + w * w, 0);
+    const updated = savePortfolioAs(
+      project,
+      saveName,
+      {
+        ...current.result,
+        selectedPortfolio: {
+          weights: activeWeights,
+          expectedReturn: activeReturn,
+          risk: activeRisk,
+          sharpeRatio: activeSharpe,
+          diversificationScore: 1 - hhi,
+        },
+        riskTolerance,
+        topicAllocation: topicAllocation ?? undefined,
+      },
+      current.stale
+    );
+    saveProject(updated);
+    setPortfolios(updated.portfolios);
+    setActivePortfolioId(updated.activePortfolioId);
+    refreshCurrentProject();
+    setSaveName("");
+  };
+
+  const handleActivatePortfolio = (id: string) => {
+    const project = getCurrentProject();
+    if (project) showPortfolio(activatePortfolio(project, id));
+  };
+
+  const handleRenamePortfolio = (id: string, name: string) => {
+    const project = getCurrentProject();
+    if (!project) return;
+    const updated = renamePortfolio(project, id, name);
+    saveProject(updated);
+    setPortfolios(updated.portfolios);
+    refreshCurrentProject();
+  };
+
+  const handleDeletePortfolio = (id: string) => {
+    const project = getCurrentProject();
+    if (!project) return;
+    setOverlayIds((ids) => ids.filter((other) => other !== id));
+    const updated = deletePortfolio(project, id);
+    if (project.activePortfolioId === id) {
+      showPortfolio(updated);
+    } else {
+      saveProject(updated);
+      setPortfolios(updated.portfolios);
+      refreshCurrentProject();
+    }
+  };
+
+  const handleToggleOverlay = (id: string) => {
+    setOverlayIds((ids) =>
+      ids.includes(id) ? ids.filter((other) => other !== id) : [...ids, id]
+    );
+  };
+
+  // Saved portfolios ticked for comparison, in overlay color order
+  const overlays = overlayIds.flatMap((id, k) => {
+    const saved = portfolios.find((p) => p.id === id);
+    return saved ? [{ saved, color: OVERLAY_COLORS[k] }] : [];
+  });
+  const activePortfolioName = portfolios.find((p) => p.id === activePortfolioId)?.name;
+
   const handleGenerate = () => {
     if (!result) return;
     const weights = activeWeights;
     // Save final selected weights to project
     const project = getCurrentProject();
-    if (project && project.portfolioResult) {
-      project.portfolioResult.selectedPortfolio.weights = weights;
-      saveProject(project);
+    const active = project && getActivePortfolio(project);
+    if (project && active) {
+      saveProject(
+        setActivePortfolioResult(project, {
+          ...active.result,
+          selectedPortfolio: { ...active.result.selectedPortfolio, weights },
+          topicAllocation: topicAllocation ?? undefined,
+        })
+      );
       refreshCurrentProject();
     }
     router.push("/courses");
@@ -213,6 +785,36 @@ export default function PortfolioPage() {
       <h1 className="mb-2 text-3xl font-bold">{t("title")}</h1>
       <p className="mb-8 text-muted-foreground">{t("subtitle")}</p>
 
+      {stale && (
+        <div className="mb-6 flex items-center gap-2 rounded-lg bg-accent/10 px-4 py-3 text-sm font-medium text-accent">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          {t("stale")}
+        </div>
+      )}
+
+      {/* Weight Constraints */}
+      <ConstraintsEditor
+        constraints={constraints}
+        issues={constraintIssues}
+        locale={locale}
+        onChange={handleConstraintsChange}
+      />
+
+      {/* Expert Views (Black–Litterman) */}
+      <ExpertViewsEditor
+        views={expertViews}
+        locale={locale}
+        onChange={handleViewsChange}
+      />
+
+      {/* Optimizer Settings */}
+      <OptimizerSettingsPanel
+        settings={optimizerSettings}
+        locale={locale}
+        returnsPreview={returnsPreview}
+        onChange={handleSettingsChange}
+      />
+
       {/* Risk Tolerance Slider */}
       <div className="mb-8 rounded-xl border border-border bg-card p-6">
         <label className="mb-1 block text-sm font-semibold">
@@ -241,6 +843,26 @@ export default function PortfolioPage() {
             {t("aggressive")}
           </span>
         </div>
+        {optimizerSettings.strategy !== "mean_variance" && (
+          <p className="mt-3 text-xs text-muted-foreground">
+            {t("strategies.slider_note", {
+              name: t(`strategies.names.${optimizerSettings.strategy}`),
+            })}
+          </p>
+        )}
+
+        {optimizeError && (
+          <div className="mt-4 text-sm text-destructive">
+            <p>{optimizeError.error}</p>
+            {optimizeError.issues && (
+              <ul className="mt-1 list-disc pl-5 text-xs">
+                {optimizeError.issues.map((issue, i) => (
+                  <li key={i}>{issue.message}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
 
         {!result && (
           <>
@@ -249,7 +871,7 @@ export default function PortfolioPage() {
             </p>
             <button
               onClick={optimize}
-              disabled={loading}
+              disabled={loading || constraintIssues.length > 0}
               className="flex w-full items-center justify-center gap-2 rounded-lg bg-primary px-6 py-2.5 font-semibold text-white transition-colors hover:bg-primary-hover disabled:opacity-60"
             >
             {loading ? (
@@ -282,7 +904,7 @@ export default function PortfolioPage() {
             </div>
             <div className="rounded-xl border border-border bg-card p-4">
               <div className="mb-1 text-xs font-medium uppercase tracking-wider text-muted-foreground">
-                {t("risk")}
+                {result.riskMeasure === "cvar" ? t("risk_cvar") : t("risk")}
               </div>
               <div className="text-2xl font-bold text-accent">
                 {(activeRisk * 100).toFixed(1)}%
@@ -313,15 +935,40 @@ export default function PortfolioPage() {
               <h2 className="mb-4 flex items-center gap-2 text-lg font-semibold">
                 <TrendingUp className="h-5 w-5 text-primary" />
                 {t("efficient_frontier")}
+                <Badge variant={result.riskMeasure === "cvar" ? "accent" : "muted"} className="ml-auto">
+                  {result.riskMeasure === "cvar"
+                    ? t("settings.frontier_cvar", {
+                        level: Math.round((result.cvarConfidence ?? 0.9) * 100),
+                      })
+                    : t("settings.frontier_variance")}
+                </Badge>
               </h2>
               <EfficientFrontier
                 frontier={result.frontier}
                 selectedIdx={selectedFrontierIdx}
                 onSelect={handleFrontierSelect}
-                optimumIdx={result.frontier.findIndex(
-                  (p) =>
-                    Math.abs(p.risk - result.selectedPortfolio.risk) < 0.001
-                )}
+                optimumIdx={optimumIdx}
+                riskLabel={
+                  result.riskMeasure === "cvar"
+                    ? t("settings.axis_cvar", {
+                        level: Math.round((result.cvarConfidence ?? 0.9) * 100),
+                      })
+                    : t("settings.axis_variance")
+                }
+                markers={overlays
+                  .filter(
+                    ({ saved }) =>
+                      (saved.result.parameters?.riskMeasure ?? "variance") ===
+                        (result.riskMeasure ?? "variance") &&
+                      (result.riskMeasure !== "cvar" ||
+                        saved.result.parameters?.cvarConfidence === result.cvarConfidence)
+                  )
+                  .map(({ saved, color }) => ({
+                    label: saved.name,
+                    risk: saved.result.selectedPortfolio.risk,
+                    return_: saved.result.selectedPortfolio.expectedReturn,
+                    color,
+                  }))}
               />
             </div>
 
@@ -331,24 +978,114 @@ export default function PortfolioPage() {
                 <BarChart3 className="h-5 w-5 text-primary" />
                 {t("skill_distribution")}
               </h2>
-              <SkillRadar weights={activeWeights} locale={locale} />
+              <SkillRadar
+                weights={activeWeights}
+                locale={locale}
+                label={activePortfolioName ?? t("saved.current")}
+                overlays={overlays.map(({ saved, color }) => ({
+                  name: saved.name,
+                  weights: saved.result.selectedPortfolio.weights,
+                  color,
+                }))}
+              />
+            </div>
+          </div>
+
+          {/* Saved portfolios */}
+          <div className="mb-8 rounded-xl border border-border bg-card p-6">
+            <div className="mb-4 flex flex-wrap items-start justify-between gap-3">
+              <div>
+                <h3 className="mb-1 font-semibold">{t("saved.title")}</h3>
+                <p className="text-xs text-muted-foreground">{t("saved.hint")}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Input
+                  className="h-9 w-48"
+                  value={saveName}
+                  placeholder={t("saved.name_placeholder")}
+                  onChange={(e) => setSaveName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter" && saveName.trim()) handleSaveAs();
+                  }}
+                />
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  disabled={!saveName.trim() || !activePortfolioId}
+                  onClick={handleSaveAs}
+                >
+                  <Save className="h-4 w-4" />
+                  {t("saved.save_as")}
+                </Button>
+              </div>
             </div>
+            {portfolios.length > 0 && (
+              <PortfolioComparison
+                portfolios={portfolios}
+                activeId={activePortfolioId}
+                overlayIds={overlayIds}
+                locale={locale}
+                onToggleOverlay={handleToggleOverlay}
+                onActivate={handleActivatePortfolio}
+                onRename={handleRenamePortfolio}
+                onDelete={handleDeletePortfolio}
+              />
+            )}
           </div>
 
+          {/* Topic-level allocation */}
+          {topicAllocation && modelInputs && (
+            <div className="mb-8 rounded-xl border border-border bg-card p-6">
+              <h3 className="mb-1 font-semibold">{t("topic_allocation.title")}</h3>
+              <p className="mb-4 text-xs text-muted-foreground">
+                {t("topic_allocation.hint", { tilt: optimizerSettings.topicRarityTilt })}
+              </p>
+              <TopicSunburst
+                weights={activeWeights}
+                allocation={topicAllocation}
+                topics={modelInputs.topics}
+                locale={locale}
+              />
+            </div>
+          )}
+
+          {/* Correlations behind the risk figures */}
+          {result.covariance && (
+            <div className="mb-8 rounded-xl border border-border bg-card p-6">
+              <h3 className="mb-1 font-semibold">{t("correlation.title")}</h3>
+              <p className="mb-4 text-xs text-muted-foreground">
+                {result.covariance.shrinkage !== null
+                  ? t("correlation.hint_shrunk", {
+                      estimator: t(`settings.estimator_${result.covariance.estimator}`),
+                      shrinkage: Math.round(result.covariance.shrinkage * 100),
+                    })
+                  : t("correlation.hint", {
+                      estimator: t(`settings.estimator_${result.covariance.estimator}`),
+                    })}
+              </p>
+              <CorrelationHeatmap correlation={result.covariance.correlation} locale={locale} />
+            </div>
+          )}
+
           {/* Weight Breakdown */}
           <div className="mb-8 rounded-xl border border-border bg-card p-6">
             <h3 className="mb-4 font-semibold">
               {locale === "el" ? "Κατανομή Βαρών" : "Weight Allocation"}
             </h3>
+            {activeInterval && (
+              <p className="-mt-2 mb-4 text-xs text-muted-foreground">{t("settings.interval_hint")}</p>
+            )}
             <div className="space-y-3">
               {TRAINING_DIRECTIONS.map((dir, i) => {
                 const weight = activeWeights[i] || 0;
+                const lower = activeInterval?.lower[i];
+                const upper = activeInterval?.upper[i];
                 return (
                   <div key={dir.key} className="flex items-center gap-3">
                     <span className="w-32 truncate text-sm sm:w-64">
                       {locale === "el" ? dir.name_el : dir.name}
                     </span>
-                    <div className="h-3 flex-1 overflow-hidden rounded-full bg-muted">
+                    <div className="relative h-3 flex-1 overflow-hidden rounded-full bg-muted">
                       <div
                         className="h-full rounded-full transition-all"
                         style={{
@@ -356,16 +1093,98 @@ export default function PortfolioPage() {
                           backgroundColor: DIRECTION_COLORS[i],
                         }}
                       />
+                      {lower !== undefined && upper !== undefined && (
+                        // Resampling interval drawn as an error bar over the weight
+                        <div
+                          className="absolute inset-y-0.5 rounded-full border border-foreground/50 bg-foreground/10"
+                          style={{
+                            left: `${lower * 100}%`,
+                            width: `${Math.max(upper - lower, 0.002) * 100}%`,
+                          }}
+                        />
+                      )}
                     </div>
                     <span className="w-14 text-right text-sm font-medium">
                       {(weight * 100).toFixed(1)}%
                     </span>
+                    {lower !== undefined && upper !== undefined && (
+                      <span className="hidden w-24 text-right text-xs text-muted-foreground sm:inline">
+                        {(lower * 100).toFixed(0)}–{(upper * 100).toFixed(0)}%
+                      </span>
+                    )}
                   </div>
                 );
               })}
             </div>
           </div>
 
+          {/* Strategy Comparison */}
+          {result.strategies && result.strategies.length > 0 && (
+            <div className="mb-8 rounded-xl border border-border bg-card p-6">
+              <h3 className="mb-1 font-semibold">{t("strategies.title")}</h3>
+              <p className="mb-4 text-xs text-muted-foreground">{t("strategies.hint")}</p>
+              <StrategyComparison
+                strategies={result.strategies}
+                active={result.strategy ?? "mean_variance"}
+                onSelect={handleStrategySelect}
+              />
+            </div>
+          )}
+
+          {/* Best portfolio per course count */}
+          {result.byCount && result.byCount.length > 0 && (
+            <div className="mb-8 rounded-xl border border-border bg-card p-6">
+              <h3 className="mb-1 font-semibold">{t("cardinality.title")}</h3>
+              <p className="mb-4 text-xs text-muted-foreground">{t("cardinality.hint")}</p>
+              <CardinalityComparison
+                rows={result.byCount}
+                activeLimit={
+                  optimizerSettings.cardinality.enabled ? optimizerSettings.cardinality.maxAssets : null
+                }
+                locale={locale}
+                onSelect={handleCourseLimit}
+              />
+            </div>
+          )}
+
+          {/* Sensitivity Analysis */}
+          <div className="mb-8 rounded-xl border border-border bg-card p-6">
+            <SensitivityPanel
+              result={sensitivity}
+              loading={sensitivityLoading}
+              error={sensitivityError}
+              locale={locale}
+              onRun={runSensitivity}
+            />
+          </div>
+
+          {/* Stress Tests */}
+          {modelInputs && (
+            <div className="mb-8 rounded-xl border border-border bg-card p-6">
+              <StressTestPanel
+                scenarios={stressScenarios}
+                results={stressResults}
+                topics={modelInputs.topics}
+                affinityMatrix={modelInputs.affinityMatrix}
+                locale={locale}
+                onChange={handleStressChange}
+              />
+            </div>
+          )}
+
+          {/* Prior vs Posterior Returns */}
+          {result.priorReturns && result.expectedReturns && (
+            <div className="mb-8 rounded-xl border border-border bg-card p-6">
+              <h3 className="mb-1 font-semibold">{t("returns.title")}</h3>
+              <p className="mb-4 text-xs text-muted-foreground">{t("returns.hint")}</p>
+              <ReturnsComparison
+                priorReturns={result.priorReturns}
+                posteriorReturns={result.expectedReturns}
+                locale={locale}
+              />
+            </div>
+          )}
+
           {/* Generate Button */}
           <button
             onClick={handleGenerate}
@@ -51,6 +51,7 @@ export default function SettingsPage() {
 
   const isDirty =
     settings.name !== savedSnapshot.name ||
+    JSON.stringify(settings.ensembleKeys ?? {}) !== JSON.stringify(savedSnapshot.ensembleKeys ?? {}) ||
     settings.aiProvider !== savedSnapshot.aiProvider ||
     settings.apiKey !== savedSnapshot.apiKey;
 
@@ -258,6 +259,34 @@ export default function SettingsPage() {
             </p>
           </div>
 
+          {/* Keys of the other providers, for ensemble analysis */}
+          <div>
+            <label className="mb-1.5 block text-sm font-medium">
+              {t("ensemble_keys")}
+            </label>
+            <div className="space-y-2">
+              {AI_PROVIDERS.filter((prov) => prov.id !== settings.aiProvider).map((prov) => (
+                <div key={prov.id} className="flex items-center gap-3">
+                  <span className="w-40 shrink-0 text-sm text-muted-foreground">{prov.label}</span>
+                  <Input
+                    type={showApiKey ? "text" : "password"}
+                    value={settings.ensembleKeys?.[prov.id] ?? ""}
+                    onChange={(e) =>
+                      setSettings({
+                        ...settings,
+                        ensembleKeys: { ...settings.ensembleKeys, [prov.id]: e.target.value.trim() || undefined },
+                      })
+                    }
+                    placeholder={prov.keyHint}
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="mt-1 text-xs text-muted-foreground">
+              {t("ensemble_keys_hint")}
+            </p>
+          </div>
+
           {/* Key Format Warning (client-side instant feedback) */}
           {keyFormatWarning && (
             <div className="flex items-start gap-2 rounded-lg bg-accent/10 px-4 py-3 text-sm text-accent">
@@ -2,7 +2,7 @@
 
 import { useTranslations } from "next-intl";
 import { useLocale } from "next-intl";
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { useRouter } from "@/lib/i18n/navigation";
 import { cn } from "@/lib/utils";
 import {
@@ -19,16 +19,69 @@ import {
   GraduationCap,
   ArrowRight,
   AlertCircle,
+  Columns3,
 } from "lucide-react";
-import { parseTopicsCSV, parsePapersCSV } from "@/lib/engine/data-loader";
-import { extractTextFromPDF } from "@/lib/pdf-extract";
+import { parseTopicsCSV } from "@/lib/engine/data-loader";
+import { importPapers, isMappablePaperCSV, type PaperImportResult } from "@/lib/engine/paper-import";
+import {
+  previewCSV,
+  suggestMapping,
+  unmappedRequiredFields,
+  csvFieldSpecs,
+  TOPIC_CSV_FIELDS,
+  PAPER_CSV_FIELDS,
+  type CsvKind,
+  type CsvMapping,
+  type CsvMappingPreset,
+  type CsvPreview,
+} from "@/lib/engine/csv-mapping";
+import {
+  validateTopicsCSV,
+  validatePapersCSV,
+  crossCheckUpload,
+  buildValidationReport,
+  type UploadIssue,
+} from "@/lib/engine/upload-validation";
+import { MIN_TOPIC_MODEL_PAPERS, MIN_TOPICS, MAX_TOPICS } from "@/lib/engine/topic-model";
+import { extractTopicsInBrowser } from "@/lib/topic-model-client";
+import { buildTopicTimelines } from "@/lib/engine/momentum";
+import { classifyTopics, relabelPapers, createDefaultRarityRule } from "@/lib/engine/rarity";
+import { retainAffinityOverrides } from "@/lib/engine/affinity-overrides";
+import { allocateCourseHours } from "@/lib/engine/hours-budget";
+import { allocateTopicWeights } from "@/lib/engine/topic-allocation";
+import { chunkReport, type ReportSource } from "@/lib/engine/report-index";
+import { extractPagesFromPDF } from "@/lib/pdf-extract";
 import {
   getCurrentProject,
   saveProject,
   getSettings,
+  setActivePortfolioResult,
+  markStale,
+  clearStale,
+  listCsvMappingPresets,
+  saveCsvMappingPreset,
+  deleteCsvMappingPreset,
+  effectiveAffinityMatrix,
+  providerApiKey,
 } from "@/lib/project-manager";
 import { useProject } from "@/lib/project-context";
-import type { TopicInfo, Paper } from "@/lib/engine/portfolio-types";
+import { withOptimizerDefaults, type TopicInfo, type ProgramBudget } from "@/lib/engine/portfolio-types";
+import ProgramBudgetEditor from "@/components/courses/ProgramBudgetEditor";
+import CsvMappingPanel from "@/components/upload/CsvMappingPanel";
+import ValidationReportPanel from "@/components/upload/ValidationReportPanel";
+import EnsembleSettingsEditor from "@/components/upload/EnsembleSettingsEditor";
+import {
+  createDefaultEnsembleSettings,
+  type AnalysisEnsembleSettings,
+  type EnsembleProvider,
+} from "@/lib/engine/ensemble";
+
+const PAPER_EXTENSIONS = [".csv", ".bib", ".ris", ".txt", ".json"];
+
+interface MappingEdit {
+  file: string;
+  mapping: CsvMapping;
+}
 
 const PIPELINE_STEPS = [
   { key: "parse", icon: Table2 },
@@ -46,7 +99,17 @@ export default function UploadPage() {
   // File state
   const [pdfFiles, setPdfFiles] = useState<File[]>([]);
   const [topicsFile, setTopicsFile] = useState<File | null>(null);
-  const [papersFile, setPapersFile] = useState<File | null>(null);
+  const [papersFiles, setPapersFiles] = useState<File[]>([]);
+  const [topicsText, setTopicsText] = useState<string | null>(null);
+  const [paperTexts, setPaperTexts] = useState<Array<{ name: string; text: string }>>([]);
+  const [paperReadError, setPaperReadError] = useState<string | null>(null);
+
+  // Column mapping
+  // Mappings edited by the user, keyed by the file they were made for; otherwise suggested from the header
+  const [topicsMappingEdit, setTopicsMappingEdit] = useState<MappingEdit | null>(null);
+  const [papersMappingEdit, setPapersMappingEdit] = useState<MappingEdit | null>(null);
+  const [mappingOpen, setMappingOpen] = useState<CsvKind | null>(null);
+  const [presets, setPresets] = useState<Record<CsvKind, CsvMappingPreset[]>>({ topics: [], papers: [] });
 
   // Pipeline state
   const [pipelineStep, setPipelineStep] = useState(-1); // -1 = not started
@@ -57,6 +120,10 @@ export default function UploadPage() {
   const [configOpen, setConfigOpen] = useState(false);
   const [programInstructions, setProgramInstructions] = useState("");
   const [educationLevel, setEducationLevel] = useState<string>("bachelor");
+  const [programBudget, setProgramBudget] = useState<ProgramBudget | null>(null);
+  const [topicCount, setTopicCount] = useState<number | null>(null); // null = automatic
+  const [ensemble, setEnsemble] = useState<AnalysisEnsembleSettings>(createDefaultEnsembleSettings);
+  const [keyedProviders, setKeyedProviders] = useState<EnsembleProvider[]>([]);
 
   const pdfInputRef = useRef<HTMLInputElement>(null);
   const topicsInputRef = useRef<HTMLInputElement>(null);
@@ -71,6 +138,11 @@ export default function UploadPage() {
     }
     setProgramInstructions(project.config.programInstructions || "");
     setEducationLevel(project.config.educationLevel || "bachelor");
+    setProgramBudget(project.config.programBudget ?? null);
+    setEnsemble(project.config.analysisEnsemble ?? createDefaultEnsembleSettings());
+    const settings = getSettings();
+    setKeyedProviders((["claude", "openai", "gemini"] as const).filter((p) => providerApiKey(settings, p)));
+    setPresets({ topics: listCsvMappingPresets("topics"), papers: listCsvMappingPresets("papers") });
 
     // If pipeline was already completed, show status
     if (project.pipelineStatus === "complete") {
@@ -78,10 +150,146 @@ export default function UploadPage() {
     }
   }, [router]);
 
-  const canStart = topicsFile !== null;
+  useEffect(() => {
+    let cancelled = false;
+    setTopicsText(null);
+    topicsFile?.text().then((text) => {
+      if (!cancelled) setTopicsText(text);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [topicsFile]);
+
+  // Read paper exports as soon as they are picked, so format problems show before the pipeline runs
+  useEffect(() => {
+    let cancelled = false;
+    setPaperReadError(null);
+    Promise.all(papersFiles.map(async (f) => ({ name: f.name, text: await f.text() })))
+      .then((files) => {
+        if (!cancelled) setPaperTexts(files);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setPaperTexts([]);
+        setPaperReadError(err instanceof Error ? err.message : String(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [papersFiles]);
+
+  // One mapping serves every papers CSV without a layout of its own; the first one is previewed
+  const topicsPreview = useMemo(() => (topicsText !== null ? previewCSV(topicsText) : null), [topicsText]);
+  const mappablePapersFile = useMemo(
+    () => paperTexts.find((f) => isMappablePaperCSV(f.name, f.text)) ?? null,
+    [paperTexts]
+  );
+  const papersPreview = useMemo(
+    () => (mappablePapersFile ? previewCSV(mappablePapersFile.text) : null),
+    [mappablePapersFile]
+  );
+
+  const topicsMapping = useMemo<CsvMapping>(
+    () =>
+      topicsMappingEdit && topicsMappingEdit.file === topicsFile?.name
+        ? topicsMappingEdit.mapping
+        : suggestMapping(topicsPreview?.columns ?? [], TOPIC_CSV_FIELDS),
+    [topicsMappingEdit, topicsFile, topicsPreview]
+  );
+  const papersMapping = useMemo<CsvMapping>(
+    () =>
+      papersMappingEdit && papersMappingEdit.file === mappablePapersFile?.name
+        ? papersMappingEdit.mapping
+        : suggestMapping(papersPreview?.columns ?? [], PAPER_CSV_FIELDS),
+    [papersMappingEdit, mappablePapersFile, papersPreview]
+  );
+
+  const { paperImport, paperImportError } = useMemo((): {
+    paperImport: PaperImportResult | null;
+    paperImportError: string | null;
+  } => {
+    if (paperReadError) return { paperImport: null, paperImportError: paperReadError };
+    if (paperTexts.length === 0) return { paperImport: null, paperImportError: null };
+    try {
+      return { paperImport: importPapers(paperTexts, papersMapping), paperImportError: null };
+    } catch (err) {
+      return { paperImport: null, paperImportError: err instanceof Error ? err.message : String(err) };
+    }
+  }, [paperTexts, papersMapping, paperReadError]);
+
+  // Validation report: bad rows, duplicate IDs, unassigned papers, unknown topics and count mismatches
+  const validation = useMemo(() => {
+    if (topicsText === null && paperTexts.length === 0) return null;
+    const issues: UploadIssue[] = [];
+    let topics: TopicInfo[] | null = null;
+    if (topicsFile && topicsText !== null) {
+      const topicIssues = validateTopicsCSV(topicsFile.name, topicsText, topicsMapping);
+      issues.push(...topicIssues);
+      if (!topicIssues.some((i) => i.code === "unmapped_column")) {
+        topics = parseTopicsCSV(topicsText, topicsMapping);
+      }
+    }
+    for (const file of paperTexts) {
+      if (isMappablePaperCSV(file.name, file.text)) {
+        issues.push(...validatePapersCSV(file.name, file.text, papersMapping));
+      }
+    }
+    if (paperImport) {
+      const papersLabel = paperTexts.map((f) => f.name).join(", ");
+      issues.push(...crossCheckUpload(topicsFile?.name ?? null, topics, papersLabel, paperImport.papers));
+    }
+    return buildValidationReport(issues);
+  }, [topicsFile, topicsText, topicsMapping, paperTexts, papersMapping, paperImport]);
+
+  const handleSavePreset = (kind: CsvKind, name: string) => {
+    saveCsvMappingPreset(kind, name, kind === "topics" ? topicsMapping : papersMapping);
+    setPresets((prev) => ({ ...prev, [kind]: listCsvMappingPresets(kind) }));
+  };
+
+  const handleDeletePreset = (kind: CsvKind, id: string) => {
+    deleteCsvMappingPreset(id);
+    setPresets((prev) => ({ ...prev, [kind]: listCsvMappingPresets(kind) }));
+  };
+
+  /** Mapping step for one upload; opens by itself while a required field is unmapped. */
+  const renderMapping = (kind: CsvKind, fileName: string, preview: CsvPreview) => {
+    const mapping = kind === "topics" ? topicsMapping : papersMapping;
+    const incomplete = unmappedRequiredFields(mapping, csvFieldSpecs(kind), preview.columns).length > 0;
+    return (
+      <div className="mt-2 space-y-2">
+        <button
+          onClick={() => setMappingOpen(mappingOpen === kind ? null : kind)}
+          className="flex items-center gap-1.5 text-xs font-medium text-primary hover:underline"
+        >
+          <Columns3 className="h-3.5 w-3.5" />
+          {t("mapping.toggle")}
+        </button>
+        {(mappingOpen === kind || incomplete) && (
+          <CsvMappingPanel
+            kind={kind}
+            fileName={fileName}
+            preview={preview}
+            mapping={mapping}
+            presets={presets[kind]}
+            onChange={(next) =>
+              (kind === "topics" ? setTopicsMappingEdit : setPapersMappingEdit)({ file: fileName, mapping: next })
+            }
+            onSavePreset={(name) => handleSavePreset(kind, name)}
+            onDeletePreset={(id) => handleDeletePreset(kind, id)}
+          />
+        )}
+      </div>
+    );
+  };
+
+  // Without a BERTopic topics CSV, topics are modelled from the uploaded papers
+  const canModelTopics = (paperImport?.papers.length ?? 0) >= MIN_TOPIC_MODEL_PAPERS;
+  const canStart =
+    (topicsFile !== null || canModelTopics) && !paperImportError && (validation?.errors ?? 0) === 0;
 
   const runPipeline = useCallback(async () => {
-    if (!topicsFile) return;
+    if (!canStart) return;
 
     setRunning(true);
     setPipelineError(null);
@@ -102,39 +310,53 @@ export default function UploadPage() {
       project.pipelineStep = 0;
       project.config.programInstructions = programInstructions;
       project.config.educationLevel = educationLevel as "high_school" | "bachelor" | "master" | "phd";
+      project.config.programBudget = programBudget ?? undefined;
+      // Providers without a key are left out of the rotation
+      const ensembleSettings: AnalysisEnsembleSettings = {
+        ...ensemble,
+        providers: ensemble.providers.filter((p) => providerApiKey(settings, p)),
+      };
+      project.config.analysisEnsemble = ensembleSettings.runs > 1 ? ensembleSettings : undefined;
       saveProject(project);
 
-      // Parse Topics CSV
-      const topicsText = await topicsFile.text();
-      const topics: TopicInfo[] = parseTopicsCSV(topicsText);
-
-      if (topics.length === 0) {
-        throw new Error("No topics found in CSV. Check the file format.");
+      // Papers from any supported export, de-duplicated by DOI (optional)
+      let papers = paperImport?.papers ?? [];
+
+      let topics: TopicInfo[];
+      if (topicsFile) {
+        topics = parseTopicsCSV(topicsText ?? (await topicsFile.text()), topicsMapping);
+        if (topics.length === 0) {
+          throw new Error("No topics found in CSV. Check the file format.");
+        }
+      } else {
+        // No BERTopic run: extract topics from titles and abstracts in a worker
+        const modelled = await extractTopicsInBrowser(papers, { numTopics: topicCount ?? undefined });
+        topics = modelled.topics;
+        papers = modelled.papers;
       }
 
-      // Parse Papers CSV (optional)
-      let papers: Paper[] = [];
-      if (papersFile) {
-        const papersText = await papersFile.text();
-        papers = parsePapersCSV(papersText);
-      }
+      // Label rarity with the project's rule; overrides name topics of the previous upload
+      project.config.rarityOverrides = undefined;
+      topics = classifyTopics(topics, project.config.rarityRule ?? createDefaultRarityRule());
+      papers = relabelPapers(papers, topics);
+      // Hand-set scores carry over only to a topic with the same number and the same name or keywords
+      const affinityOverrides = retainAffinityOverrides(project.config.affinityOverrides ?? [], topics);
+      project.config.affinityOverrides = affinityOverrides.length > 0 ? affinityOverrides : undefined;
 
-      // Extract PDF texts
-      const reportTexts: string[] = [];
+      // Extract PDF texts as page-numbered passages for retrieval
+      const reports: ReportSource[] = [];
       for (const pdf of pdfFiles) {
-        const text = await extractTextFromPDF(pdf);
-        reportTexts.push(text);
+        reports.push({ name: pdf.name, chunks: chunkReport(pdf.name, await extractPagesFromPDF(pdf)) });
       }
 
-      // Save source data
+      // Save source data; undo snapshots and pending re-scores belong to the old topic model
       project.sourceData = {
-        reports: pdfFiles.map((f, i) => ({
-          name: f.name,
-          textContent: reportTexts[i] || "",
-        })),
+        reports,
         topics,
         papers,
       };
+      project.topicEditHistory = undefined;
+      project.pendingRescore = undefined;
       saveProject(project);
 
       // Step 1: AI Analysis
@@ -147,11 +369,27 @@ export default function UploadPage() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           topics,
-          reportTexts,
+          reports,
           language: locale,
           aiProvider: settings.aiProvider || "claude",
           apiKey: settings.apiKey || undefined,
           modelId: settings.verifiedModel || undefined,
+          ensemble:
+            ensembleSettings.runs > 1
+              ? {
+                  runs: ensembleSettings.runs,
+                  aggregation: ensembleSettings.aggregation,
+                  // Runs rotate through these
+                  members: (ensembleSettings.providers.length > 0
+                    ? ensembleSettings.providers
+                    : [settings.aiProvider || "claude"]
+                  ).map((p) => ({
+                    aiProvider: p,
+                    apiKey: providerApiKey(settings, p),
+                    modelId: p === settings.aiProvider ? settings.verifiedModel || undefined : undefined,
+                  })),
+                }
+              : undefined,
         }),
       });
 
@@ -162,8 +400,12 @@ export default function UploadPage() {
 
       const analysis = await analyzeRes.json();
       project.analysis = analysis;
+      // Saved portfolios were optimized on the previous analysis; the active one is re-optimized below
+      Object.assign(project, markStale(project, ["portfolio"]));
       project.name = analysis.programTitle || analysis.sectorName || project.name;
       saveProject(project);
+      // Hand-set scores kept above still apply
+      const affinityMatrix = effectiveAffinityMatrix(project);
 
       // Step 2: Portfolio Optimization
       setPipelineStep(2);
@@ -176,8 +418,21 @@ export default function UploadPage() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           topics,
-          affinityMatrix: analysis.affinityMatrix,
+          affinityMatrix,
           riskTolerance: 0.5,
+          constraints: project.config.portfolioConstraints,
+          expertViews: project.config.expertViews,
+          resampling: project.config.optimizerSettings?.resampling,
+          cardinality: project.config.optimizerSettings?.cardinality,
+          strategy: project.config.optimizerSettings?.strategy,
+          returnModel: project.config.optimizerSettings?.returnModel,
+          riskFreeRate: project.config.optimizerSettings?.riskFreeRate,
+          riskMeasure: project.config.optimizerSettings?.riskMeasure,
+          cvarConfidence: project.config.optimizerSettings?.cvarConfidence,
+          returnTrend: project.config.optimizerSettings?.returnTrend,
+          momentum: project.config.optimizerSettings?.momentum,
+          covarianceEstimator: project.config.optimizerSettings?.covarianceEstimator,
+          topicTimelines: buildTopicTimelines(papers),
         }),
       });
 
@@ -200,8 +455,15 @@ export default function UploadPage() {
       const sel = optData.selected_portfolio || optData.frontier?.[0] || {};
       const weights = sel.weights || [];
       const hhi = weights.reduce((sum: number, w: number) => sum + w * w, 0);
+      const topicAllocation = allocateTopicWeights(
+        weights,
+        topics,
+        affinityMatrix,
+        withOptimizerDefaults(project.config.optimizerSettings).topicRarityTilt
+      );
 
-      project.portfolioResult = {
+      // The pipeline holds on to `project`, so take the updated portfolio list in place
+      Object.assign(project, setActivePortfolioResult(project, {
         frontier,
         selectedPortfolio: {
           weights,
@@ -211,7 +473,31 @@ export default function UploadPage() {
           diversificationScore: 1 - hhi,
         },
         riskTolerance: 0.5,
-      };
+        priorReturns: optData.prior_returns,
+        expectedReturns: optData.expected_returns,
+        weightIntervals: optData.resampling?.weight_intervals,
+        strategy: optData.strategy,
+        topicAllocation,
+        covariance: optData.covariance,
+        parameters: optData.parameters && {
+          returnModel: optData.parameters.return_model,
+          riskFreeRate: optData.parameters.risk_free_rate,
+          riskMeasure: optData.risk_measure?.kind,
+          cvarConfidence: optData.risk_measure?.confidence,
+          returnTrend: optData.parameters.return_trend,
+          momentum: optData.parameters.momentum && {
+            windowYears: optData.parameters.momentum.window_years,
+            strength: optData.parameters.momentum.strength,
+          },
+          cardinality: optData.cardinality?.enabled
+            ? {
+                maxAssets: optData.cardinality.max_assets,
+                minPosition: optData.cardinality.min_position,
+              }
+            : undefined,
+        },
+      }));
+      Object.assign(project, clearStale(project, "portfolio"));
       saveProject(project);
 
       // Step 3: Course Generation
@@ -220,6 +506,15 @@ export default function UploadPage() {
       project.pipelineStep = 3;
       saveProject(project);
 
+      let hourTargets: number[] | undefined;
+      if (programBudget) {
+        const allocated = allocateCourseHours(weights, programBudget);
+        if (!allocated) {
+          throw new Error("The program budget cannot give every course its minimum hours.");
+        }
+        hourTargets = allocated;
+      }
+
       const generateRes = await fetch("/api/generate", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -227,7 +522,8 @@ export default function UploadPage() {
           weights,
           topics,
           papers,
-          affinityMatrix: analysis.affinityMatrix,
+          reports,
+          affinityMatrix,
           sectorName: analysis.sectorName,
           sectorDescription: analysis.sectorDescription,
           programTitle: analysis.programTitle,
@@ -238,6 +534,8 @@ export default function UploadPage() {
           aiProvider: settings.aiProvider || "claude",
           apiKey: settings.apiKey || undefined,
           modelId: settings.verifiedModel || undefined,
+          hourTargets,
+          topicAllocation,
         }),
       });
 
@@ -248,6 +546,7 @@ export default function UploadPage() {
 
       const genData = await generateRes.json();
       project.courses = genData.courses;
+      project.staleResults = undefined;
       project.pipelineStatus = "complete";
       project.pipelineStep = 4;
       project.pipelineError = null;
@@ -268,7 +567,7 @@ export default function UploadPage() {
       refreshCurrentProject();
       setRunning(false);
     }
-  }, [topicsFile, papersFile, pdfFiles, programInstructions, educationLevel, locale, router]);
+  }, [canStart, topicsFile, topicsText, topicsMapping, paperImport, topicCount, pdfFiles, programInstructions, educationLevel, programBudget, ensemble, locale, router]);
 
   const handlePdfDrop = (e: React.DragEvent) => {
     e.preventDefault();
@@ -289,6 +588,14 @@ export default function UploadPage() {
     if (file) setter(file);
   };
 
+  const handlePapersDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const files = Array.from(e.dataTransfer.files).filter((f) =>
+      PAPER_EXTENSIONS.some((ext) => f.name.toLowerCase().endsWith(ext))
+    );
+    if (files.length > 0) setPapersFiles((prev) => [...prev, ...files]);
+  };
+
   const pipelineComplete = pipelineStep === 4;
 
   return (
@@ -346,8 +653,13 @@ export default function UploadPage() {
         <div>
           <label className="mb-2 block text-sm font-semibold">
             {t("topics_label")}
-            <span className="ml-2 text-xs font-normal text-destructive">
-              ({t("required")})
+            <span
+              className={cn(
+                "ml-2 text-xs font-normal",
+                canModelTopics ? "text-muted-foreground" : "text-destructive"
+              )}
+            >
+              ({canModelTopics ? t("optional") : t("required_without_papers")})
             </span>
           </label>
           <div
@@ -383,9 +695,10 @@ export default function UploadPage() {
               if (file) setTopicsFile(file);
             }}
           />
+          {topicsFile && topicsPreview && renderMapping("topics", topicsFile.name, topicsPreview)}
         </div>
 
-        {/* Papers CSV Dropzone */}
+        {/* Papers Dropzone */}
         <div>
           <label className="mb-2 block text-sm font-semibold">
             {t("papers_label")}
@@ -395,37 +708,68 @@ export default function UploadPage() {
           </label>
           <div
             onDragOver={(e) => e.preventDefault()}
-            onDrop={(e) => handleCsvDrop(e, setPapersFile)}
+            onDrop={handlePapersDrop}
             onClick={() => papersInputRef.current?.click()}
             className={cn(
               "flex min-h-[80px] cursor-pointer flex-col items-center justify-center rounded-xl border-2 border-dashed bg-card p-6 transition-colors hover:bg-muted/30",
-              papersFile
-                ? "border-success/50"
-                : "border-border hover:border-primary/50"
+              paperImportError
+                ? "border-destructive/50"
+                : papersFiles.length > 0
+                  ? "border-success/50"
+                  : "border-border hover:border-primary/50"
             )}
           >
             <Table2 className="mb-2 h-7 w-7 text-muted-foreground" />
-            {papersFile ? (
-              <span className="flex items-center gap-2 text-sm font-medium text-success">
-                <CheckCircle2 className="h-4 w-4" />
-                {papersFile.name}
-              </span>
+            {papersFiles.length > 0 ? (
+              <div className="flex flex-wrap justify-center gap-2">
+                {papersFiles.map((f, i) => (
+                  <span
+                    key={i}
+                    className="flex items-center gap-1 rounded-md bg-success/10 px-2 py-1 text-xs font-medium text-success"
+                  >
+                    <CheckCircle2 className="h-3 w-3" />
+                    {f.name}
+                  </span>
+                ))}
+              </div>
             ) : (
               <p className="text-sm text-muted-foreground">
                 {t("papers_hint")}
               </p>
             )}
           </div>
+          {paperImportError && (
+            <p className="mt-2 flex items-center gap-1.5 text-xs text-destructive">
+              <AlertCircle className="h-3.5 w-3.5" />
+              {paperImportError}
+            </p>
+          )}
+          {paperImport && (
+            <p className="mt-2 text-xs text-muted-foreground">
+              {t("papers_summary", {
+                papers: paperImport.papers.length,
+                duplicates: paperImport.duplicates,
+              })}
+              {paperImport.unassigned > 0 &&
+                !topicsFile &&
+                ` ${t("papers_unassigned", { count: paperImport.unassigned })}`}
+            </p>
+          )}
           <input
             ref={papersInputRef}
             type="file"
-            accept=".csv"
+            accept={PAPER_EXTENSIONS.join(",")}
+            multiple
             className="hidden"
             onChange={(e) => {
-              const file = e.target.files?.[0];
-              if (file) setPapersFile(file);
+              const files = Array.from(e.target.files || []);
+              if (files.length > 0) setPapersFiles((prev) => [...prev, ...files]);
+              e.target.value = "";
             }}
           />
+          {mappablePapersFile &&
+            papersPreview &&
+            renderMapping("papers", mappablePapersFile.name, papersPreview)}
         </div>
 
         {/* Optional Configuration */}
@@ -478,10 +822,53 @@ export default function UploadPage() {
                   )}
                 </div>
               </div>
+              <div>
+                <label className="mb-1.5 block text-sm font-medium">
+                  {t("budget_label")}
+                </label>
+                <ProgramBudgetEditor
+                  budget={programBudget}
+                  onChange={setProgramBudget}
+                  locale={locale}
+                />
+              </div>
+              <div>
+                <label className="mb-1.5 block text-sm font-medium">
+                  {t("topic_count_label")}
+                </label>
+                <input
+                  type="number"
+                  min={MIN_TOPICS}
+                  max={MAX_TOPICS}
+                  value={topicCount ?? ""}
+                  placeholder={t("topic_count_auto")}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value, 10);
+                    setTopicCount(
+                      Number.isFinite(value) ? Math.max(MIN_TOPICS, Math.min(MAX_TOPICS, value)) : null
+                    );
+                  }}
+                  className="w-32 rounded-lg border border-border bg-background px-4 py-2 text-sm outline-none focus:border-primary focus:ring-1 focus:ring-primary"
+                />
+                <p className="mt-1 text-xs text-muted-foreground">{t("topic_count_hint")}</p>
+              </div>
+              <div>
+                <label className="mb-1.5 block text-sm font-medium">
+                  {t("ensemble.label")}
+                </label>
+                <EnsembleSettingsEditor
+                  settings={ensemble}
+                  availableProviders={keyedProviders}
+                  onChange={setEnsemble}
+                />
+              </div>
             </div>
           )}
         </div>
 
+        {/* Validation Report */}
+        {validation && !running && <ValidationReportPanel report={validation} />}
+
         {/* Pipeline Progress */}
         {pipelineStep >= 0 && (
           <div className="rounded-xl border border-border bg-card p-6">
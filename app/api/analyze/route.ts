@@ -1,26 +1,61 @@
 import { NextResponse } from "next/server";
 import { createAIProvider, type AIProviderType } from "@/lib/ai/providers";
 import { buildAnalysisPrompt } from "@/lib/ai/prompts";
-import type { TopicInfo, AnalysisResult } from "@/lib/engine/portfolio-types";
-import { TRAINING_DIRECTIONS } from "@/lib/engine/portfolio-types";
+import {
+  TRAINING_DIRECTIONS,
+  type TopicInfo,
+  type AnalysisResult,
+  type AffinityRationale,
+} from "@/lib/engine/portfolio-types";
+import { parseAffinityRows, parseAffinityRationale } from "@/lib/engine/skill-mapper";
+import {
+  AFFINITY_AGGREGATIONS,
+  MAX_ENSEMBLE_RUNS,
+  MIN_ENSEMBLE_RUNS,
+  aggregateAffinityRuns,
+  type AffinityAggregation,
+  type EnsembleProvider,
+} from "@/lib/engine/ensemble";
+import {
+  buildReportIndex,
+  reportChunks,
+  selectAnalysisPassages,
+  type ReportSource,
+} from "@/lib/engine/report-index";
 
+interface EnsembleMember {
+  aiProvider: EnsembleProvider;
+  apiKey: string;
+  modelId?: string;
+}
+
+/**
+ * Sector analysis. With `ensemble`, the prompt is run `runs` times in
+ * parallel, rotating through `members`, and each affinity cell is
+ * aggregated across the runs; the sector and program texts come from the
+ * first run that answered.
+ */
 export async function POST(request: Request) {
   try {
     const body = await request.json();
     const {
       topics,
+      reports = [],
       reportTexts = [],
       language = "en",
       aiProvider = "claude",
       apiKey,
       modelId,
+      ensemble,
     } = body as {
       topics: TopicInfo[];
-      reportTexts: string[];
+      reports: ReportSource[];
+      reportTexts: string[]; // plain texts from callers without page information
       language: "en" | "el";
       aiProvider: string;
       apiKey?: string;
       modelId?: string;
+      ensemble?: { runs: number; aggregation: AffinityAggregation; members: EnsembleMember[] };
     };
 
     if (!topics || !Array.isArray(topics) || topics.length === 0) {
@@ -37,56 +72,123 @@ export async function POST(request: Request) {
       );
     }
 
-    const provider = createAIProvider(aiProvider as AIProviderType, apiKey, modelId);
+    if (
+      ensemble &&
+      (!Number.isInteger(ensemble.runs) ||
+        ensemble.runs < MIN_ENSEMBLE_RUNS ||
+        ensemble.runs > MAX_ENSEMBLE_RUNS ||
+        !AFFINITY_AGGREGATIONS.includes(ensemble.aggregation) ||
+        !Array.isArray(ensemble.members) ||
+        ensemble.members.some((m) => !m.apiKey))
+    ) {
+      return NextResponse.json(
+        {
+          error: `ensemble needs ${MIN_ENSEMBLE_RUNS}–${MAX_ENSEMBLE_RUNS} runs, a known aggregation and an API key for every provider`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const members: EnsembleMember[] =
+      ensemble && ensemble.members.length > 0
+        ? ensemble.members
+        : [{ aiProvider: aiProvider as EnsembleProvider, apiKey, modelId }];
+    const runs = ensemble?.runs ?? 1;
+    const runMembers = Array.from({ length: runs }, (_, i) => members[i % members.length]);
+
+    // Retrieve the report passages that match each topic and direction
+    const reportIndex = buildReportIndex(
+      reportChunks([
+        ...reports,
+        ...reportTexts.map((textContent, i) => ({ name: `Report ${i + 1}`, textContent })),
+      ])
+    );
 
     // Build analysis prompt
     const { systemPrompt, userPrompt } = buildAnalysisPrompt(
       topics,
-      reportTexts,
+      selectAnalysisPassages(reportIndex, topics),
       language
     );
 
-    // Generate with AI
-    const rawResponse = await provider.generate({
-      systemPrompt,
-      userPrompt,
-      temperature: 0.3,
-      maxTokens: 8192,
-    });
+    // Generate with AI, one request per run
+    const settled = await Promise.allSettled(
+      runMembers.map(async (member) => {
+        const provider = createAIProvider(member.aiProvider as AIProviderType, member.apiKey, member.modelId);
+        const rawResponse = await provider.generate({
+          systemPrompt,
+          userPrompt,
+          temperature: 0.3,
+          maxTokens: 16384, // room for a justification per cell
+        });
 
-    // Parse JSON response
-    let jsonStr = rawResponse.trim();
-    if (jsonStr.startsWith("```")) {
-      jsonStr = jsonStr.replace(/^```(?:json)?\n?/, "").replace(/\n?```$/, "");
+        // Parse JSON response
+        let jsonStr = rawResponse.trim();
+        if (jsonStr.startsWith("```")) {
+          jsonStr = jsonStr.replace(/^```(?:json)?\n?/, "").replace(/\n?```$/, "");
+        }
+        return JSON.parse(jsonStr) as AnalysisResult;
+      })
+    );
+    const answers = settled.flatMap((s) => (s.status === "fulfilled" ? [s.value] : []));
+    if (answers.length === 0) {
+      throw (settled[0] as PromiseRejectedResult).reason;
     }
+    const analysisData = answers[0];
 
-    const analysisData = JSON.parse(jsonStr) as AnalysisResult;
-
-    // Validate and clamp affinity matrix
-    const numDirections = TRAINING_DIRECTIONS.length;
-    const activeTopics = topics.filter((t) => t.topicNumber !== -1);
-    const validatedMatrix: Record<number, number[]> = {};
+    // Validate, clamp and aggregate the affinity matrices
+    const scoredTopics = topics.filter((t) => t.topicNumber !== -1);
+    const topicNumbers = scoredTopics.map((t) => t.topicNumber);
+    const runRows = answers.map((answer) => parseAffinityRows(answer.affinityMatrix, topicNumbers));
+    const { affinityMatrix: validatedMatrix, affinityVariance, unscored } = aggregateAffinityRuns(
+      runRows,
+      topicNumbers,
+      TRAINING_DIRECTIONS.length,
+      ensemble?.aggregation ?? "mean"
+    );
 
-    for (const topic of activeTopics) {
-      const row = analysisData.affinityMatrix[topic.topicNumber];
-      if (Array.isArray(row) && row.length === numDirections) {
-        validatedMatrix[topic.topicNumber] = row.map((v) =>
-          Math.max(0, Math.min(1, Number(v) || 0))
-        );
-      } else {
-        // Fallback: uniform 0.5
-        validatedMatrix[topic.topicNumber] = new Array(numDirections).fill(0.5);
-      }
-    }
+    // Each cell's rationale from the run whose score is closest to the
+    // aggregate, so the text argues for (nearly) the score that is stored
+    const rationales = answers.map((answer) => parseAffinityRationale(answer.affinityRationale, scoredTopics));
+    const affinityRationale = Object.fromEntries(
+      topicNumbers.map((n) => [
+        n,
+        TRAINING_DIRECTIONS.map((_, d) => {
+          let best: AffinityRationale | null = null;
+          let bestGap = Infinity;
+          for (let i = 0; i < rationales.length; i++) {
+            const score = runRows[i][n]?.[d];
+            if (!rationales[i][n][d] || score === undefined) continue;
+            const gap = Math.abs(score - validatedMatrix[n][d]);
+            if (gap < bestGap) {
+              best = rationales[i][n][d];
+              bestGap = gap;
+            }
+          }
+          return best;
+        }),
+      ])
+    );
 
     const result: AnalysisResult = {
       sectorName: analysisData.sectorName || "Unknown Sector",
       sectorDescription: analysisData.sectorDescription || "",
       affinityMatrix: validatedMatrix,
+      affinityRationale,
       programTitle: analysisData.programTitle || "",
       programDescription: analysisData.programDescription || "",
       targetAudience: analysisData.targetAudience || "",
       educationLevel: analysisData.educationLevel || "bachelor",
+      ...(unscored.length > 0 && { unscoredTopics: unscored }),
+      ...(runs > 1 && {
+        affinityVariance,
+        ensemble: {
+          runs,
+          succeeded: answers.length,
+          aggregation: ensemble!.aggregation,
+          providers: [...new Set(runMembers.map((m) => m.aiProvider))],
+        },
+      }),
     };
 
     return NextResponse.json(result);
@@ -2,8 +2,21 @@ import { NextResponse } from "next/server";
 import { createAIProvider, type AIProviderType } from "@/lib/ai/providers";
 import { buildSystemPrompt, buildCourseOverviewPrompt } from "@/lib/ai/prompts";
 import { getRelevantPapers } from "@/lib/engine/skill-mapper";
-import { TRAINING_DIRECTIONS, CourseOutlineSchema } from "@/lib/engine/portfolio-types";
+import {
+  TRAINING_DIRECTIONS,
+  CourseOutlineSchema,
+  MIN_COURSE_WEIGHT,
+  createDefaultOptimizerSettings,
+  portfolioTopics,
+} from "@/lib/engine/portfolio-types";
 import type { TopicInfo, Paper } from "@/lib/engine/portfolio-types";
+import { allocateTopicWeights, type TopicAllocationEntry } from "@/lib/engine/topic-allocation";
+import {
+  buildReportIndex,
+  reportChunks,
+  selectCoursePassages,
+  type ReportSource,
+} from "@/lib/engine/report-index";
 import { getSupervisorsForDirections } from "@/lib/db/queries";
 
 export async function POST(request: Request) {
@@ -13,6 +26,7 @@ export async function POST(request: Request) {
       weights,
       topics,
       papers,
+      reports = [],
       affinityMatrix,
       sectorName = "",
       sectorDescription = "",
@@ -25,10 +39,13 @@ export async function POST(request: Request) {
       apiKey,
       modelId,
       directionIndex,
+      hourTargets,
+      topicAllocation: topicAllocationInput,
     } = body as {
       weights: number[];
       topics: TopicInfo[];
       papers: Paper[];
+      reports?: ReportSource[];
       affinityMatrix: Record<number, number[]>;
       sectorName: string;
       sectorDescription: string;
@@ -41,6 +58,8 @@ export async function POST(request: Request) {
       apiKey?: string;
       modelId?: string;
       directionIndex?: number;
+      hourTargets?: number[]; // per direction, from allocateCourseHours; 0 = no course
+      topicAllocation?: TopicAllocationEntry[][]; // per direction, from allocateTopicWeights
     };
 
     if (!apiKey) {
@@ -59,6 +78,48 @@ export async function POST(request: Request) {
       );
     }
 
+    if (
+      hourTargets !== undefined &&
+      (!Array.isArray(hourTargets) ||
+        hourTargets.length !== TRAINING_DIRECTIONS.length ||
+        hourTargets.some((h) => typeof h !== "number" || !Number.isFinite(h) || h < 0))
+    ) {
+      return NextResponse.json(
+        { error: `hourTargets must hold ${TRAINING_DIRECTIONS.length} non-negative hour counts` },
+        { status: 400 }
+      );
+    }
+
+    if (
+      topicAllocationInput !== undefined &&
+      (!Array.isArray(topicAllocationInput) ||
+        topicAllocationInput.length !== TRAINING_DIRECTIONS.length ||
+        !topicAllocationInput.every(Array.isArray))
+    ) {
+      return NextResponse.json(
+        { error: `topicAllocation must hold one topic list per direction (${TRAINING_DIRECTIONS.length})` },
+        { status: 400 }
+      );
+    }
+    // Topics excluded by a topic edit stay out of the courses, and so do their papers
+    const courseTopics = portfolioTopics(topics);
+    const excludedTopics = new Set(topics.filter((t) => t.excluded).map((t) => t.topicNumber));
+    const coursePapers = papers.filter((p) => !excludedTopics.has(p.topicNumber));
+
+    // Headless callers without a stored allocation get the default rarity tilt
+    const topicAllocation =
+      topicAllocationInput ??
+      (weights
+        ? allocateTopicWeights(
+            weights,
+            topics,
+            affinityMatrix,
+            createDefaultOptimizerSettings().topicRarityTilt
+          )
+        : undefined);
+
+    const reportIndex = buildReportIndex(reportChunks(reports));
+
     // Build system prompt
     const systemPrompt = buildSystemPrompt(
       sectorName,
@@ -81,24 +142,37 @@ export async function POST(request: Request) {
       const direction = TRAINING_DIRECTIONS[dIdx];
       const weight = weights?.[dIdx] ?? 1 / TRAINING_DIRECTIONS.length;
 
-      // Skip directions with very low weight
-      if (weight < 0.03) continue;
+      const targetHours = hourTargets?.[dIdx];
+
+      // Skip directions with very low weight, or no hours in the budget
+      if (weight < MIN_COURSE_WEIGHT || targetHours === 0) continue;
 
       // Get relevant papers for this direction
       const relevantPapers = getRelevantPapers(
-        papers,
+        coursePapers,
         dIdx,
         affinityMatrix,
         10
       );
 
+      // Report passages on this direction and the topics the course teaches
+      const allocated = new Set(topicAllocation?.[dIdx]?.map((entry) => entry.topicNumber));
+      const reportPassages = selectCoursePassages(
+        reportIndex,
+        dIdx,
+        courseTopics.filter((t) => allocated.has(t.topicNumber))
+      );
+
       // Build course overview prompt
       const userPrompt = buildCourseOverviewPrompt(
         dIdx,
         weight,
-        topics,
+        courseTopics,
         relevantPapers,
-        sectorDescription
+        sectorDescription,
+        targetHours,
+        topicAllocation?.[dIdx],
+        reportPassages
       );
 
       // Generate with AI
@@ -119,7 +193,7 @@ export async function POST(request: Request) {
 
         const courseData = JSON.parse(jsonStr);
         const validated = CourseOutlineSchema.parse(courseData);
-        courses.push(validated);
+        courses.push({ ...validated, targetHours });
       } catch (parseError) {
         console.error(
           `Failed to parse course for direction ${direction.name}:`,
@@ -130,7 +204,8 @@ export async function POST(request: Request) {
           title: `${direction.name} - Course`,
           overview: `E-learning course for ${direction.name}. Content generation encountered a parsing issue. Please try regenerating.`,
           trainingDirection: direction.key,
-          totalHours: 30,
+          totalHours: targetHours ?? 30,
+          targetHours,
           modules: Array.from({ length: 4 }, (_, m) => ({
             moduleNumber: m + 1,
             title: `Module ${m + 1}`,
@@ -143,7 +218,7 @@ export async function POST(request: Request) {
               learningObjectives: [],
               skillTags: [],
               paperReferences: [],
-              estimatedMinutes: 90,
+              estimatedMinutes: targetHours ? Math.round((targetHours * 60) / 12) : 90,
             })),
           })),
         });
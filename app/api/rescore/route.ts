@@ -0,0 +1,104 @@
+import { NextResponse } from "next/server";
+import { createAIProvider, type AIProviderType } from "@/lib/ai/providers";
+import { buildAffinityRescorePrompt } from "@/lib/ai/prompts";
+import type { TopicInfo } from "@/lib/engine/portfolio-types";
+import { parseAffinityRows, parseAffinityRationale } from "@/lib/engine/skill-mapper";
+
+/**
+ * Affinity rows for the topics a topic edit changed, scored in the
+ * context of the existing analysis. Answers `{ affinityMatrix,
+ * affinityRationale, unscoredTopics }`: rows for the requested topics the
+ * model scored, and the ones whose row was missing or malformed.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const {
+      topics,
+      topicNumbers,
+      sectorName = "",
+      sectorDescription = "",
+      language = "en",
+      aiProvider = "claude",
+      apiKey,
+      modelId,
+    } = body as {
+      topics: TopicInfo[];
+      topicNumbers: number[];
+      sectorName?: string;
+      sectorDescription?: string;
+      language?: "en" | "el";
+      aiProvider: string;
+      apiKey?: string;
+      modelId?: string;
+    };
+
+    if (!topics || !Array.isArray(topics) || topics.length === 0) {
+      return NextResponse.json(
+        { error: "Topics data is required" },
+        { status: 400 }
+      );
+    }
+
+    const known = new Set(topics.map((t) => t.topicNumber));
+    if (
+      !Array.isArray(topicNumbers) ||
+      topicNumbers.length === 0 ||
+      topicNumbers.some((n) => n === -1 || !known.has(n))
+    ) {
+      return NextResponse.json(
+        { error: "topicNumbers must list topics present in topics" },
+        { status: 400 }
+      );
+    }
+
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: "API key is required. Please provide your API key in Settings." },
+        { status: 400 }
+      );
+    }
+
+    const provider = createAIProvider(aiProvider as AIProviderType, apiKey, modelId);
+    const { systemPrompt, userPrompt } = buildAffinityRescorePrompt(
+      topics,
+      topicNumbers,
+      sectorName,
+      sectorDescription,
+      language
+    );
+
+    const rawResponse = await provider.generate({
+      systemPrompt,
+      userPrompt,
+      temperature: 0.3,
+      maxTokens: 4096,
+    });
+
+    let jsonStr = rawResponse.trim();
+    if (jsonStr.startsWith("```")) {
+      jsonStr = jsonStr.replace(/^```(?:json)?\n?/, "").replace(/\n?```$/, "");
+    }
+    const parsed = JSON.parse(jsonStr) as { affinityMatrix?: unknown; affinityRationale?: unknown };
+
+    // Unusable rows are reported, not filled in; those topics stay pending
+    const rows = parseAffinityRows(parsed.affinityMatrix, topicNumbers);
+    const scored = topicNumbers.filter((n) => rows[n]);
+
+    return NextResponse.json({
+      affinityMatrix: Object.fromEntries(scored.map((n) => [n, rows[n]])),
+      affinityRationale: parseAffinityRationale(
+        parsed.affinityRationale,
+        topics.filter((t) => scored.includes(t.topicNumber))
+      ),
+      unscoredTopics: topicNumbers.filter((n) => !rows[n]),
+    });
+  } catch (error) {
+    console.error("Rescore error:", error);
+    const message = error instanceof Error ? error.message : "Affinity re-scoring failed";
+    return NextResponse.json(
+      { error: message },
+      { status: 500 }
+    );
+  }
+}
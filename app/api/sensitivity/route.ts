@@ -0,0 +1,129 @@
+import { NextResponse } from "next/server";
+import { TRAINING_DIRECTIONS } from "@/lib/engine/portfolio-types";
+import { estimateMarketInputs } from "@/lib/engine/market-inputs";
+import { toOptimizerConstraints } from "@/lib/engine/constraints";
+import { computeEfficientFrontier, selectByRiskTolerance } from "@/lib/engine/optimizer";
+import { computeWeightSensitivity, topDrivers } from "@/lib/engine/sensitivity";
+import { parseOptimizeRequest, type OptimizeRequest } from "@/lib/engine/optimize-request";
+
+const DRIVERS_PER_DIRECTION = 8;
+
+/**
+ * Weight sensitivity of the portfolio /api/optimize selects for the same
+ * request body, which is validated by the same parser.
+ */
+export async function POST(request: Request) {
+  try {
+    const parsed = parseOptimizeRequest((await request.json()) as OptimizeRequest);
+    if (!parsed.ok) {
+      return NextResponse.json(parsed.body, { status: parsed.status });
+    }
+    const {
+      topics,
+      affinityMatrix,
+      riskTolerance,
+      constraints,
+      strategy,
+      riskMeasure,
+      riskFreeRate,
+      cardinality,
+      resampling,
+      estimation: settings,
+    } = parsed.request;
+
+    // Mean-CVaR solutions sit on vertices of a polyhedron, so their weights
+    // move in jumps and finite differences say nothing useful
+    if (riskMeasure === "cvar" && strategy === "mean_variance") {
+      return NextResponse.json(
+        { error: "Sensitivity analysis needs the variance risk measure or a non-frontier strategy" },
+        { status: 422 }
+      );
+    }
+
+    // Which directions are held changes in jumps too
+    if (cardinality?.enabled) {
+      return NextResponse.json(
+        { error: "Sensitivity analysis is not available with a course limit" },
+        { status: 422 }
+      );
+    }
+
+    // The resampled pick is an average over hundreds of simulated
+    // frontiers; differentiating it would re-run them for every input
+    if (resampling?.enabled && strategy === "mean_variance") {
+      return NextResponse.json(
+        { error: "Sensitivity analysis is not available with a resampled frontier" },
+        { status: 422 }
+      );
+    }
+
+    const optimizerConstraints = toOptimizerConstraints(constraints);
+
+    // Locate the slider pick on the base frontier, as /api/optimize does
+    const base = estimateMarketInputs(topics, affinityMatrix, settings);
+    const { frontier } = computeEfficientFrontier(
+      base.expectedReturns,
+      base.covMatrix,
+      optimizerConstraints,
+      50,
+      riskFreeRate
+    );
+    if (frontier.length === 0) {
+      return NextResponse.json(
+        { error: "Weight constraints are infeasible: no allocation satisfies them" },
+        { status: 422 }
+      );
+    }
+    const selectedIndex = selectByRiskTolerance(frontier, riskTolerance);
+    const frontierPosition = frontier.length > 1 ? selectedIndex / (frontier.length - 1) : 0;
+
+    const sensitivity = computeWeightSensitivity(
+      topics,
+      affinityMatrix,
+      settings,
+      optimizerConstraints,
+      { strategy, frontierPosition }
+    );
+    if (!sensitivity) {
+      return NextResponse.json(
+        { error: `Strategy "${strategy}" could not be solved within the constraints` },
+        { status: 422 }
+      );
+    }
+
+    const topicNames = new Map(topics.map((t) => [t.topicNumber, t.name]));
+    const topDriversByDirection: Record<string, unknown[]> = {};
+    TRAINING_DIRECTIONS.forEach((dir, d) => {
+      topDriversByDirection[dir.key] = topDrivers(
+        sensitivity.drivers,
+        d,
+        DRIVERS_PER_DIRECTION
+      ).map((driver) => ({
+        kind: driver.kind,
+        topic_number: driver.topicNumber,
+        topic_name: driver.topicNumber !== undefined ? topicNames.get(driver.topicNumber) : undefined,
+        scored_direction:
+          driver.directionIndex !== undefined
+            ? TRAINING_DIRECTIONS[driver.directionIndex].key
+            : undefined,
+        coefficient: driver.coefficient,
+        value: Math.round(driver.value * 1e4) / 1e4,
+        sensitivity: Math.round(driver.gradient[d] * 1e4) / 1e4,
+      }));
+    });
+
+    return NextResponse.json({
+      strategy,
+      frontier_position: frontierPosition,
+      weights: sensitivity.weights.map((w) => Math.round(w * 1e4) / 1e4),
+      top_drivers: topDriversByDirection,
+      evaluated_inputs: sensitivity.drivers.length,
+    });
+  } catch (error) {
+    console.error("Sensitivity analysis error:", error);
+    return NextResponse.json(
+      { error: "Sensitivity analysis failed" },
+      { status: 500 }
+    );
+  }
+}
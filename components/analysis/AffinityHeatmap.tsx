@@ -0,0 +1,282 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Grid3X3, Bot, UserPen, RotateCcw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  TRAINING_DIRECTIONS,
+  DIRECTION_COLORS,
+  type TopicInfo,
+  type AnalysisResult,
+} from "@/lib/engine/portfolio-types";
+import { findAffinityOverride, type AffinityOverride } from "@/lib/engine/affinity-overrides";
+import { DISAGREEMENT_SD, type EnsembleSummary } from "@/lib/engine/ensemble";
+import { shortDirectionLabel } from "@/components/charts/SkillRadar";
+import { Collapsible } from "@/components/ui/Collapsible";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import AffinityRationaleNote from "./AffinityRationaleNote";
+
+interface AffinityHeatmapProps {
+  topics: TopicInfo[];
+  aiMatrix: Record<number, number[]>;
+  overrides: AffinityOverride[];
+  variance?: Record<number, number[]>; // across ensemble runs
+  ensemble?: EnsembleSummary;
+  rationale?: AnalysisResult["affinityRationale"];
+  author: string;
+  locale: string;
+  onOverride: (override: AffinityOverride) => void;
+  onRevert: (topicNumber: number, directionKey: AffinityOverride["directionKey"]) => void;
+}
+
+function cellColor(value: number): string {
+  return `color-mix(in srgb, var(--primary) ${Math.round(Math.min(Math.max(value, 0), 1) * 80)}%, var(--card))`;
+}
+
+/**
+ * Topics × directions affinity, editable cell by cell. Hand-set cells are
+ * outlined; cells the ensemble runs disagreed on are dashed.
+ */
+export default function AffinityHeatmap({
+  topics,
+  aiMatrix,
+  overrides,
+  variance,
+  ensemble,
+  rationale,
+  author,
+  locale,
+  onOverride,
+  onRevert,
+}: AffinityHeatmapProps) {
+  const t = useTranslations("analysis.heatmap");
+  const [cell, setCell] = useState<{ topicNumber: number; d: number } | null>(null);
+  const [draft, setDraft] = useState("");
+  const [reason, setReason] = useState("");
+
+  const rows = topics.filter((topic) => aiMatrix[topic.topicNumber]);
+  const fullNames = TRAINING_DIRECTIONS.map((dir) => (locale === "el" ? dir.name_el : dir.name));
+
+  const spreadAt = (topicNumber: number, d: number) => Math.sqrt(variance?.[topicNumber]?.[d] ?? 0);
+  const disputedCount = rows.reduce(
+    (sum, topic) => sum + TRAINING_DIRECTIONS.filter((_, d) => spreadAt(topic.topicNumber, d) > DISAGREEMENT_SD).length,
+    0
+  );
+
+  const valueAt = (topicNumber: number, d: number) =>
+    findAffinityOverride(overrides, topicNumber, TRAINING_DIRECTIONS[d].key)?.value ?? aiMatrix[topicNumber]?.[d] ?? 0;
+
+  const select = (topicNumber: number, d: number) => {
+    const override = findAffinityOverride(overrides, topicNumber, TRAINING_DIRECTIONS[d].key);
+    setCell({ topicNumber, d });
+    setDraft(String(Math.round(valueAt(topicNumber, d) * 100)));
+    setReason(override?.reason ?? "");
+  };
+
+  const selected = cell && {
+    ...cell,
+    key: TRAINING_DIRECTIONS[cell.d].key,
+    ai: aiMatrix[cell.topicNumber]?.[cell.d] ?? null,
+    override: findAffinityOverride(overrides, cell.topicNumber, TRAINING_DIRECTIONS[cell.d].key),
+  };
+  const draftValue = parseFloat(draft);
+  const canSave = selected && Number.isFinite(draftValue) && draftValue >= 0 && draftValue <= 100 && reason.trim();
+
+  const save = () => {
+    if (!selected || !canSave) return;
+    const topic = topics.find((t) => t.topicNumber === selected.topicNumber);
+    onOverride({
+      topicNumber: selected.topicNumber,
+      directionKey: selected.key,
+      value: draftValue / 100,
+      aiValue: selected.ai,
+      author: author.trim(),
+      changedAt: new Date().toISOString(),
+      reason: reason.trim(),
+      topicName: topic?.name,
+      topicKeywords: topic?.keywords,
+    });
+  };
+
+  return (
+    <div className="mt-8 rounded-xl border border-border bg-card">
+      <Collapsible
+        defaultOpen={disputedCount > 0}
+        triggerClassName="rounded-xl px-6 py-4"
+        trigger={
+          <span className="flex flex-1 items-center justify-between gap-2">
+            <span className="flex items-center gap-2 text-sm font-semibold">
+              <Grid3X3 className="h-4 w-4 text-primary" />
+              {t("title")}
+            </span>
+            <span className="flex gap-3 text-xs text-muted-foreground">
+              {disputedCount > 0 && <span className="text-danger">{t("disputed_count", { count: disputedCount })}</span>}
+              {overrides.length > 0 && <span>{t("override_count", { count: overrides.length })}</span>}
+            </span>
+          </span>
+        }
+      >
+        <div className="space-y-4 border-t border-border px-6 py-4">
+          <p className="text-xs text-muted-foreground">{t("hint")}</p>
+          {ensemble && (
+            <p className="text-xs text-muted-foreground">
+              {t("ensemble", {
+                succeeded: ensemble.succeeded,
+                runs: ensemble.runs,
+                providers: ensemble.providers.join(", "),
+                aggregation: t(`aggregations.${ensemble.aggregation}`),
+              })}
+            </p>
+          )}
+
+          <div className="max-h-[32rem] overflow-auto">
+            <table className="border-separate border-spacing-0.5 text-xs">
+              <thead>
+                <tr>
+                  <th />
+                  {TRAINING_DIRECTIONS.map((dir, d) => (
+                    <th key={dir.key} className="px-1 pb-1 font-medium text-muted-foreground" title={fullNames[d]}>
+                      <span
+                        className="mr-1 inline-block h-2 w-2 rounded-full"
+                        style={{ backgroundColor: DIRECTION_COLORS[d] }}
+                      />
+                      {shortDirectionLabel(dir.key, locale)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((topic) => (
+                  <tr key={topic.topicNumber} className={cn(topic.excluded && "opacity-50")}>
+                    <th
+                      className="max-w-48 truncate pr-2 text-right font-medium text-muted-foreground"
+                      title={topic.name}
+                    >
+                      T{topic.topicNumber} {topic.name}
+                    </th>
+                    {TRAINING_DIRECTIONS.map((dir, d) => {
+                      const value = valueAt(topic.topicNumber, d);
+                      const edited = !!findAffinityOverride(overrides, topic.topicNumber, dir.key);
+                      const spread = spreadAt(topic.topicNumber, d);
+                      const active = cell?.topicNumber === topic.topicNumber && cell.d === d;
+                      return (
+                        <td key={dir.key} className="p-0">
+                          <button
+                            onClick={() => select(topic.topicNumber, d)}
+                            title={`T${topic.topicNumber} × ${fullNames[d]}: ${(value * 100).toFixed(0)}%${
+                              variance ? ` ± ${(spread * 100).toFixed(0)}` : ""
+                            }${rationale?.[topic.topicNumber]?.[d] ? `\n${rationale[topic.topicNumber][d]!.justification}` : ""}`}
+                            className={cn(
+                              "h-8 w-full min-w-12 rounded text-center tabular-nums",
+                              edited && "ring-2 ring-inset ring-accent",
+                              spread > DISAGREEMENT_SD && "border-2 border-dashed border-danger",
+                              active && "outline outline-2 outline-foreground"
+                            )}
+                            style={{ backgroundColor: cellColor(value), color: value > 0.6 ? "white" : undefined }}
+                          >
+                            {(value * 100).toFixed(0)}
+                          </button>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+            <span className="flex items-center gap-1.5">
+              <Bot className="h-3.5 w-3.5" />
+              {t("legend_ai")}
+            </span>
+            <span className="flex items-center gap-1.5">
+              <span className="inline-block h-3 w-3 rounded ring-2 ring-inset ring-accent" />
+              {t("legend_user")}
+            </span>
+            {variance && (
+              <span className="flex items-center gap-1.5">
+                <span className="inline-block h-3 w-3 rounded border-2 border-dashed border-danger" />
+                {t("legend_disputed", { sd: Math.round(DISAGREEMENT_SD * 100) })}
+              </span>
+            )}
+          </div>
+
+          {selected && (
+            <div className="space-y-3 rounded-lg border border-border p-4">
+              <div className="text-sm font-semibold">
+                T{selected.topicNumber} × {fullNames[selected.d]}
+              </div>
+              {variance?.[selected.topicNumber] && (
+                <p className="text-xs text-muted-foreground">
+                  {t("spread", { sd: (spreadAt(selected.topicNumber, selected.d) * 100).toFixed(0) })}
+                </p>
+              )}
+              {selected.override ? (
+                <div className="flex items-start gap-2 text-xs text-muted-foreground">
+                  <UserPen className="mt-0.5 h-3.5 w-3.5 shrink-0 text-accent" />
+                  <div>
+                    <p>
+                      {t("provenance_user", {
+                        author: selected.override.author || t("anonymous"),
+                        date: new Date(selected.override.changedAt).toLocaleString(locale),
+                        ai: selected.override.aiValue === null ? "—" : `${(selected.override.aiValue * 100).toFixed(0)}%`,
+                      })}
+                    </p>
+                    <p className="mt-1 italic">“{selected.override.reason}”</p>
+                  </div>
+                </div>
+              ) : (
+                <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <Bot className="h-3.5 w-3.5 shrink-0" />
+                  {t("provenance_ai")}
+                </p>
+              )}
+              {rationale && (
+                <div className="rounded-md bg-muted/50 p-3">
+                  <AffinityRationaleNote rationale={rationale[selected.topicNumber]?.[selected.d]} />
+                </div>
+              )}
+              <div className="flex flex-wrap items-end gap-2">
+                <label className="text-xs font-medium">
+                  {t("value")}
+                  <Input
+                    type="number"
+                    className="mt-1 h-8 w-24"
+                    min={0}
+                    max={100}
+                    step={5}
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                  />
+                </label>
+                <label className="min-w-48 flex-1 text-xs font-medium">
+                  {t("reason")}
+                  <Input
+                    className="mt-1 h-8"
+                    value={reason}
+                    placeholder={t("reason_placeholder")}
+                    onChange={(e) => setReason(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && save()}
+                  />
+                </label>
+                <Button size="sm" onClick={save} disabled={!canSave}>
+                  {t("save")}
+                </Button>
+                {selected.override && (
+                  <Button variant="ghost" size="sm" onClick={() => onRevert(selected.topicNumber, selected.key)}>
+                    <RotateCcw className="h-3.5 w-3.5" />
+                    {t("revert")}
+                  </Button>
+                )}
+              </div>
+              {!author.trim() && <p className="text-xs text-muted-foreground">{t("no_author")}</p>}
+            </div>
+          )}
+        </div>
+      </Collapsible>
+    </div>
+  );
+}
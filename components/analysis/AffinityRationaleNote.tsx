@@ -0,0 +1,40 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { Tag, FileText } from "lucide-react";
+import type { AffinityRationale } from "@/lib/engine/portfolio-types";
+
+interface AffinityRationaleNoteProps {
+  rationale: AffinityRationale | null | undefined;
+}
+
+/** The AI's justification of one affinity score, with the keywords and documents it cites. */
+export default function AffinityRationaleNote({ rationale }: AffinityRationaleNoteProps) {
+  const t = useTranslations("analysis.rationale");
+
+  if (!rationale) {
+    return <p className="text-xs italic text-muted-foreground">{t("none")}</p>;
+  }
+
+  return (
+    <div className="space-y-1.5 text-xs">
+      <p>{rationale.justification}</p>
+      {rationale.keywords.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          <Tag className="h-3 w-3 text-muted-foreground" />
+          {rationale.keywords.map((kw) => (
+            <span key={kw} className="rounded bg-muted px-1.5 py-0.5">
+              {kw}
+            </span>
+          ))}
+        </div>
+      )}
+      {rationale.documents.map((doc) => (
+        <p key={doc} className="flex items-start gap-1 text-muted-foreground">
+          <FileText className="mt-0.5 h-3 w-3 shrink-0" />
+          <span className="line-clamp-2">{doc}</span>
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { SlidersHorizontal, RotateCcw } from "lucide-react";
+import {
+  RARITY_RULE_KINDS,
+  createDefaultRarityRule,
+  type RarityRule,
+  type RarityRuleKind,
+} from "@/lib/engine/rarity";
+import { Collapsible } from "@/components/ui/Collapsible";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+
+const SELECT_CLASS =
+  "h-8 rounded-lg border border-border bg-background px-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring";
+
+/** The rule's parameter, with input bounds and step. */
+const PARAMETERS: Record<RarityRuleKind, { key: "minCount" | "percentile" | "zScore"; min: number; max?: number; step: number }> = {
+  absolute: { key: "minCount", min: 1, step: 1 },
+  percentile: { key: "percentile", min: 0, max: 100, step: 5 },
+  zscore: { key: "zScore", min: 0, max: 4, step: 0.25 },
+};
+
+interface RarityRuleEditorProps {
+  rule: RarityRule;
+  cutoff: number; // paper count below which topics are RARE under the rule
+  overrideCount: number;
+  onChange: (rule: RarityRule) => void;
+  onClearOverrides: () => void;
+}
+
+export default function RarityRuleEditor({
+  rule,
+  cutoff,
+  overrideCount,
+  onChange,
+  onClearOverrides,
+}: RarityRuleEditorProps) {
+  const t = useTranslations("analysis.rarity");
+  const parameter = PARAMETERS[rule.kind];
+
+  const setParameter = (raw: string) => {
+    const value = parseFloat(raw);
+    if (!Number.isFinite(value)) return;
+    const clamped = Math.max(parameter.min, parameter.max !== undefined ? Math.min(parameter.max, value) : value);
+    onChange({ ...rule, [parameter.key]: clamped });
+  };
+
+  return (
+    <div className="mb-8 rounded-xl border border-border bg-card">
+      <Collapsible
+        triggerClassName="rounded-xl px-6 py-4"
+        trigger={
+          <span className="flex items-center gap-2 text-sm font-semibold">
+            <SlidersHorizontal className="h-4 w-4 text-primary" />
+            {t("title")}
+            <span className="font-normal text-muted-foreground">
+              {t("cutoff", { count: Math.ceil(cutoff) })}
+            </span>
+          </span>
+        }
+      >
+        <div className="space-y-3 border-t border-border px-6 py-4">
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <label className="flex items-center gap-2">
+              <span className="font-medium">{t("rule")}</span>
+              <select
+                value={rule.kind}
+                onChange={(e) => onChange({ ...rule, kind: e.target.value as RarityRuleKind })}
+                className={SELECT_CLASS}
+              >
+                {RARITY_RULE_KINDS.map((kind) => (
+                  <option key={kind} value={kind}>
+                    {t(`kinds.${kind}`)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="font-medium">{t(`parameters.${rule.kind}`)}</span>
+              <Input
+                type="number"
+                className="h-8 w-24"
+                min={parameter.min}
+                max={parameter.max}
+                step={parameter.step}
+                value={rule[parameter.key]}
+                onChange={(e) => setParameter(e.target.value)}
+              />
+            </label>
+            <Button variant="ghost" size="sm" onClick={() => onChange(createDefaultRarityRule())}>
+              <RotateCcw className="h-3.5 w-3.5" />
+              {t("reset")}
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">{t(`hints.${rule.kind}`)}</p>
+          {overrideCount > 0 && (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              {t("overrides", { count: overrideCount })}
+              <Button variant="ghost" size="sm" onClick={onClearOverrides}>
+                {t("clear_overrides")}
+              </Button>
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">{t("stale_hint")}</p>
+        </div>
+      </Collapsible>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Pencil, Scissors, EyeOff, Eye } from "lucide-react";
+import type { TopicInfo } from "@/lib/engine/portfolio-types";
+import type { TopicEdit } from "@/lib/engine/topic-edits";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+
+/** Keyword chips offered for splitting. */
+const SPLIT_SUGGESTIONS = 8;
+
+interface TopicEditPanelProps {
+  topic: TopicInfo;
+  onEdit: (edit: TopicEdit) => void;
+}
+
+/** Rename, split by keyword, or exclude the selected topic. */
+export default function TopicEditPanel({ topic, onEdit }: TopicEditPanelProps) {
+  const t = useTranslations("analysis.edit");
+  const [name, setName] = useState(topic.name);
+  const [keyword, setKeyword] = useState("");
+
+  const rename = () => {
+    if (name.trim() && name.trim() !== topic.name) onEdit({ type: "rename", topicNumber: topic.topicNumber, name });
+  };
+
+  const split = (kw: string) => {
+    if (!kw.trim()) return;
+    onEdit({ type: "split", topicNumber: topic.topicNumber, keyword: kw });
+    setKeyword("");
+  };
+
+  return (
+    <div className="mb-4 space-y-3 rounded-lg border border-border p-3">
+      <div>
+        <label className="mb-1 flex items-center gap-1.5 text-xs font-semibold">
+          <Pencil className="h-3.5 w-3.5" />
+          {t("rename")}
+        </label>
+        <div className="flex gap-2">
+          <Input
+            className="h-8"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && rename()}
+          />
+          <Button variant="secondary" size="sm" onClick={rename} disabled={!name.trim() || name.trim() === topic.name}>
+            {t("save")}
+          </Button>
+        </div>
+      </div>
+
+      <div>
+        <label className="mb-1 flex items-center gap-1.5 text-xs font-semibold">
+          <Scissors className="h-3.5 w-3.5" />
+          {t("split")}
+        </label>
+        <p className="mb-2 text-xs text-muted-foreground">{t("split_hint")}</p>
+        <div className="mb-2 flex flex-wrap gap-1.5">
+          {topic.keywords.slice(0, SPLIT_SUGGESTIONS).map((kw) => (
+            <button
+              key={kw}
+              onClick={() => split(kw)}
+              className="rounded-md border border-border px-2 py-0.5 text-xs transition-colors hover:bg-muted"
+            >
+              {kw}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Input
+            className="h-8"
+            value={keyword}
+            placeholder={t("keyword_placeholder")}
+            onChange={(e) => setKeyword(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && split(keyword)}
+          />
+          <Button variant="secondary" size="sm" onClick={() => split(keyword)} disabled={!keyword.trim()}>
+            {t("split_button")}
+          </Button>
+        </div>
+      </div>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => onEdit({ type: "exclude", topicNumber: topic.topicNumber, excluded: !topic.excluded })}
+      >
+        {topic.excluded ? <Eye className="h-3.5 w-3.5" /> : <EyeOff className="h-3.5 w-3.5" />}
+        {topic.excluded ? t("include") : t("exclude")}
+      </Button>
+    </div>
+  );
+}
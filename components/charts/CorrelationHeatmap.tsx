@@ -0,0 +1,64 @@
+"use client";
+
+import { TRAINING_DIRECTIONS, DIRECTION_COLORS } from "@/lib/engine/portfolio-types";
+import { shortDirectionLabel } from "./SkillRadar";
+
+interface CorrelationHeatmapProps {
+  correlation: number[][];
+  locale: string;
+}
+
+/** Positive correlations shade towards the primary color, negative ones towards red. */
+function cellColor(value: number): string {
+  const strength = Math.round(Math.min(Math.abs(value), 1) * 80);
+  const hue = value >= 0 ? "var(--primary)" : "var(--danger)";
+  return `color-mix(in srgb, ${hue} ${strength}%, var(--card))`;
+}
+
+export default function CorrelationHeatmap({ correlation, locale }: CorrelationHeatmapProps) {
+  const labels = TRAINING_DIRECTIONS.map((dir) => shortDirectionLabel(dir.key, locale));
+  const fullNames = TRAINING_DIRECTIONS.map((dir) => (locale === "el" ? dir.name_el : dir.name));
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="border-separate border-spacing-0.5 text-xs">
+        <thead>
+          <tr>
+            <th />
+            {labels.map((label, j) => (
+              <th key={j} className="px-1 pb-1 font-medium text-muted-foreground" title={fullNames[j]}>
+                <span
+                  className="mr-1 inline-block h-2 w-2 rounded-full"
+                  style={{ backgroundColor: DIRECTION_COLORS[j] }}
+                />
+                {label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {correlation.map((row, i) => (
+            <tr key={i}>
+              <th className="pr-2 text-right font-medium text-muted-foreground" title={fullNames[i]}>
+                {labels[i]}
+              </th>
+              {row.map((value, j) => (
+                <td
+                  key={j}
+                  title={`${fullNames[i]} × ${fullNames[j]}: ${value.toFixed(3)}`}
+                  className="h-9 min-w-14 rounded text-center tabular-nums"
+                  style={{
+                    backgroundColor: cellColor(value),
+                    color: Math.abs(value) > 0.55 ? "white" : undefined,
+                  }}
+                >
+                  {value.toFixed(2)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
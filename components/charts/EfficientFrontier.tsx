@@ -23,6 +23,9 @@ interface EfficientFrontierProps {
   selectedIdx: number | null;
   onSelect: (idx: number) => void;
   optimumIdx: number;
+  riskLabel?: string; // axis title for the risk measure that produced the frontier
+  // Saved portfolios placed against this frontier; only comparable under the same risk measure
+  markers?: Array<{ label: string; risk: number; return_: number; color: string }>;
 }
 
 export default function EfficientFrontier({
@@ -30,6 +33,8 @@ export default function EfficientFrontier({
   selectedIdx,
   onSelect,
   optimumIdx,
+  riskLabel = "Risk",
+  markers = [],
 }: EfficientFrontierProps) {
   const data = frontier.map((p, i) => ({
     x: p.risk * 100,
@@ -37,6 +42,12 @@ export default function EfficientFrontier({
     idx: i,
     sharpe: p.sharpeRatio ?? 0,
   }));
+  const markerData = markers.map((m) => ({
+    x: m.risk * 100,
+    y: m.return_ * 100,
+    label: m.label,
+    color: m.color,
+  }));
 
   return (
     <ResponsiveContainer width="100%" height={320}>
@@ -48,7 +59,7 @@ export default function EfficientFrontier({
           name="Risk"
           tick={{ fontSize: 11, fill: "var(--muted-foreground)" }}
           label={{
-            value: "Risk (%)",
+            value: `${riskLabel} (%)`,
             position: "bottom",
             offset: 0,
             style: { fontSize: 12, fill: "var(--muted-foreground)" },
@@ -72,9 +83,10 @@ export default function EfficientFrontier({
             const d = payload[0].payload;
             return (
               <div className="rounded-lg border border-border bg-card p-2.5 text-xs shadow-md">
-                <div>Risk: {d.x.toFixed(2)}%</div>
+                {d.label && <div className="font-medium">{d.label}</div>}
+                <div>{riskLabel}: {d.x.toFixed(2)}%</div>
                 <div>Return: {d.y.toFixed(2)}%</div>
-                <div>Sharpe: {(d.sharpe ?? 0).toFixed(2)}</div>
+                {d.sharpe !== undefined && <div>Sharpe: {d.sharpe.toFixed(2)}</div>}
               </div>
             );
           }}
@@ -104,6 +116,13 @@ export default function EfficientFrontier({
             />
           ))}
         </Scatter>
+        {markerData.length > 0 && (
+          <Scatter data={markerData} shape="diamond">
+            {markerData.map((entry, k) => (
+              <Cell key={k} fill={entry.color} stroke="var(--card)" />
+            ))}
+          </Scatter>
+        )}
       </ScatterChart>
     </ResponsiveContainer>
   );
@@ -0,0 +1,67 @@
+"use client";
+
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Cell,
+} from "recharts";
+import type { TopicTimeline } from "@/lib/engine/momentum";
+
+interface PublicationTimelineProps {
+  timeline: TopicTimeline;
+  windowStart?: number; // first year of the momentum window, highlighted
+  papersLabel?: string;
+}
+
+export default function PublicationTimeline({
+  timeline,
+  windowStart,
+  papersLabel = "Papers",
+}: PublicationTimelineProps) {
+  return (
+    <ResponsiveContainer width="100%" height={160}>
+      <BarChart data={timeline} margin={{ top: 5, right: 5, bottom: 0, left: -20 }}>
+        <CartesianGrid stroke="var(--border)" strokeDasharray="3 3" vertical={false} />
+        <XAxis
+          dataKey="year"
+          tick={{ fontSize: 10, fill: "var(--muted-foreground)" }}
+          interval="preserveStartEnd"
+        />
+        <YAxis
+          allowDecimals={false}
+          tick={{ fontSize: 10, fill: "var(--muted-foreground)" }}
+        />
+        <Tooltip
+          cursor={{ fill: "var(--muted)" }}
+          content={({ payload }) => {
+            if (!payload?.length) return null;
+            const d = payload[0].payload;
+            return (
+              <div className="rounded-lg border border-border bg-card p-2 text-xs shadow-md">
+                {d.year}: {d.count} {papersLabel}
+              </div>
+            );
+          }}
+        />
+        <Bar dataKey="count" radius={[2, 2, 0, 0]}>
+          {timeline.map((point) => (
+            <Cell
+              key={point.year}
+              fill={
+                windowStart !== undefined && point.year >= windowStart
+                  ? "var(--primary)"
+                  : "var(--muted-foreground)"
+              }
+              fillOpacity={windowStart !== undefined && point.year < windowStart ? 0.4 : 1}
+            />
+          ))}
+        </Bar>
+      </BarChart>
+    </ResponsiveContainer>
+  );
+}
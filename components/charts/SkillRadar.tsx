@@ -6,6 +6,7 @@ import {
   PolarAngleAxis,
   PolarRadiusAxis,
   Radar,
+  Legend,
   ResponsiveContainer,
 } from "recharts";
 import { TRAINING_DIRECTIONS } from "@/lib/engine/portfolio-types";
@@ -13,6 +14,9 @@ import { TRAINING_DIRECTIONS } from "@/lib/engine/portfolio-types";
 interface SkillRadarProps {
   weights: number[];
   locale: string;
+  // Saved portfolios drawn as outlines over the current one
+  overlays?: Array<{ name: string; weights: number[]; color: string }>;
+  label?: string; // legend entry for `weights`, shown with overlays
 }
 
 const SHORT_LABELS: Record<string, { en: string; el: string }> = {
@@ -24,14 +28,22 @@ const SHORT_LABELS: Record<string, { en: string; el: string }> = {
   personal_growth_practical: { en: "Practical", el: "Πρακτική" },
 };
 
-export default function SkillRadar({ weights, locale }: SkillRadarProps) {
+/** Compact direction name for chart axes. */
+export function shortDirectionLabel(key: string, locale: string): string {
+  return (
+    SHORT_LABELS[key]?.[locale as "en" | "el"] ||
+    SHORT_LABELS[key]?.en ||
+    TRAINING_DIRECTIONS.find((d) => d.key === key)?.name ||
+    key
+  );
+}
+
+export default function SkillRadar({ weights, locale, overlays = [], label }: SkillRadarProps) {
   const data = TRAINING_DIRECTIONS.map((dir, i) => ({
-    subject:
-      SHORT_LABELS[dir.key]?.[locale as "en" | "el"] ||
-      SHORT_LABELS[dir.key]?.en ||
-      dir.name,
+    subject: shortDirectionLabel(dir.key, locale),
     value: (weights[i] || 0) * 100,
     fullMark: 50,
+    ...Object.fromEntries(overlays.map((o, k) => [`overlay${k}`, (o.weights[i] || 0) * 100])),
   }));
 
   return (
@@ -50,11 +62,24 @@ export default function SkillRadar({ weights, locale }: SkillRadarProps) {
         />
         <Radar
           dataKey="value"
+          name={label}
           stroke="var(--primary)"
           fill="var(--primary)"
           fillOpacity={0.2}
           strokeWidth={2}
         />
+        {overlays.map((o, k) => (
+          <Radar
+            key={k}
+            dataKey={`overlay${k}`}
+            name={o.name}
+            stroke={o.color}
+            fill="none"
+            strokeWidth={1.5}
+            strokeDasharray="4 3"
+          />
+        ))}
+        {overlays.length > 0 && <Legend wrapperStyle={{ fontSize: 11 }} />}
       </RadarChart>
     </ResponsiveContainer>
   );
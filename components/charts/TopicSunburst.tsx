@@ -0,0 +1,78 @@
+"use client";
+
+import { SunburstChart, Tooltip, type SunburstData } from "recharts";
+import {
+  TRAINING_DIRECTIONS,
+  DIRECTION_COLORS,
+  type TopicInfo,
+} from "@/lib/engine/portfolio-types";
+import type { TopicAllocationEntry } from "@/lib/engine/topic-allocation";
+
+interface TopicSunburstProps {
+  weights: number[];
+  allocation: TopicAllocationEntry[][];
+  topics: TopicInfo[];
+  locale: string;
+}
+
+/** Inner ring: directions; outer ring: each direction's topics, RARE ones lighter. */
+export default function TopicSunburst({ weights, allocation, topics, locale }: TopicSunburstProps) {
+  // The chart sizes every ring from explicit values, the root's included
+  const data: SunburstData = {
+    name: "",
+    value: weights.reduce((sum, w) => sum + Math.max(w, 0), 0) * 100,
+    children: TRAINING_DIRECTIONS.flatMap((dir, d) => {
+      if (!(weights[d] > 0)) return [];
+      const entries = allocation[d] ?? [];
+      const name = locale === "el" ? dir.name_el : dir.name;
+      return [
+        {
+          name,
+          value: weights[d] * 100,
+          fill: DIRECTION_COLORS[d],
+          children: entries.map((entry) => {
+            const topic = topics.find((t) => t.topicNumber === entry.topicNumber);
+            const rare = topic?.rarityLabel === "RARE";
+            return {
+              name: topic?.name ?? `#${entry.topicNumber}`,
+              value: entry.weight * 100,
+              share: entry.share,
+              direction: name,
+              fill: `color-mix(in srgb, ${DIRECTION_COLORS[d]} ${rare ? 45 : 75}%, white)`,
+            };
+          }),
+        },
+      ];
+    }),
+  };
+
+  return (
+    <SunburstChart
+      data={data}
+      responsive
+      width="100%"
+      height={320}
+      innerRadius={40}
+      stroke="var(--card)"
+      textOptions={{ fill: "none" }} // sector labels would be raw values; the tooltip shows them
+    >
+      <Tooltip
+        content={({ payload }) => {
+          if (!payload?.length) return null;
+          const node = payload[0].payload as SunburstData;
+          return (
+            <div className="rounded-lg border border-border bg-card p-2 text-xs shadow-md">
+              <div className="font-medium">{node.name}</div>
+              {node.direction && (
+                <div className="text-muted-foreground">
+                  {node.direction}: {(node.share * 100).toFixed(0)}%
+                </div>
+              )}
+              <div>{(node.value ?? 0).toFixed(1)}%</div>
+            </div>
+          );
+        }}
+      />
+    </SunburstChart>
+  );
+}
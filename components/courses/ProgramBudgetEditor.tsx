@@ -0,0 +1,130 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import {
+  TRAINING_DIRECTIONS,
+  DIRECTION_COLORS,
+  createDefaultProgramBudget,
+  type BudgetUnit,
+  type ProgramBudget,
+} from "@/lib/engine/portfolio-types";
+import { allocateCourseHours, budgetHours } from "@/lib/engine/hours-budget";
+import { Input } from "@/components/ui/Input";
+import { cn } from "@/lib/utils";
+
+interface ProgramBudgetEditorProps {
+  budget: ProgramBudget | null; // null = no budget, the model picks course hours
+  onChange: (budget: ProgramBudget | null) => void;
+  weights?: number[]; // selected portfolio, to preview the per-course targets
+  locale: string;
+}
+
+export default function ProgramBudgetEditor({
+  budget,
+  onChange,
+  weights,
+  locale,
+}: ProgramBudgetEditorProps) {
+  const t = useTranslations("courses.budget");
+  const targets = budget && weights?.length ? allocateCourseHours(weights, budget) : null;
+
+  const update = (patch: Partial<ProgramBudget>) => {
+    if (budget) onChange({ ...budget, ...patch });
+  };
+
+  const numberField = (
+    label: string,
+    value: number,
+    min: number,
+    step: number,
+    apply: (value: number) => void
+  ) => (
+    <label className="flex items-center gap-2">
+      <span className="text-muted-foreground">{label}</span>
+      <Input
+        type="number"
+        min={min}
+        step={step}
+        value={value}
+        onChange={(e) => apply(Math.max(min, parseFloat(e.target.value) || min))}
+        className="h-8 w-24 text-right"
+      />
+    </label>
+  );
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-sm font-medium">
+        <input
+          type="checkbox"
+          checked={budget !== null}
+          onChange={(e) => onChange(e.target.checked ? createDefaultProgramBudget() : null)}
+          className="accent-primary"
+        />
+        {t("enable")}
+      </label>
+      <p className="text-xs text-muted-foreground">{t("hint")}</p>
+
+      {budget && (
+        <>
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <div className="flex gap-1">
+              {(["hours", "ects"] as BudgetUnit[]).map((unit) => (
+                <button
+                  key={unit}
+                  onClick={() => update({ unit })}
+                  className={cn(
+                    "rounded-lg border px-3 py-1.5 text-sm font-medium transition-colors",
+                    budget.unit === unit
+                      ? "border-primary bg-primary/10 text-primary"
+                      : "border-border hover:bg-muted"
+                  )}
+                >
+                  {t(`unit_${unit}`)}
+                </button>
+              ))}
+            </div>
+            {numberField(t("amount"), budget.amount, 1, 1, (amount) => update({ amount }))}
+            {budget.unit === "ects" &&
+              numberField(t("hours_per_ects"), budget.hoursPerEcts, 1, 1, (hoursPerEcts) =>
+                update({ hoursPerEcts })
+              )}
+          </div>
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            {numberField(t("min_course_hours"), budget.minCourseHours, 0, 1, (minCourseHours) =>
+              update({ minCourseHours })
+            )}
+            {numberField(t("round_to"), budget.roundTo, 1, 1, (roundTo) => update({ roundTo }))}
+            <span className="text-xs text-muted-foreground">
+              {t("total", { hours: budgetHours(budget) })}
+            </span>
+          </div>
+
+          {weights?.length ? (
+            targets ? (
+              <div className="flex flex-wrap gap-2">
+                {TRAINING_DIRECTIONS.map((dir, d) =>
+                  targets[d] > 0 ? (
+                    <span
+                      key={dir.key}
+                      className="flex items-center gap-1.5 rounded-md bg-muted/50 px-2 py-1 text-xs"
+                    >
+                      <span
+                        className="h-2 w-2 rounded-full"
+                        style={{ backgroundColor: DIRECTION_COLORS[d] }}
+                      />
+                      {locale === "el" ? dir.name_el : dir.name}
+                      <span className="font-semibold">{t("hours_short", { hours: targets[d] })}</span>
+                    </span>
+                  ) : null
+                )}
+              </div>
+            ) : (
+              <p className="text-xs text-destructive">{t("infeasible")}</p>
+            )
+          ) : null}
+        </>
+      )}
+    </div>
+  );
+}
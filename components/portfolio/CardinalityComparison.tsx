@@ -0,0 +1,135 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import {
+  TRAINING_DIRECTIONS,
+  DIRECTION_COLORS,
+  type TrainingDirectionKey,
+} from "@/lib/engine/portfolio-types";
+import { Badge } from "@/components/ui/Badge";
+import { Button } from "@/components/ui/Button";
+import { cn } from "@/lib/utils";
+
+export interface CardinalityRow {
+  assets: number;
+  held: TrainingDirectionKey[];
+  weights: number[];
+  return_: number;
+  risk: number;
+  sharpeRatio: number;
+  hhi: number;
+}
+
+interface CardinalityComparisonProps {
+  rows: Array<CardinalityRow | null>; // index k holds k + 1 directions
+  activeLimit: number | null;
+  locale: string;
+  onSelect: (maxAssets: number | null) => void;
+}
+
+/**
+ * Best portfolio for each number of courses, so the Sharpe ratio and
+ * diversification given up by each dropped course are visible.
+ */
+export default function CardinalityComparison({
+  rows,
+  activeLimit,
+  locale,
+  onSelect,
+}: CardinalityComparisonProps) {
+  const t = useTranslations("portfolio.cardinality");
+  const feasible = rows.filter((r): r is CardinalityRow => r !== null);
+  const bestSharpe = Math.max(...feasible.map((r) => r.sharpeRatio));
+
+  const dirName = (key: TrainingDirectionKey) => {
+    const dir = TRAINING_DIRECTIONS.find((d) => d.key === key);
+    if (!dir) return key;
+    return locale === "el" ? dir.name_el : dir.name;
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-border text-xs uppercase tracking-wider text-muted-foreground">
+            <th className="py-2 text-left font-semibold">{t("courses")}</th>
+            <th className="py-2 text-left font-semibold">{t("directions")}</th>
+            <th className="py-2 text-right font-semibold">{t("return")}</th>
+            <th className="py-2 text-right font-semibold">{t("risk")}</th>
+            <th className="py-2 text-right font-semibold">{t("sharpe")}</th>
+            <th className="py-2 text-right font-semibold" title={t("cost_hint")}>
+              {t("cost")}
+            </th>
+            <th className="py-2 text-right font-semibold">{t("diversification")}</th>
+            <th className="py-2" />
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, k) => (
+            <tr
+              key={k}
+              className={cn(
+                "border-b border-border/50 last:border-0",
+                activeLimit === k + 1 && "bg-primary/5"
+              )}
+            >
+              <td className="py-2 font-medium">{k + 1}</td>
+              {row ? (
+                <>
+                  <td className="py-2">
+                    <div className="flex gap-1">
+                      {TRAINING_DIRECTIONS.map((dir, d) => (
+                        <span
+                          key={dir.key}
+                          title={`${dirName(dir.key)}: ${(row.weights[d] * 100).toFixed(0)}%`}
+                          className={cn("h-2.5 w-2.5 rounded-full", !row.held.includes(dir.key) && "opacity-15")}
+                          style={{ backgroundColor: DIRECTION_COLORS[d] }}
+                        />
+                      ))}
+                    </div>
+                  </td>
+                  <td className="py-2 text-right">{(row.return_ * 100).toFixed(1)}%</td>
+                  <td className="py-2 text-right">{(row.risk * 100).toFixed(1)}%</td>
+                  <td
+                    className={cn(
+                      "py-2 text-right",
+                      row.sharpeRatio === bestSharpe && "font-semibold text-success"
+                    )}
+                  >
+                    {row.sharpeRatio.toFixed(2)}
+                  </td>
+                  <td className="py-2 text-right text-xs text-muted-foreground">
+                    {row.sharpeRatio === bestSharpe
+                      ? "—"
+                      : `−${(bestSharpe - row.sharpeRatio).toFixed(2)}`}
+                  </td>
+                  <td className="py-2 text-right">{((1 - row.hhi) * 100).toFixed(0)}%</td>
+                </>
+              ) : (
+                <td colSpan={6} className="py-2 text-right text-xs text-destructive">
+                  {t("infeasible")}
+                </td>
+              )}
+              <td className="py-2 pl-3 text-right">
+                {activeLimit === k + 1 ? (
+                  <Button variant="ghost" size="sm" onClick={() => onSelect(null)}>
+                    <Badge>{t("active")}</Badge>
+                  </Button>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={!row}
+                    onClick={() => onSelect(k + 1)}
+                  >
+                    {t("limit_to", { k: k + 1 })}
+                  </Button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
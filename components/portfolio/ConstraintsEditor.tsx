@@ -0,0 +1,271 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { Plus, Trash2, RotateCcw, AlertCircle, SlidersHorizontal } from "lucide-react";
+import {
+  TRAINING_DIRECTIONS,
+  DIRECTION_COLORS,
+  createDefaultPortfolioConstraints,
+  type PortfolioConstraints,
+  type GroupConstraint,
+  type TrainingDirectionKey,
+} from "@/lib/engine/portfolio-types";
+import type { ConstraintIssue } from "@/lib/engine/constraints";
+import { Collapsible } from "@/components/ui/Collapsible";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { cn } from "@/lib/utils";
+
+interface ConstraintsEditorProps {
+  constraints: PortfolioConstraints;
+  issues: ConstraintIssue[];
+  locale: string;
+  onChange: (constraints: PortfolioConstraints) => void;
+}
+
+/** Convert a percentage input to a weight; empty input means "no bound". */
+function parsePercent(raw: string): number | undefined {
+  if (raw.trim() === "") return undefined;
+  const value = parseFloat(raw);
+  return Number.isFinite(value) ? value / 100 : undefined;
+}
+
+function formatPercent(value: number | undefined): string {
+  return value === undefined ? "" : String(Math.round(value * 1000) / 10);
+}
+
+export default function ConstraintsEditor({
+  constraints,
+  issues,
+  locale,
+  onChange,
+}: ConstraintsEditorProps) {
+  const t = useTranslations("portfolio.constraints");
+
+  const dirName = (key: TrainingDirectionKey) => {
+    const dir = TRAINING_DIRECTIONS.find((d) => d.key === key);
+    if (!dir) return key;
+    return locale === "el" ? dir.name_el : dir.name;
+  };
+
+  const setDirectionBound = (key: TrainingDirectionKey, field: "min" | "max", raw: string) => {
+    const value = parsePercent(raw) ?? (field === "min" ? 0 : 1);
+    onChange({
+      ...constraints,
+      directions: {
+        ...constraints.directions,
+        [key]: { ...constraints.directions[key], [field]: value },
+      },
+    });
+  };
+
+  const updateGroup = (id: string, patch: Partial<GroupConstraint>) => {
+    onChange({
+      ...constraints,
+      groups: constraints.groups.map((g) => (g.id === id ? { ...g, ...patch } : g)),
+    });
+  };
+
+  const toggleGroupDirection = (group: GroupConstraint, key: TrainingDirectionKey) => {
+    const directionKeys = group.directionKeys.includes(key)
+      ? group.directionKeys.filter((k) => k !== key)
+      : [...group.directionKeys, key];
+    updateGroup(group.id, { directionKeys });
+  };
+
+  const addGroup = () => {
+    const id = `group-${Date.now().toString(36)}`;
+    onChange({
+      ...constraints,
+      groups: [
+        ...constraints.groups,
+        { id, label: t("group_default_label", { n: constraints.groups.length + 1 }), directionKeys: [], max: 0.35 },
+      ],
+    });
+  };
+
+  const removeGroup = (id: string) => {
+    onChange({ ...constraints, groups: constraints.groups.filter((g) => g.id !== id) });
+  };
+
+  const issueText = (issue: ConstraintIssue) => {
+    const group = constraints.groups.find((g) => g.id === issue.groupId);
+    const name = issue.directionKey
+      ? dirName(issue.directionKey)
+      : group?.label || "";
+    return t(`issues.${issue.code}`, { name });
+  };
+
+  return (
+    <div className="mb-8 rounded-xl border border-border bg-card">
+      <Collapsible
+        defaultOpen={issues.length > 0}
+        triggerClassName="rounded-xl px-6 py-4"
+        trigger={
+          <span className="flex flex-1 items-center justify-between gap-2">
+            <span className="flex items-center gap-2 text-sm font-semibold">
+              <SlidersHorizontal className="h-4 w-4 text-primary" />
+              {t("title")}
+            </span>
+            {issues.length > 0 && (
+              <span className="flex items-center gap-1 text-xs font-medium text-destructive">
+                <AlertCircle className="h-3.5 w-3.5" />
+                {t("issue_count", { count: issues.length })}
+              </span>
+            )}
+          </span>
+        }
+      >
+        <div className="space-y-6 border-t border-border px-6 py-4">
+          <p className="text-xs text-muted-foreground">{t("hint")}</p>
+
+          {/* Per-direction bounds */}
+          <div className="space-y-2">
+            <div className="flex items-center gap-3 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+              <span className="flex-1">{t("direction")}</span>
+              <span className="w-20 text-center">{t("min")}</span>
+              <span className="w-20 text-center">{t("max")}</span>
+            </div>
+            {TRAINING_DIRECTIONS.map((dir, i) => {
+              const bounds = constraints.directions[dir.key];
+              const hasIssue = issues.some((iss) => iss.directionKey === dir.key);
+              return (
+                <div key={dir.key} className="flex items-center gap-3">
+                  <span className="flex min-w-0 flex-1 items-center gap-2 text-sm">
+                    <span
+                      className="h-2.5 w-2.5 shrink-0 rounded-full"
+                      style={{ backgroundColor: DIRECTION_COLORS[i] }}
+                    />
+                    <span className="truncate">{dirName(dir.key)}</span>
+                  </span>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={1}
+                    value={formatPercent(bounds?.min)}
+                    onChange={(e) => setDirectionBound(dir.key, "min", e.target.value)}
+                    className={cn("h-8 w-20 text-right", hasIssue && "border-destructive")}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={1}
+                    value={formatPercent(bounds?.max)}
+                    onChange={(e) => setDirectionBound(dir.key, "max", e.target.value)}
+                    className={cn("h-8 w-20 text-right", hasIssue && "border-destructive")}
+                  />
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Group constraints */}
+          <div>
+            <h4 className="mb-2 text-sm font-semibold">{t("groups_title")}</h4>
+            {constraints.groups.length === 0 && (
+              <p className="mb-2 text-xs text-muted-foreground">{t("groups_empty")}</p>
+            )}
+            <div className="space-y-3">
+              {constraints.groups.map((group) => {
+                const hasIssue = issues.some((iss) => iss.groupId === group.id);
+                return (
+                  <div
+                    key={group.id}
+                    className={cn(
+                      "rounded-lg border p-3",
+                      hasIssue ? "border-destructive/50" : "border-border"
+                    )}
+                  >
+                    <div className="mb-2 flex items-center gap-2">
+                      <Input
+                        value={group.label}
+                        onChange={(e) => updateGroup(group.id, { label: e.target.value })}
+                        placeholder={t("group_label")}
+                        className="h-8 flex-1"
+                      />
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        step={1}
+                        value={formatPercent(group.min)}
+                        onChange={(e) => updateGroup(group.id, { min: parsePercent(e.target.value) })}
+                        placeholder={t("min")}
+                        className="h-8 w-20 text-right"
+                      />
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        step={1}
+                        value={formatPercent(group.max)}
+                        onChange={(e) => updateGroup(group.id, { max: parsePercent(e.target.value) })}
+                        placeholder={t("max")}
+                        className="h-8 w-20 text-right"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeGroup(group.id)}
+                        aria-label={t("remove_group")}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                    <div className="flex flex-wrap gap-1.5">
+                      {TRAINING_DIRECTIONS.map((dir) => {
+                        const selected = group.directionKeys.includes(dir.key);
+                        return (
+                          <button
+                            key={dir.key}
+                            onClick={() => toggleGroupDirection(group, dir.key)}
+                            className={cn(
+                              "rounded-md border px-2 py-1 text-xs transition-colors",
+                              selected
+                                ? "border-primary bg-primary/10 text-primary"
+                                : "border-border text-muted-foreground hover:bg-muted"
+                            )}
+                          >
+                            {dirName(dir.key)}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {issues.length > 0 && (
+            <ul className="space-y-1 rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-xs text-destructive">
+              {issues.map((issue, i) => (
+                <li key={i} className="flex items-start gap-1.5">
+                  <AlertCircle className="mt-0.5 h-3 w-3 shrink-0" />
+                  {issueText(issue)}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex gap-2">
+            <Button variant="secondary" size="sm" onClick={addGroup}>
+              <Plus className="h-3.5 w-3.5" />
+              {t("add_group")}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(createDefaultPortfolioConstraints())}
+            >
+              <RotateCcw className="h-3.5 w-3.5" />
+              {t("reset")}
+            </Button>
+          </div>
+        </div>
+      </Collapsible>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { Plus, Trash2, MessageSquareQuote } from "lucide-react";
+import {
+  TRAINING_DIRECTIONS,
+  type ExpertView,
+  type TrainingDirectionKey,
+} from "@/lib/engine/portfolio-types";
+import { Collapsible } from "@/components/ui/Collapsible";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+
+interface ExpertViewsEditorProps {
+  views: ExpertView[];
+  locale: string;
+  onChange: (views: ExpertView[]) => void;
+}
+
+const SELECT_CLASS =
+  "h-8 rounded-lg border border-border bg-background px-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring";
+
+export default function ExpertViewsEditor({
+  views,
+  locale,
+  onChange,
+}: ExpertViewsEditorProps) {
+  const t = useTranslations("portfolio.views");
+
+  const dirLabel = (key: TrainingDirectionKey) => {
+    const dir = TRAINING_DIRECTIONS.find((d) => d.key === key);
+    if (!dir) return key;
+    return locale === "el" ? dir.name_el : dir.name;
+  };
+
+  const updateView = (id: string, patch: Partial<ExpertView>) => {
+    onChange(views.map((v) => (v.id === id ? { ...v, ...patch } : v)));
+  };
+
+  const addView = () => {
+    onChange([
+      ...views,
+      {
+        id: `view-${Date.now().toString(36)}`,
+        kind: "absolute",
+        directionKey: TRAINING_DIRECTIONS[0].key,
+        value: 0.3,
+        confidence: 0.5,
+      },
+    ]);
+  };
+
+  return (
+    <div className="mb-8 rounded-xl border border-border bg-card">
+      <Collapsible
+        defaultOpen={views.length > 0}
+        triggerClassName="rounded-xl px-6 py-4"
+        trigger={
+          <span className="flex flex-1 items-center justify-between gap-2">
+            <span className="flex items-center gap-2 text-sm font-semibold">
+              <MessageSquareQuote className="h-4 w-4 text-primary" />
+              {t("title")}
+            </span>
+            {views.length > 0 && (
+              <span className="text-xs text-muted-foreground">
+                {t("view_count", { count: views.length })}
+              </span>
+            )}
+          </span>
+        }
+      >
+        <div className="space-y-4 border-t border-border px-6 py-4">
+          <p className="text-xs text-muted-foreground">{t("hint")}</p>
+
+          {views.map((view) => (
+            <div key={view.id} className="space-y-2 rounded-lg border border-border p-3">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <select
+                  value={view.kind}
+                  onChange={(e) => {
+                    const kind = e.target.value as ExpertView["kind"];
+                    const versusKey =
+                      kind === "relative"
+                        ? TRAINING_DIRECTIONS.find((d) => d.key !== view.directionKey)?.key
+                        : undefined;
+                    updateView(view.id, { kind, versusKey, value: kind === "relative" ? 0.1 : 0.3 });
+                  }}
+                  className={SELECT_CLASS}
+                >
+                  <option value="absolute">{t("absolute")}</option>
+                  <option value="relative">{t("relative")}</option>
+                </select>
+                <select
+                  value={view.directionKey}
+                  onChange={(e) =>
+                    updateView(view.id, { directionKey: e.target.value as TrainingDirectionKey })
+                  }
+                  className={SELECT_CLASS}
+                >
+                  {TRAINING_DIRECTIONS.map((d) => (
+                    <option key={d.key} value={d.key}>
+                      {dirLabel(d.key)}
+                    </option>
+                  ))}
+                </select>
+                {view.kind === "relative" ? (
+                  <>
+                    <span className="text-muted-foreground">{t("outperforms")}</span>
+                    <select
+                      value={view.versusKey}
+                      onChange={(e) =>
+                        updateView(view.id, { versusKey: e.target.value as TrainingDirectionKey })
+                      }
+                      className={SELECT_CLASS}
+                    >
+                      {TRAINING_DIRECTIONS.filter((d) => d.key !== view.directionKey).map((d) => (
+                        <option key={d.key} value={d.key}>
+                          {dirLabel(d.key)}
+                        </option>
+                      ))}
+                    </select>
+                    <span className="text-muted-foreground">{t("by")}</span>
+                  </>
+                ) : (
+                  <span className="text-muted-foreground">{t("returns")}</span>
+                )}
+                <Input
+                  type="number"
+                  step={1}
+                  value={Math.round(view.value * 1000) / 10}
+                  onChange={(e) =>
+                    updateView(view.id, { value: (parseFloat(e.target.value) || 0) / 100 })
+                  }
+                  className="h-8 w-20 text-right"
+                />
+                <span className="text-muted-foreground">% ±</span>
+                <Input
+                  type="number"
+                  min={0}
+                  step={1}
+                  placeholder={t("uncertainty_placeholder")}
+                  value={view.uncertainty !== undefined ? Math.round(view.uncertainty * 1000) / 10 : ""}
+                  onChange={(e) =>
+                    updateView(view.id, {
+                      uncertainty:
+                        e.target.value.trim() === ""
+                          ? undefined
+                          : Math.abs(parseFloat(e.target.value) || 0) / 100,
+                    })
+                  }
+                  className="h-8 w-20 text-right"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="ml-auto"
+                  onClick={() => onChange(views.filter((v) => v.id !== view.id))}
+                  aria-label={t("remove")}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+              <div className="flex items-center gap-3">
+                <span className="w-24 shrink-0 text-xs text-muted-foreground">
+                  {t("confidence")}
+                </span>
+                <input
+                  type="range"
+                  min={0.05}
+                  max={0.95}
+                  step={0.05}
+                  value={view.confidence}
+                  disabled={view.uncertainty !== undefined}
+                  onChange={(e) =>
+                    updateView(view.id, { confidence: parseFloat(e.target.value) })
+                  }
+                  className="flex-1 accent-primary disabled:opacity-40"
+                />
+                <span className="w-12 text-right text-xs font-medium">
+                  {(view.confidence * 100).toFixed(0)}%
+                </span>
+              </div>
+            </div>
+          ))}
+
+          <Button variant="secondary" size="sm" onClick={addView}>
+            <Plus className="h-3.5 w-3.5" />
+            {t("add")}
+          </Button>
+        </div>
+      </Collapsible>
+    </div>
+  );
+}
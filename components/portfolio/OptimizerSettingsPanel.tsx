@@ -0,0 +1,444 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { Settings2, RotateCcw } from "lucide-react";
+import {
+  TRAINING_DIRECTIONS,
+  MIN_COURSE_WEIGHT,
+  DEFAULT_RETURN_MODEL,
+  COVARIANCE_ESTIMATORS,
+  createDefaultOptimizerSettings,
+  type OptimizerSettings,
+  type MomentumSettings,
+  type ReturnTrend,
+  type ResamplingSettings,
+  type CardinalitySettings,
+  type ReturnModelCoefficients,
+  type RiskMeasure,
+  type CovarianceEstimator,
+} from "@/lib/engine/portfolio-types";
+import { Collapsible } from "@/components/ui/Collapsible";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { cn } from "@/lib/utils";
+import ReturnsComparison from "./ReturnsComparison";
+
+interface OptimizerSettingsPanelProps {
+  settings: OptimizerSettings;
+  locale: string;
+  /** Expected returns under the default and the edited return model. */
+  returnsPreview?: { baseline: number[]; preview: number[] };
+  onChange: (settings: OptimizerSettings) => void;
+}
+
+const RETURN_MODEL_FIELDS: Array<{ key: keyof ReturnModelCoefficients; step: number; max?: number }> = [
+  { key: "coverageWeight", step: 0.05 },
+  { key: "rarityWeight", step: 0.05 },
+  { key: "breadthWeight", step: 0.05 },
+  { key: "rarityPremium", step: 0.1 },
+  { key: "affinityThreshold", step: 0.05, max: 1 },
+];
+
+const SELECT_CLASS =
+  "h-8 rounded-lg border border-border bg-background px-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring";
+
+export default function OptimizerSettingsPanel({
+  settings,
+  locale,
+  returnsPreview,
+  onChange,
+}: OptimizerSettingsPanelProps) {
+  const t = useTranslations("portfolio.settings");
+  const resampling = settings.resampling;
+
+  const updateResampling = (patch: Partial<ResamplingSettings>) => {
+    onChange({ ...settings, resampling: { ...resampling, ...patch } });
+  };
+
+  const updateCardinality = (patch: Partial<CardinalitySettings>) => {
+    const cardinality = { ...settings.cardinality, ...patch };
+    onChange({
+      ...settings,
+      cardinality,
+      // The course limit reshapes the plain mean-variance frontier only
+      ...(cardinality.enabled && {
+        strategy: "mean_variance",
+        resampling: { ...resampling, enabled: false },
+      }),
+    });
+  };
+
+  const updateMomentum = (patch: Partial<MomentumSettings>) => {
+    onChange({ ...settings, momentum: { ...settings.momentum, ...patch } });
+  };
+
+  const setCoefficient = (key: keyof ReturnModelCoefficients, raw: string, max?: number) => {
+    const value = Math.max(0, parseFloat(raw) || 0);
+    onChange({
+      ...settings,
+      returnModel: { ...settings.returnModel, [key]: max !== undefined ? Math.min(max, value) : value },
+    });
+  };
+
+  return (
+    <div className="mb-8 rounded-xl border border-border bg-card">
+      <Collapsible
+        defaultOpen={resampling.enabled || settings.cardinality.enabled}
+        triggerClassName="rounded-xl px-6 py-4"
+        trigger={
+          <span className="flex items-center gap-2 text-sm font-semibold">
+            <Settings2 className="h-4 w-4 text-primary" />
+            {t("title")}
+          </span>
+        }
+      >
+        <div className="space-y-6 border-t border-border px-6 py-4">
+          {/* Risk measure */}
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              <label className="flex items-center gap-2">
+                <span className="font-medium">{t("risk_measure")}</span>
+                <select
+                  value={settings.riskMeasure}
+                  onChange={(e) => {
+                    const riskMeasure = e.target.value as RiskMeasure;
+                    onChange({
+                      ...settings,
+                      riskMeasure,
+                      // Resampling is variance-only
+                      resampling:
+                        riskMeasure === "cvar" ? { ...resampling, enabled: false } : resampling,
+                      cardinality:
+                        riskMeasure === "cvar"
+                          ? { ...settings.cardinality, enabled: false }
+                          : settings.cardinality,
+                    });
+                  }}
+                  className={SELECT_CLASS}
+                >
+                  <option value="variance">{t("measure_variance")}</option>
+                  <option value="cvar">{t("measure_cvar")}</option>
+                </select>
+              </label>
+              {settings.riskMeasure === "cvar" && (
+                <label className="flex items-center gap-2">
+                  <span className="text-muted-foreground">{t("cvar_confidence")}</span>
+                  <Input
+                    type="number"
+                    min={50}
+                    max={99}
+                    step={1}
+                    value={Math.round(settings.cvarConfidence * 100)}
+                    onChange={(e) =>
+                      onChange({
+                        ...settings,
+                        cvarConfidence:
+                          Math.max(50, Math.min(99, parseFloat(e.target.value) || 90)) / 100,
+                      })
+                    }
+                    className="h-8 w-20 text-right"
+                  />
+                </label>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {settings.riskMeasure === "cvar" ? t("cvar_hint") : t("variance_hint")}
+            </p>
+            <label className="flex items-center gap-2 text-sm">
+              <span className="font-medium">{t("covariance_estimator")}</span>
+              <select
+                value={settings.covarianceEstimator}
+                onChange={(e) =>
+                  onChange({ ...settings, covarianceEstimator: e.target.value as CovarianceEstimator })
+                }
+                className={SELECT_CLASS}
+              >
+                {COVARIANCE_ESTIMATORS.map((estimator) => (
+                  <option key={estimator} value={estimator}>
+                    {t(`estimator_${estimator}`)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <p className="text-xs text-muted-foreground">
+              {t(`estimator_${settings.covarianceEstimator}_hint`)}
+            </p>
+          </div>
+
+          {/* Resampled frontier */}
+          <div className="space-y-3 border-t border-border pt-4">
+            <label
+              className={cn(
+                "flex items-center gap-2 text-sm font-medium",
+                (settings.riskMeasure === "cvar" || settings.cardinality.enabled) && "opacity-50"
+              )}
+            >
+              <input
+                type="checkbox"
+                checked={resampling.enabled}
+                disabled={settings.riskMeasure === "cvar" || settings.cardinality.enabled}
+                onChange={(e) => updateResampling({ enabled: e.target.checked })}
+                className="accent-primary"
+              />
+              {t("resampling")}
+            </label>
+            <p className="text-xs text-muted-foreground">
+              {settings.riskMeasure === "cvar" ? t("resampling_variance_only") : t("resampling_hint")}
+            </p>
+            {resampling.enabled && (
+              <div className="flex flex-wrap items-center gap-4 text-sm">
+                <label className="flex items-center gap-2">
+                  <span className="text-muted-foreground">{t("method")}</span>
+                  <select
+                    value={resampling.method}
+                    onChange={(e) =>
+                      updateResampling({ method: e.target.value as ResamplingSettings["method"] })
+                    }
+                    className={SELECT_CLASS}
+                  >
+                    <option value="perturb">{t("method_perturb")}</option>
+                    <option value="bootstrap">{t("method_bootstrap")}</option>
+                  </select>
+                </label>
+                <label className="flex items-center gap-2">
+                  <span className="text-muted-foreground">{t("simulations")}</span>
+                  <Input
+                    type="number"
+                    min={10}
+                    max={500}
+                    step={10}
+                    value={resampling.simulations}
+                    onChange={(e) =>
+                      updateResampling({
+                        simulations: Math.max(10, Math.min(500, parseInt(e.target.value) || 10)),
+                      })
+                    }
+                    className="h-8 w-20 text-right"
+                  />
+                </label>
+                {resampling.method === "perturb" && (
+                  <label className="flex items-center gap-2">
+                    <span className="text-muted-foreground">{t("noise")}</span>
+                    <Input
+                      type="number"
+                      min={0.01}
+                      max={0.5}
+                      step={0.01}
+                      value={resampling.noise}
+                      onChange={(e) =>
+                        updateResampling({
+                          noise: Math.max(0.01, Math.min(0.5, parseFloat(e.target.value) || 0.01)),
+                        })
+                      }
+                      className="h-8 w-20 text-right"
+                    />
+                  </label>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Course limit */}
+          <div className="space-y-3 border-t border-border pt-4">
+            <label
+              className={cn(
+                "flex items-center gap-2 text-sm font-medium",
+                settings.riskMeasure === "cvar" && "opacity-50"
+              )}
+            >
+              <input
+                type="checkbox"
+                checked={settings.cardinality.enabled}
+                disabled={settings.riskMeasure === "cvar"}
+                onChange={(e) => updateCardinality({ enabled: e.target.checked })}
+                className="accent-primary"
+              />
+              {t("cardinality")}
+            </label>
+            <p className="text-xs text-muted-foreground">{t("cardinality_hint")}</p>
+            {settings.cardinality.enabled && (
+              <div className="flex flex-wrap items-center gap-4 text-sm">
+                <label className="flex items-center gap-2">
+                  <span className="text-muted-foreground">{t("max_assets")}</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={TRAINING_DIRECTIONS.length}
+                    step={1}
+                    value={settings.cardinality.maxAssets}
+                    onChange={(e) =>
+                      updateCardinality({
+                        maxAssets: Math.max(
+                          1,
+                          Math.min(TRAINING_DIRECTIONS.length, parseInt(e.target.value) || 1)
+                        ),
+                      })
+                    }
+                    className="h-8 w-20 text-right"
+                  />
+                </label>
+                <label className="flex items-center gap-2">
+                  <span className="text-muted-foreground">{t("min_position")}</span>
+                  <Input
+                    type="number"
+                    min={MIN_COURSE_WEIGHT * 100}
+                    max={100}
+                    step={1}
+                    value={Math.round(settings.cardinality.minPosition * 1000) / 10}
+                    onChange={(e) =>
+                      updateCardinality({
+                        minPosition:
+                          Math.max(
+                            MIN_COURSE_WEIGHT * 100,
+                            Math.min(100, parseFloat(e.target.value) || 0)
+                          ) / 100,
+                      })
+                    }
+                    className="h-8 w-20 text-right"
+                  />
+                </label>
+              </div>
+            )}
+          </div>
+
+          {/* Return model */}
+          <div className="space-y-3 border-t border-border pt-4">
+            <div>
+              <h4 className="text-sm font-semibold">{t("return_model")}</h4>
+              <p className="text-xs text-muted-foreground">{t("return_model_hint")}</p>
+            </div>
+            <div className="grid gap-3 sm:grid-cols-3">
+              {RETURN_MODEL_FIELDS.map(({ key, step, max }) => (
+                <label key={key} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="text-muted-foreground">{t(`coefficients.${key}`)}</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={max}
+                    step={step}
+                    value={settings.returnModel[key]}
+                    onChange={(e) => setCoefficient(key, e.target.value, max)}
+                    className="h-8 w-20 text-right"
+                  />
+                </label>
+              ))}
+              <label className="flex items-center justify-between gap-2 text-sm">
+                <span className="text-muted-foreground">{t("risk_free_rate")}</span>
+                <Input
+                  type="number"
+                  step={0.5}
+                  value={Math.round(settings.riskFreeRate * 1000) / 10}
+                  onChange={(e) =>
+                    onChange({ ...settings, riskFreeRate: (parseFloat(e.target.value) || 0) / 100 })
+                  }
+                  className="h-8 w-20 text-right"
+                />
+              </label>
+            </div>
+            <p className="text-xs text-muted-foreground">{t("risk_free_rate_hint")}</p>
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              <label className="flex items-center gap-2">
+                <span className="font-medium">{t("return_trend")}</span>
+                <select
+                  value={settings.returnTrend}
+                  onChange={(e) =>
+                    onChange({ ...settings, returnTrend: e.target.value as ReturnTrend })
+                  }
+                  className={SELECT_CLASS}
+                >
+                  <option value="static">{t("trend_static")}</option>
+                  <option value="momentum">{t("trend_momentum")}</option>
+                </select>
+              </label>
+              {settings.returnTrend === "momentum" && (
+                <>
+                  <label className="flex items-center gap-2">
+                    <span className="text-muted-foreground">{t("momentum_window")}</span>
+                    <Input
+                      type="number"
+                      min={2}
+                      max={20}
+                      step={1}
+                      value={settings.momentum.windowYears}
+                      onChange={(e) =>
+                        updateMomentum({
+                          windowYears: Math.max(2, Math.min(20, parseInt(e.target.value) || 2)),
+                        })
+                      }
+                      className="h-8 w-20 text-right"
+                    />
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <span className="text-muted-foreground">{t("momentum_strength")}</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={3}
+                      step={0.1}
+                      value={settings.momentum.strength}
+                      onChange={(e) =>
+                        updateMomentum({
+                          strength: Math.max(0, Math.min(3, parseFloat(e.target.value) || 0)),
+                        })
+                      }
+                      className="h-8 w-20 text-right"
+                    />
+                  </label>
+                </>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {settings.returnTrend === "momentum" ? t("trend_momentum_hint") : t("trend_static_hint")}
+            </p>
+            {returnsPreview && (
+              <ReturnsComparison
+                priorReturns={returnsPreview.baseline}
+                posteriorReturns={returnsPreview.preview}
+                locale={locale}
+                labels={{ before: t("default_model"), after: t("your_model") }}
+              />
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                onChange({
+                  ...settings,
+                  returnModel: { ...DEFAULT_RETURN_MODEL },
+                  returnTrend: "static",
+                  momentum: createDefaultOptimizerSettings().momentum,
+                  riskFreeRate: 0,
+                })
+              }
+            >
+              <RotateCcw className="h-3.5 w-3.5" />
+              {t("reset_model")}
+            </Button>
+          </div>
+
+          {/* Topic-level allocation */}
+          <div className="space-y-2 border-t border-border pt-4">
+            <label className="flex items-center gap-2 text-sm">
+              <span className="font-medium">{t("topic_rarity_tilt")}</span>
+              <Input
+                type="number"
+                min={0}
+                max={5}
+                step={0.1}
+                value={settings.topicRarityTilt}
+                onChange={(e) =>
+                  onChange({
+                    ...settings,
+                    topicRarityTilt: Math.max(0, Math.min(5, parseFloat(e.target.value) || 0)),
+                  })
+                }
+                className="h-8 w-20 text-right"
+              />
+            </label>
+            <p className="text-xs text-muted-foreground">{t("topic_rarity_tilt_hint")}</p>
+          </div>
+        </div>
+      </Collapsible>
+    </div>
+  );
+}
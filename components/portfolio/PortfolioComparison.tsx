@@ -0,0 +1,208 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Check, Pencil, Trash2, X } from "lucide-react";
+import { DIRECTION_COLORS, TRAINING_DIRECTIONS } from "@/lib/engine/portfolio-types";
+import type { SavedPortfolio } from "@/lib/project-manager";
+import { Badge } from "@/components/ui/Badge";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { cn } from "@/lib/utils";
+
+/** Colors for saved portfolios overlaid on the radar and frontier, in overlay order. */
+export const OVERLAY_COLORS = [
+  "var(--accent)",
+  "var(--success)",
+  "var(--danger)",
+  "var(--secondary)",
+] as const;
+
+interface PortfolioComparisonProps {
+  portfolios: SavedPortfolio[];
+  activeId: string | null;
+  overlayIds: string[];
+  locale: string;
+  onToggleOverlay: (id: string) => void;
+  onActivate: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+/**
+ * Saved portfolios side by side, each metric shown with its difference
+ * from the active one, which is the portfolio course generation uses.
+ */
+export default function PortfolioComparison({
+  portfolios,
+  activeId,
+  overlayIds,
+  locale,
+  onToggleOverlay,
+  onActivate,
+  onRename,
+  onDelete,
+}: PortfolioComparisonProps) {
+  const t = useTranslations("portfolio.saved");
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const active = portfolios.find((p) => p.id === activeId)?.result.selectedPortfolio;
+
+  const delta = (value: number, base: number | undefined, scale: number, digits: number) => {
+    if (base === undefined || Math.abs(value - base) * scale < 0.5 * 10 ** -digits) return null;
+    const diff = (value - base) * scale;
+    return `${diff > 0 ? "+" : "−"}${Math.abs(diff).toFixed(digits)}`;
+  };
+
+  const metric = (value: number, base: number | undefined, scale: number, digits: number, unit = "") => {
+    const d = delta(value, base, scale, digits);
+    return (
+      <>
+        {(value * scale).toFixed(digits)}
+        {unit}
+        {d && <div className="text-xs text-muted-foreground">{d}</div>}
+      </>
+    );
+  };
+
+  const commitRename = () => {
+    if (editing) onRename(editing.id, editing.name);
+    setEditing(null);
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-border text-xs uppercase tracking-wider text-muted-foreground">
+            <th className="py-2 text-left font-semibold">{t("overlay")}</th>
+            <th className="py-2 text-left font-semibold">{t("name")}</th>
+            <th className="py-2 text-left font-semibold">{t("weights")}</th>
+            <th className="py-2 text-right font-semibold">{t("return")}</th>
+            <th className="py-2 text-right font-semibold">{t("risk")}</th>
+            <th className="py-2 text-right font-semibold">{t("sharpe")}</th>
+            <th className="py-2 text-right font-semibold">{t("diversification")}</th>
+            <th className="py-2" />
+          </tr>
+        </thead>
+        <tbody>
+          {portfolios.map((p) => {
+            const isActive = p.id === activeId;
+            const overlayIdx = overlayIds.indexOf(p.id);
+            const sel = p.result.selectedPortfolio;
+            return (
+              <tr
+                key={p.id}
+                className={cn("border-b border-border/50 last:border-0", isActive && "bg-primary/5")}
+              >
+                <td className="py-2">
+                  {isActive ? (
+                    <span
+                      className="inline-block h-2.5 w-2.5 rounded-full bg-primary"
+                      title={t("shown")}
+                    />
+                  ) : (
+                    <label className="flex items-center gap-1.5">
+                      <input
+                        type="checkbox"
+                        className="accent-primary"
+                        checked={overlayIdx >= 0}
+                        disabled={overlayIdx < 0 && overlayIds.length >= OVERLAY_COLORS.length}
+                        onChange={() => onToggleOverlay(p.id)}
+                      />
+                      {overlayIdx >= 0 && (
+                        <span
+                          className="h-2.5 w-2.5 rounded-full"
+                          style={{ backgroundColor: OVERLAY_COLORS[overlayIdx] }}
+                        />
+                      )}
+                    </label>
+                  )}
+                </td>
+                <td className="py-2">
+                  {editing?.id === p.id ? (
+                    <div className="flex items-center gap-1">
+                      <Input
+                        className="h-8 w-40"
+                        value={editing.name}
+                        autoFocus
+                        onChange={(e) => setEditing({ id: p.id, name: e.target.value })}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") commitRename();
+                          if (e.key === "Escape") setEditing(null);
+                        }}
+                      />
+                      <Button variant="ghost" size="sm" onClick={commitRename} title={t("rename")}>
+                        <Check className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setEditing(null)}>
+                        <X className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{p.name}</span>
+                      {isActive && <Badge>{t("active")}</Badge>}
+                    </div>
+                  )}
+                  <div className="text-xs text-muted-foreground">
+                    {new Date(p.savedAt).toLocaleString(locale)}
+                  </div>
+                </td>
+                <td className="py-2">
+                  <div className="flex h-2.5 w-24 overflow-hidden rounded-full bg-muted">
+                    {TRAINING_DIRECTIONS.map((dir, d) => (
+                      <span
+                        key={dir.key}
+                        title={`${locale === "el" ? dir.name_el : dir.name}: ${((sel.weights[d] ?? 0) * 100).toFixed(0)}%`}
+                        style={{
+                          width: `${(sel.weights[d] ?? 0) * 100}%`,
+                          backgroundColor: DIRECTION_COLORS[d],
+                        }}
+                      />
+                    ))}
+                  </div>
+                </td>
+                <td className="py-2 text-right">
+                  {metric(sel.expectedReturn, isActive ? undefined : active?.expectedReturn, 100, 1, "%")}
+                </td>
+                <td className="py-2 text-right">
+                  {metric(sel.risk, isActive ? undefined : active?.risk, 100, 1, "%")}
+                </td>
+                <td className="py-2 text-right">
+                  {metric(sel.sharpeRatio, isActive ? undefined : active?.sharpeRatio, 1, 2)}
+                </td>
+                <td className="py-2 text-right">
+                  {metric(
+                    sel.diversificationScore,
+                    isActive ? undefined : active?.diversificationScore,
+                    100,
+                    0,
+                    "%"
+                  )}
+                </td>
+                <td className="py-2 pl-3 text-right whitespace-nowrap">
+                  {!isActive && (
+                    <Button variant="ghost" size="sm" onClick={() => onActivate(p.id)}>
+                      {t("activate")}
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title={t("rename")}
+                    onClick={() => setEditing({ id: p.id, name: p.name })}
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button variant="ghost" size="sm" title={t("delete")} onClick={() => onDelete(p.id)}>
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { TRAINING_DIRECTIONS, DIRECTION_COLORS } from "@/lib/engine/portfolio-types";
+import { cn } from "@/lib/utils";
+
+interface ReturnsComparisonProps {
+  priorReturns: number[];
+  posteriorReturns: number[];
+  locale: string;
+  labels?: { before: string; after: string };
+}
+
+/**
+ * Literature-only (prior) vs. view-adjusted (posterior) expected returns,
+ * or any other before/after pair of return vectors via `labels`.
+ */
+export default function ReturnsComparison({
+  priorReturns,
+  posteriorReturns,
+  locale,
+  labels,
+}: ReturnsComparisonProps) {
+  const t = useTranslations("portfolio.returns");
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b border-border text-xs uppercase tracking-wider text-muted-foreground">
+          <th className="py-2 text-left font-semibold">{t("direction")}</th>
+          <th className="py-2 text-right font-semibold">{labels?.before ?? t("prior")}</th>
+          <th className="py-2 text-right font-semibold">{labels?.after ?? t("posterior")}</th>
+          <th className="py-2 text-right font-semibold">{t("change")}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {TRAINING_DIRECTIONS.map((dir, i) => {
+          const prior = priorReturns[i] ?? 0;
+          const posterior = posteriorReturns[i] ?? prior;
+          const delta = posterior - prior;
+          return (
+            <tr key={dir.key} className="border-b border-border/50 last:border-0">
+              <td className="py-2">
+                <span className="flex items-center gap-2">
+                  <span
+                    className="h-2.5 w-2.5 shrink-0 rounded-full"
+                    style={{ backgroundColor: DIRECTION_COLORS[i] }}
+                  />
+                  {locale === "el" ? dir.name_el : dir.name}
+                </span>
+              </td>
+              <td className="py-2 text-right">{(prior * 100).toFixed(1)}%</td>
+              <td className="py-2 text-right font-medium">{(posterior * 100).toFixed(1)}%</td>
+              <td
+                className={cn(
+                  "py-2 text-right text-xs",
+                  Math.abs(delta) < 5e-4
+                    ? "text-muted-foreground"
+                    : delta > 0
+                      ? "text-success"
+                      : "text-danger"
+                )}
+              >
+                {delta >= 0 ? "+" : ""}
+                {(delta * 100).toFixed(1)}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
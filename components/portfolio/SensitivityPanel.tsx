@@ -0,0 +1,162 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Loader2, Microscope } from "lucide-react";
+import {
+  TRAINING_DIRECTIONS,
+  DIRECTION_COLORS,
+  type TrainingDirectionKey,
+  type ReturnModelCoefficients,
+} from "@/lib/engine/portfolio-types";
+import { Button } from "@/components/ui/Button";
+import { cn } from "@/lib/utils";
+
+export interface SensitivityDriverRow {
+  kind: "affinity" | "coefficient";
+  topicNumber?: number;
+  topicName?: string;
+  scoredDirection?: TrainingDirectionKey;
+  coefficient?: keyof ReturnModelCoefficients;
+  value: number;
+  sensitivity: number; // ∂weight / ∂input
+}
+
+export interface SensitivityResult {
+  weights: number[];
+  topDrivers: Record<string, SensitivityDriverRow[]>;
+}
+
+interface SensitivityPanelProps {
+  result: SensitivityResult | null;
+  loading: boolean;
+  error: string | null;
+  locale: string;
+  onRun: () => void;
+}
+
+/** Shown per +0.1 of the input, the smallest change a reviewer would discuss. */
+const DISPLAY_STEP = 0.1;
+
+export default function SensitivityPanel({
+  result,
+  loading,
+  error,
+  locale,
+  onRun,
+}: SensitivityPanelProps) {
+  const t = useTranslations("portfolio.sensitivity");
+  const tc = useTranslations("portfolio.settings.coefficients");
+  const [directionIdx, setDirectionIdx] = useState(0);
+
+  const dirName = (key: TrainingDirectionKey) => {
+    const dir = TRAINING_DIRECTIONS.find((d) => d.key === key);
+    if (!dir) return key;
+    return locale === "el" ? dir.name_el : dir.name;
+  };
+
+  const direction = TRAINING_DIRECTIONS[directionIdx];
+  const drivers = result?.topDrivers[direction.key] ?? [];
+  const maxAbs = Math.max(...drivers.map((d) => Math.abs(d.sensitivity)), 1e-9);
+
+  return (
+    <div>
+      <div className="mb-4 flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h3 className="mb-1 flex items-center gap-2 font-semibold">
+            <Microscope className="h-4 w-4 text-primary" />
+            {t("title")}
+          </h3>
+          <p className="text-xs text-muted-foreground">{t("hint")}</p>
+        </div>
+        <Button variant="secondary" size="sm" onClick={onRun} disabled={loading}>
+          {loading && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+          {result ? t("rerun") : t("run")}
+        </Button>
+      </div>
+
+      {error && <p className="mb-3 text-sm text-destructive">{error}</p>}
+
+      {result && (
+        <>
+          <div className="mb-4 flex flex-wrap gap-1.5">
+            {TRAINING_DIRECTIONS.map((dir, i) => (
+              <button
+                key={dir.key}
+                onClick={() => setDirectionIdx(i)}
+                className={cn(
+                  "flex items-center gap-1.5 rounded-md border px-2 py-1 text-xs transition-colors",
+                  i === directionIdx
+                    ? "border-primary bg-primary/10 text-primary"
+                    : "border-border text-muted-foreground hover:bg-muted"
+                )}
+              >
+                <span
+                  className="h-2 w-2 rounded-full"
+                  style={{ backgroundColor: DIRECTION_COLORS[i] }}
+                />
+                {dirName(dir.key)}
+              </button>
+            ))}
+          </div>
+
+          <p className="mb-3 text-sm">
+            {t("weight_is", {
+              name: dirName(direction.key),
+              weight: ((result.weights[directionIdx] ?? 0) * 100).toFixed(1),
+            })}
+          </p>
+
+          {drivers.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t("no_drivers")}</p>
+          ) : (
+            <ul className="space-y-2">
+              {drivers.map((driver, i) => {
+                const effect = driver.sensitivity * DISPLAY_STEP * 100;
+                return (
+                  <li key={i} className="flex items-center gap-3 text-sm">
+                    <div className="min-w-0 flex-1">
+                      <div className="truncate">
+                        {driver.kind === "affinity"
+                          ? driver.topicName ?? t("topic", { n: driver.topicNumber ?? "" })
+                          : tc(driver.coefficient ?? "coverageWeight")}
+                      </div>
+                      <div className="truncate text-xs text-muted-foreground">
+                        {driver.kind === "affinity" && driver.scoredDirection
+                          ? t("affinity_for", {
+                              name: dirName(driver.scoredDirection),
+                              value: driver.value.toFixed(2),
+                            })
+                          : t("coefficient_value", { value: driver.value.toFixed(2) })}
+                      </div>
+                    </div>
+                    {/* Signed bar: right of centre raises the weight, left lowers it */}
+                    <div className="relative h-2 w-32 shrink-0 rounded-full bg-muted">
+                      <div className="absolute inset-y-0 left-1/2 w-px bg-border" />
+                      <div
+                        className={cn(
+                          "absolute inset-y-0 rounded-full",
+                          driver.sensitivity >= 0 ? "left-1/2 bg-success" : "right-1/2 bg-danger"
+                        )}
+                        style={{ width: `${(Math.abs(driver.sensitivity) / maxAbs) * 50}%` }}
+                      />
+                    </div>
+                    <span
+                      className={cn(
+                        "w-20 shrink-0 text-right text-xs font-medium",
+                        effect >= 0 ? "text-success" : "text-danger"
+                      )}
+                    >
+                      {effect >= 0 ? "+" : ""}
+                      {effect.toFixed(1)} pp
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
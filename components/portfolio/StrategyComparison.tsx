@@ -0,0 +1,101 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import type { AllocationStrategy } from "@/lib/engine/portfolio-types";
+import { Badge } from "@/components/ui/Badge";
+import { Button } from "@/components/ui/Button";
+import { cn } from "@/lib/utils";
+
+export interface StrategyRow {
+  strategy: AllocationStrategy;
+  weights: number[];
+  return_: number;
+  risk: number;
+  sharpeRatio: number;
+  hhi: number;
+  feasible: boolean;
+}
+
+interface StrategyComparisonProps {
+  strategies: StrategyRow[];
+  active: AllocationStrategy;
+  onSelect: (strategy: AllocationStrategy) => void;
+}
+
+/** Return, risk, Sharpe and concentration of every allocation strategy. */
+export default function StrategyComparison({
+  strategies,
+  active,
+  onSelect,
+}: StrategyComparisonProps) {
+  const t = useTranslations("portfolio.strategies");
+  const bestSharpe = Math.max(...strategies.filter((s) => s.feasible).map((s) => s.sharpeRatio));
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-border text-xs uppercase tracking-wider text-muted-foreground">
+            <th className="py-2 text-left font-semibold">{t("strategy")}</th>
+            <th className="py-2 text-right font-semibold">{t("return")}</th>
+            <th className="py-2 text-right font-semibold">{t("risk")}</th>
+            <th className="py-2 text-right font-semibold">{t("sharpe")}</th>
+            <th className="py-2 text-right font-semibold" title={t("hhi_hint")}>
+              {t("hhi")}
+            </th>
+            <th className="py-2" />
+          </tr>
+        </thead>
+        <tbody>
+          {strategies.map((row) => (
+            <tr
+              key={row.strategy}
+              className={cn(
+                "border-b border-border/50 last:border-0",
+                row.strategy === active && "bg-primary/5"
+              )}
+            >
+              <td className="py-2">
+                <div className="font-medium">{t(`names.${row.strategy}`)}</div>
+                <div className="text-xs text-muted-foreground">{t(`descriptions.${row.strategy}`)}</div>
+              </td>
+              {row.feasible ? (
+                <>
+                  <td className="py-2 text-right">{(row.return_ * 100).toFixed(1)}%</td>
+                  <td className="py-2 text-right">{(row.risk * 100).toFixed(1)}%</td>
+                  <td
+                    className={cn(
+                      "py-2 text-right",
+                      row.sharpeRatio === bestSharpe && "font-semibold text-success"
+                    )}
+                  >
+                    {row.sharpeRatio.toFixed(2)}
+                  </td>
+                  <td className="py-2 text-right">{row.hhi.toFixed(3)}</td>
+                </>
+              ) : (
+                <td colSpan={4} className="py-2 text-right text-xs text-destructive">
+                  {t("unsolved")}
+                </td>
+              )}
+              <td className="py-2 pl-3 text-right">
+                {row.strategy === active ? (
+                  <Badge>{t("active")}</Badge>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={!row.feasible}
+                    onClick={() => onSelect(row.strategy)}
+                  >
+                    {t("use")}
+                  </Button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,391 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { Plus, Trash2, Zap } from "lucide-react";
+import {
+  TRAINING_DIRECTIONS,
+  DIRECTION_COLORS,
+  type TopicInfo,
+  type StressScenario,
+  type StressShock,
+  type TopicSelector,
+} from "@/lib/engine/portfolio-types";
+import type { StressTestResult } from "@/lib/engine/stress";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { cn } from "@/lib/utils";
+
+interface StressTestPanelProps {
+  scenarios: StressScenario[];
+  results: StressTestResult[];
+  topics: TopicInfo[];
+  affinityMatrix: Record<number, number[]>;
+  locale: string;
+  onChange: (scenarios: StressScenario[]) => void;
+}
+
+const SELECT_CLASS =
+  "h-8 rounded-lg border border-border bg-background px-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring";
+
+const newId = (prefix: string) =>
+  `${prefix}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+function Delta({ before, after, digits = 1 }: { before: number; after: number; digits?: number }) {
+  const delta = (after - before) * 100;
+  return (
+    <span className="whitespace-nowrap">
+      {(before * 100).toFixed(digits)} → {(after * 100).toFixed(digits)}%{" "}
+      <span
+        className={cn(
+          "text-xs font-medium",
+          Math.abs(delta) < 0.05
+            ? "text-muted-foreground"
+            : delta > 0
+              ? "text-success"
+              : "text-danger"
+        )}
+      >
+        ({delta >= 0 ? "+" : ""}
+        {delta.toFixed(digits)} pp)
+      </span>
+    </span>
+  );
+}
+
+export default function StressTestPanel({
+  scenarios,
+  results,
+  topics,
+  affinityMatrix,
+  locale,
+  onChange,
+}: StressTestPanelProps) {
+  const t = useTranslations("portfolio.stress");
+  const activeTopics = topics.filter((tp) => tp.topicNumber !== -1);
+
+  const dirName = (i: number) =>
+    locale === "el" ? TRAINING_DIRECTIONS[i].name_el : TRAINING_DIRECTIONS[i].name;
+
+  const updateScenario = (id: string, patch: Partial<StressScenario>) => {
+    onChange(scenarios.map((s) => (s.id === id ? { ...s, ...patch } : s)));
+  };
+
+  const updateShock = (scenario: StressScenario, shockId: string, next: StressShock) => {
+    updateScenario(scenario.id, {
+      shocks: scenario.shocks.map((sh) => (sh.id === shockId ? next : sh)),
+    });
+  };
+
+  const countShock = (selector: TopicSelector, factor: number): StressShock => ({
+    id: newId("shock"),
+    kind: "count",
+    selector,
+    factor,
+  });
+
+  const affinityShock = (topicNumber: number): StressShock => ({
+    id: newId("shock"),
+    kind: "affinity",
+    topicNumber,
+    affinities: [...(affinityMatrix[topicNumber] ?? new Array(TRAINING_DIRECTIONS.length).fill(0))],
+  });
+
+  const largest = [...activeTopics].sort((a, b) => b.count - a.count)[0];
+  const presets: StressScenario[] = [
+    {
+      id: "",
+      name: t("preset_rare_vanish"),
+      shocks: [countShock({ by: "rarity", rarity: "RARE" }, 0)],
+    },
+    ...(largest
+      ? [
+          {
+            id: "",
+            name: t("preset_topic_doubles", { name: largest.name }),
+            shocks: [countShock({ by: "topics", topicNumbers: [largest.topicNumber] }, 2)],
+          },
+        ]
+      : []),
+    {
+      id: "",
+      name: t("preset_keyword_surge", { keyword: "regulation" }),
+      shocks: [countShock({ by: "keyword", keyword: "regulation" }, 3)],
+    },
+  ];
+
+  const addScenario = (template?: StressScenario) => {
+    onChange([
+      ...scenarios,
+      template
+        ? { ...template, id: newId("scenario") }
+        : {
+            id: newId("scenario"),
+            name: t("new_name", { n: scenarios.length + 1 }),
+            shocks: largest
+              ? [countShock({ by: "topics", topicNumbers: [largest.topicNumber] }, 2)]
+              : [],
+          },
+    ]);
+  };
+
+  const renderSelector = (scenario: StressScenario, shock: Extract<StressShock, { kind: "count" }>) => {
+    const setSelector = (selector: TopicSelector) => updateShock(scenario, shock.id, { ...shock, selector });
+    const { selector } = shock;
+    return (
+      <>
+        <select
+          value={selector.by}
+          onChange={(e) => {
+            const by = e.target.value as TopicSelector["by"];
+            setSelector(
+              by === "topics"
+                ? { by, topicNumbers: largest ? [largest.topicNumber] : [] }
+                : by === "rarity"
+                  ? { by, rarity: "RARE" }
+                  : { by, keyword: "" }
+            );
+          }}
+          className={SELECT_CLASS}
+        >
+          <option value="topics">{t("by_topics")}</option>
+          <option value="rarity">{t("by_rarity")}</option>
+          <option value="keyword">{t("by_keyword")}</option>
+        </select>
+        {selector.by === "topics" && (
+          <select
+            multiple
+            value={selector.topicNumbers.map(String)}
+            onChange={(e) =>
+              setSelector({
+                by: "topics",
+                topicNumbers: Array.from(e.target.selectedOptions, (o) => Number(o.value)),
+              })
+            }
+            className="h-20 min-w-48 max-w-xs rounded-lg border border-border bg-background px-2 text-xs focus:outline-none focus:ring-2 focus:ring-ring"
+          >
+            {activeTopics.map((tp) => (
+              <option key={tp.topicNumber} value={tp.topicNumber}>
+                T{tp.topicNumber} · {tp.name}
+              </option>
+            ))}
+          </select>
+        )}
+        {selector.by === "rarity" && (
+          <select
+            value={selector.rarity}
+            onChange={(e) =>
+              setSelector({ by: "rarity", rarity: e.target.value as "COMMON" | "RARE" })
+            }
+            className={SELECT_CLASS}
+          >
+            <option value="RARE">{t("rare")}</option>
+            <option value="COMMON">{t("common")}</option>
+          </select>
+        )}
+        {selector.by === "keyword" && (
+          <Input
+            value={selector.keyword}
+            placeholder={t("keyword_placeholder")}
+            onChange={(e) => setSelector({ by: "keyword", keyword: e.target.value })}
+            className="h-8 w-40"
+          />
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div>
+      <div className="mb-4 flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h3 className="mb-1 flex items-center gap-2 font-semibold">
+            <Zap className="h-4 w-4 text-primary" />
+            {t("title")}
+          </h3>
+          <p className="text-xs text-muted-foreground">{t("hint")}</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {presets.map((preset) => (
+            <Button key={preset.name} variant="ghost" size="sm" onClick={() => addScenario(preset)}>
+              <Plus className="h-3.5 w-3.5" />
+              {preset.name}
+            </Button>
+          ))}
+          <Button variant="secondary" size="sm" onClick={() => addScenario()}>
+            <Plus className="h-3.5 w-3.5" />
+            {t("add")}
+          </Button>
+        </div>
+      </div>
+
+      {scenarios.length === 0 && (
+        <p className="text-sm text-muted-foreground">{t("empty")}</p>
+      )}
+
+      <div className="space-y-4">
+        {scenarios.map((scenario) => {
+          const outcome = results.find((r) => r.scenarioId === scenario.id);
+          return (
+            <div key={scenario.id} className="space-y-3 rounded-lg border border-border p-4">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={scenario.name}
+                  onChange={(e) => updateScenario(scenario.id, { name: e.target.value })}
+                  className="h-8 flex-1 font-medium"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onChange(scenarios.filter((s) => s.id !== scenario.id))}
+                  aria-label={t("remove")}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+
+              {scenario.shocks.map((shock) => (
+                <div key={shock.id} className="flex flex-wrap items-center gap-2 text-sm">
+                  <select
+                    value={shock.kind}
+                    onChange={(e) =>
+                      updateShock(
+                        scenario,
+                        shock.id,
+                        e.target.value === "count"
+                          ? { ...countShock({ by: "rarity", rarity: "RARE" }, 2), id: shock.id }
+                          : { ...affinityShock(largest?.topicNumber ?? 0), id: shock.id }
+                      )
+                    }
+                    className={SELECT_CLASS}
+                  >
+                    <option value="count">{t("kind_count")}</option>
+                    <option value="affinity">{t("kind_affinity")}</option>
+                  </select>
+                  {shock.kind === "count" ? (
+                    <>
+                      {renderSelector(scenario, shock)}
+                      <span className="text-muted-foreground">×</span>
+                      <Input
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        value={shock.factor}
+                        onChange={(e) =>
+                          updateShock(scenario, shock.id, {
+                            ...shock,
+                            factor: Math.max(0, parseFloat(e.target.value) || 0),
+                          })
+                        }
+                        className="h-8 w-20 text-right"
+                      />
+                    </>
+                  ) : (
+                    <>
+                      <select
+                        value={shock.topicNumber}
+                        onChange={(e) =>
+                          updateShock(scenario, shock.id, {
+                            ...affinityShock(Number(e.target.value)),
+                            id: shock.id,
+                          })
+                        }
+                        className={cn(SELECT_CLASS, "max-w-xs")}
+                      >
+                        {activeTopics.map((tp) => (
+                          <option key={tp.topicNumber} value={tp.topicNumber}>
+                            T{tp.topicNumber} · {tp.name}
+                          </option>
+                        ))}
+                      </select>
+                      {shock.affinities.map((value, d) => (
+                        <Input
+                          key={d}
+                          type="number"
+                          min={0}
+                          max={1}
+                          step={0.05}
+                          value={value}
+                          title={dirName(d)}
+                          onChange={(e) => {
+                            const affinities = [...shock.affinities];
+                            affinities[d] = Math.max(0, Math.min(1, parseFloat(e.target.value) || 0));
+                            updateShock(scenario, shock.id, { ...shock, affinities });
+                          }}
+                          className="h-8 w-16 text-right"
+                          style={{ borderColor: DIRECTION_COLORS[d] }}
+                        />
+                      ))}
+                    </>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="ml-auto"
+                    onClick={() =>
+                      updateScenario(scenario.id, {
+                        shocks: scenario.shocks.filter((sh) => sh.id !== shock.id),
+                      })
+                    }
+                    aria-label={t("remove_shock")}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  updateScenario(scenario.id, {
+                    shocks: [...scenario.shocks, countShock({ by: "rarity", rarity: "RARE" }, 2)],
+                  })
+                }
+              >
+                <Plus className="h-3.5 w-3.5" />
+                {t("add_shock")}
+              </Button>
+
+              {outcome && (
+                <div className="space-y-3 border-t border-border pt-3">
+                  <div className="grid gap-2 text-sm sm:grid-cols-3">
+                    <div>
+                      <div className="text-xs text-muted-foreground">{t("return")}</div>
+                      <Delta before={outcome.baseline.return} after={outcome.stressed.return} />
+                    </div>
+                    <div>
+                      <div className="text-xs text-muted-foreground">{t("coverage")}</div>
+                      <Delta before={outcome.baseline.coverage} after={outcome.stressed.coverage} />
+                    </div>
+                    <div>
+                      <div className="text-xs text-muted-foreground">{t("risk")}</div>
+                      <Delta before={outcome.baseline.risk} after={outcome.stressed.risk} />
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {t("affected", { count: outcome.affectedTopics })}
+                  </p>
+                  <div className="grid gap-1 sm:grid-cols-2">
+                    {TRAINING_DIRECTIONS.map((dir, d) => (
+                      <div key={dir.key} className="flex items-center gap-2 text-xs">
+                        <span
+                          className="h-2 w-2 shrink-0 rounded-full"
+                          style={{ backgroundColor: DIRECTION_COLORS[d] }}
+                        />
+                        <span className="flex-1 truncate">{dirName(d)}</span>
+                        <Delta
+                          before={outcome.baseline.directionCoverage[d]}
+                          after={outcome.stressed.directionCoverage[d]}
+                          digits={0}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Save, Trash2 } from "lucide-react";
+import {
+  csvFieldSpecs,
+  type CsvKind,
+  type CsvMapping,
+  type CsvMappingPreset,
+  type CsvPreview,
+} from "@/lib/engine/csv-mapping";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { cn } from "@/lib/utils";
+
+const SELECT_CLASS =
+  "h-8 rounded-lg border border-border bg-background px-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring";
+
+interface CsvMappingPanelProps {
+  kind: CsvKind;
+  fileName: string;
+  preview: CsvPreview;
+  mapping: CsvMapping;
+  presets: CsvMappingPreset[];
+  onChange: (mapping: CsvMapping) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (id: string) => void;
+}
+
+/**
+ * Column mapping step for a CSV upload: which column feeds each field,
+ * with the file's first rows shown as they will be read.
+ */
+export default function CsvMappingPanel({
+  kind,
+  fileName,
+  preview,
+  mapping,
+  presets,
+  onChange,
+  onSavePreset,
+  onDeletePreset,
+}: CsvMappingPanelProps) {
+  const t = useTranslations("upload.mapping");
+  const [presetName, setPresetName] = useState("");
+  const [selectedPreset, setSelectedPreset] = useState("");
+  const specs = csvFieldSpecs(kind);
+  const mappedColumns = new Set(Object.values(mapping));
+
+  const applyPreset = (id: string) => {
+    setSelectedPreset(id);
+    const preset = presets.find((p) => p.id === id);
+    // Keep only the preset's columns this file actually has
+    if (preset) {
+      onChange(
+        Object.fromEntries(
+          Object.entries(preset.mapping).filter(([, column]) => column && preview.columns.includes(column))
+        )
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-xl border border-border bg-card p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm font-semibold">{t("title", { file: fileName })}</p>
+        <div className="flex items-center gap-1">
+          <select
+            value={selectedPreset}
+            onChange={(e) => applyPreset(e.target.value)}
+            className={SELECT_CLASS}
+            disabled={presets.length === 0}
+          >
+            <option value="">{presets.length === 0 ? t("no_presets") : t("choose_preset")}</option>
+            {presets.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+          {selectedPreset && (
+            <Button
+              variant="ghost"
+              size="sm"
+              title={t("delete_preset")}
+              onClick={() => {
+                onDeletePreset(selectedPreset);
+                setSelectedPreset("");
+              }}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-2 sm:grid-cols-2">
+        {specs.map((spec) => {
+          const column = mapping[spec.field] ?? "";
+          const broken = spec.required && !preview.columns.includes(column);
+          return (
+            <label key={spec.field} className="flex items-center justify-between gap-2 text-sm">
+              <span className={cn("font-medium", broken && "text-destructive")}>
+                {t(`fields.${kind}.${spec.field}`)}
+                {spec.required && " *"}
+              </span>
+              <select
+                value={column}
+                onChange={(e) => {
+                  const next = { ...mapping };
+                  if (e.target.value) next[spec.field] = e.target.value;
+                  else delete next[spec.field];
+                  onChange(next);
+                }}
+                className={cn(SELECT_CLASS, "w-44", broken && "border-destructive")}
+              >
+                <option value="">{t("unmapped")}</option>
+                {preview.columns.map((c) => (
+                  <option key={c} value={c}>
+                    {c}
+                  </option>
+                ))}
+              </select>
+            </label>
+          );
+        })}
+      </div>
+
+      {preview.rows.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b border-border text-left text-muted-foreground">
+                {preview.columns.map((c) => (
+                  <th
+                    key={c}
+                    className={cn("px-2 py-1 font-semibold whitespace-nowrap", mappedColumns.has(c) && "text-primary")}
+                  >
+                    {c}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {preview.rows.map((row, i) => (
+                <tr key={i} className="border-b border-border/50 last:border-0">
+                  {preview.columns.map((c) => (
+                    <td
+                      key={c}
+                      className={cn("max-w-48 truncate px-2 py-1", !mappedColumns.has(c) && "text-muted-foreground")}
+                      title={row[c]}
+                    >
+                      {row[c]}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Input
+          className="h-8 max-w-xs"
+          value={presetName}
+          placeholder={t("preset_name")}
+          onChange={(e) => setPresetName(e.target.value)}
+        />
+        <Button
+          variant="secondary"
+          size="sm"
+          disabled={!presetName.trim()}
+          onClick={() => {
+            onSavePreset(presetName);
+            setPresetName("");
+          }}
+        >
+          <Save className="h-3.5 w-3.5" />
+          {t("save_preset")}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import {
+  AFFINITY_AGGREGATIONS,
+  MIN_ENSEMBLE_RUNS,
+  MAX_ENSEMBLE_RUNS,
+  type AffinityAggregation,
+  type AnalysisEnsembleSettings,
+  type EnsembleProvider,
+} from "@/lib/engine/ensemble";
+import { Input } from "@/components/ui/Input";
+import { cn } from "@/lib/utils";
+
+const SELECT_CLASS =
+  "h-8 rounded-lg border border-border bg-background px-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring";
+
+const PROVIDER_LABELS: Record<EnsembleProvider, string> = {
+  claude: "Claude",
+  openai: "GPT",
+  gemini: "Gemini",
+};
+
+interface EnsembleSettingsEditorProps {
+  settings: AnalysisEnsembleSettings;
+  availableProviders: EnsembleProvider[]; // those with an API key in Settings
+  onChange: (settings: AnalysisEnsembleSettings) => void;
+}
+
+export default function EnsembleSettingsEditor({
+  settings,
+  availableProviders,
+  onChange,
+}: EnsembleSettingsEditorProps) {
+  const t = useTranslations("upload.ensemble");
+
+  const toggleProvider = (provider: EnsembleProvider) => {
+    const providers = settings.providers.includes(provider)
+      ? settings.providers.filter((p) => p !== provider)
+      : [...settings.providers, provider];
+    onChange({ ...settings, providers });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center gap-2">
+          <span className="text-muted-foreground">{t("runs")}</span>
+          <Input
+            type="number"
+            min={MIN_ENSEMBLE_RUNS}
+            max={MAX_ENSEMBLE_RUNS}
+            value={settings.runs}
+            onChange={(e) => {
+              const runs = parseInt(e.target.value, 10);
+              if (Number.isFinite(runs)) {
+                onChange({ ...settings, runs: Math.max(MIN_ENSEMBLE_RUNS, Math.min(MAX_ENSEMBLE_RUNS, runs)) });
+              }
+            }}
+            className="h-8 w-20 text-right"
+          />
+        </label>
+        {settings.runs > 1 && (
+          <label className="flex items-center gap-2">
+            <span className="text-muted-foreground">{t("aggregation")}</span>
+            <select
+              value={settings.aggregation}
+              onChange={(e) => onChange({ ...settings, aggregation: e.target.value as AffinityAggregation })}
+              className={SELECT_CLASS}
+            >
+              {AFFINITY_AGGREGATIONS.map((aggregation) => (
+                <option key={aggregation} value={aggregation}>
+                  {t(`aggregations.${aggregation}`)}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      {settings.runs > 1 && availableProviders.length > 1 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">{t("providers")}</span>
+          {availableProviders.map((provider) => (
+            <button
+              key={provider}
+              onClick={() => toggleProvider(provider)}
+              className={cn(
+                "rounded-lg border px-3 py-1.5 text-sm font-medium transition-colors",
+                settings.providers.includes(provider)
+                  ? "border-primary bg-primary/10 text-primary"
+                  : "border-border hover:bg-muted"
+              )}
+            >
+              {PROVIDER_LABELS[provider]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        {settings.runs > 1 ? t("hint_ensemble", { runs: settings.runs }) : t("hint_single")}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { AlertCircle, AlertTriangle, CheckCircle2 } from "lucide-react";
+import type { UploadIssue, ValidationReport } from "@/lib/engine/upload-validation";
+import { cn } from "@/lib/utils";
+
+/** Issues beyond this many are summarized as a count. */
+const MAX_LISTED_ISSUES = 50;
+
+interface ValidationReportPanelProps {
+  report: ValidationReport;
+}
+
+export default function ValidationReportPanel({ report }: ValidationReportPanelProps) {
+  const t = useTranslations("upload.validation");
+  const tFields = useTranslations("upload.mapping.fields");
+
+  const describe = (issue: UploadIssue) => {
+    switch (issue.code) {
+      case "unmapped_column":
+        return t("unmapped_column", {
+          field: tFields(`${issue.kind}.${issue.field}`),
+        });
+      case "count_mismatch":
+      case "duplicate_topic":
+        return t(issue.code, {
+          value: issue.value ?? "",
+          expected: issue.expected ?? 0,
+          actual: issue.actual ?? 0,
+        });
+      case "unknown_topic":
+        return t("unknown_topic", { value: issue.value ?? "", count: issue.actual ?? 0 });
+      case "unassigned_papers":
+        return t("unassigned_papers", { count: issue.actual ?? 0 });
+      default:
+        return t(issue.code, { value: issue.value ?? "" });
+    }
+  };
+
+  if (report.issues.length === 0) {
+    return (
+      <div className="flex items-center gap-2 rounded-xl border border-success/30 bg-success/5 px-4 py-3 text-sm font-medium text-success">
+        <CheckCircle2 className="h-5 w-5" />
+        {t("clean")}
+      </div>
+    );
+  }
+
+  const listed = report.issues.slice(0, MAX_LISTED_ISSUES);
+  return (
+    <div
+      className={cn(
+        "rounded-xl border p-4",
+        report.errors > 0 ? "border-destructive/30 bg-destructive/5" : "border-accent/30 bg-accent/5"
+      )}
+    >
+      <p className="mb-2 text-sm font-semibold">
+        {t("title")}{" "}
+        <span className="font-normal text-muted-foreground">
+          {t("summary", { errors: report.errors, warnings: report.warnings })}
+        </span>
+      </p>
+      {report.errors > 0 && <p className="mb-2 text-xs text-destructive">{t("blocked")}</p>}
+      <ul className="max-h-64 space-y-1 overflow-y-auto text-xs">
+        {listed.map((issue, i) => (
+          <li key={i} className="flex items-start gap-1.5">
+            {issue.severity === "error" ? (
+              <AlertCircle className="mt-0.5 h-3.5 w-3.5 shrink-0 text-destructive" />
+            ) : (
+              <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0 text-accent" />
+            )}
+            <span>
+              <span className="font-medium">
+                {issue.row !== undefined ? t("location_row", { file: issue.file, row: issue.row }) : issue.file}
+              </span>
+              {" — "}
+              {describe(issue)}
+            </span>
+          </li>
+        ))}
+      </ul>
+      {report.issues.length > listed.length && (
+        <p className="mt-2 text-xs text-muted-foreground">
+          {t("more", { count: report.issues.length - listed.length })}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import { TRAINING_DIRECTIONS, SKILL_CATEGORIES } from "@/lib/engine/portfolio-types";
 import type { TopicInfo, Paper } from "@/lib/engine/portfolio-types";
+import type { TopicAllocationEntry } from "@/lib/engine/topic-allocation";
+import { citePassage, type AnalysisPassages, type ReportChunk } from "@/lib/engine/report-index";
 
 export function buildSystemPrompt(
   sectorName: string,
@@ -57,9 +59,37 @@ export function buildCourseOverviewPrompt(
   weight: number,
   topics: TopicInfo[],
   papers: Paper[],
-  sectorKnowledge: string
+  sectorKnowledge: string,
+  targetHours?: number,
+  topicBudget: TopicAllocationEntry[] = [],
+  reportPassages: ReportChunk[] = []
 ): string {
   const direction = TRAINING_DIRECTIONS[directionIndex];
+  // Spread over 4 modules × 3 units
+  const unitMinutes = targetHours ? Math.round((targetHours * 60) / 12) : null;
+  const portfolioContext = [
+    `- This direction received a weight of ${(weight * 100).toFixed(1)}% in the optimized portfolio`,
+    "- This reflects its relative importance for the user's professional development",
+    ...(targetHours ? [`- The program budget allots this course ${targetHours} hours of study`] : []),
+  ].join("\n");
+  const hoursRule = targetHours
+    ? `The estimatedMinutes of all 12 units must add up to ${targetHours * 60} minutes (${targetHours} hours).\n\n`
+    : "";
+  const topicBudgetLines = topicBudget
+    .map(({ topicNumber, share }) => {
+      const topic = topics.find((t) => t.topicNumber === topicNumber);
+      if (!topic) return null;
+      const hours = targetHours ? ` (about ${Math.round(share * targetHours * 10) / 10} hours)` : "";
+      return `- "${topic.name}": ${(share * 100).toFixed(0)}% of the course${hours}`;
+    })
+    .filter((line): line is string => line !== null);
+  const topicBudgetSection =
+    topicBudgetLines.length > 0
+      ? `TOPIC BUDGET (share of this course each topic should receive; modules and units must cover topics in proportion to these shares):
+${topicBudgetLines.join("\n")}
+
+`
+      : "";
   const relevantTopics = topics
     .filter((t) => t.topicNumber !== -1)
     .map((t) => `- Topic "${t.name}": keywords [${t.keywords.slice(0, 5).join(", ")}] (${t.count} papers, ${t.rarityLabel})`)
@@ -70,21 +100,28 @@ export function buildCourseOverviewPrompt(
     .map((p) => `- "${p.title}" (${p.authors}, ${p.year}, ${p.venue})`)
     .join("\n");
 
+  const reportSection =
+    reportPassages.length > 0
+      ? `SECTOR REPORT EXCERPTS (the passages of the sector reports most relevant to this direction; when a unit draws on one, list it in paperReferences as "report, p. N"):
+${reportPassages.map((c) => `- (${citePassage(c)}) ${c.text}`).join("\n")}
+
+`
+      : "";
+
   return `Generate a comprehensive e-learning course outline for Training Direction ${direction.id}: "${direction.name}"
 
 DIRECTION DESCRIPTION: ${direction.description}
 
 PORTFOLIO CONTEXT:
-- This direction received a weight of ${(weight * 100).toFixed(1)}% in the optimized portfolio
-- This reflects its relative importance for the user's professional development
+${portfolioContext}
 
 SECTOR TOPICS (from BERTopic analysis of recent scientific literature):
 ${relevantTopics}
 
-KEY PAPERS:
+${topicBudgetSection}KEY PAPERS:
 ${paperList}
 
-SECTOR KNOWLEDGE:
+${reportSection}SECTOR KNOWLEDGE:
 ${sectorKnowledge}
 
 Generate a JSON object with this exact structure:
@@ -92,7 +129,7 @@ Generate a JSON object with this exact structure:
   "title": "Course title (concise, professional)",
   "overview": "Course overview (200-300 words explaining objectives and relevance to the sector)",
   "trainingDirection": "${direction.key}",
-  "totalHours": number (25-40),
+  "totalHours": ${targetHours ?? "number (25-40)"},
   "modules": [
     {
       "moduleNumber": 1,
@@ -107,7 +144,7 @@ Generate a JSON object with this exact structure:
           "learningObjectives": ["specific objective 1", "specific objective 2"],
           "skillTags": ["skill1", "skill2", "skill3"],
           "paperReferences": ["Paper title 1", "Paper title 2"],
-          "estimatedMinutes": number (60-120)
+          "estimatedMinutes": ${unitMinutes ? `number (about ${unitMinutes})` : "number (60-120)"}
         },
         { "unitNumber": 2, ... },
         { "unitNumber": 3, ... }
@@ -137,7 +174,7 @@ Generate a JSON object with this exact structure:
   ]
 }
 
-IMPORTANT: Return ONLY the JSON object, no additional text.`;
+${hoursRule}IMPORTANT: Return ONLY the JSON object, no additional text.`;
 }
 
 export function buildModulePrompt(
@@ -188,45 +225,89 @@ Generate a JSON object with 3 units, each containing:
 Return ONLY the JSON object.`;
 }
 
+function describeDirections(): string {
+  return TRAINING_DIRECTIONS.map((d) => `  ${d.id}. ${d.key} — "${d.name}": ${d.description}`).join("\n");
+}
+
+const AFFINITY_SCORING_GUIDELINES = `SCORING GUIDELINES:
+- 0.0 = topic has no relevance to this training direction
+- 0.3 = weak relevance
+- 0.5 = moderate relevance
+- 0.7 = strong relevance
+- 1.0 = topic is core to this training direction
+- Consider both direct and indirect connections
+- A topic can score high on multiple directions
+- Use the full range — avoid clustering all scores around 0.5`;
+
+/** Asked for alongside every affinity row; see parseAffinityRationale. */
+const AFFINITY_RATIONALE_NOTES = `- affinityRationale must have, for every topic in affinityMatrix, exactly 6 entries in the same direction order
+- "justification": one sentence (at most 25 words) on why the score fits
+- "keywords": the topic's keywords the score relies on, copied exactly from its keyword list
+- "documents": the numbers of the representative documents the score relies on (may be empty)`;
+
+function describeRationaleSchema(topicNumbers: number[]): string {
+  return `  "affinityRationale": {
+${topicNumbers
+  .map((n) => `    "${n}": [{ "justification": "...", "keywords": ["..."], "documents": [1] }, ... 6 entries]`)
+  .join(",\n")}
+  }`;
+}
+
+function describeTopicForScoring(t: TopicInfo, excerptRefs: number[] = []): string {
+  const keywords = t.keywords.join(", ");
+  const docs = t.representativeDocs
+    .map((d, i) => `    [${i + 1}] "${d}"`)
+    .join("\n");
+  const excerpts = excerptRefs.length > 0 ? `\n  Related report excerpts: ${excerptRefs.map(excerptLabel).join(", ")}` : "";
+  return `Topic ${t.topicNumber} — "${t.name}" (${t.count} papers, ${t.rarityLabel})
+  Keywords: [${keywords}]
+  Representative documents:
+${docs}${excerpts}`;
+}
+
+const excerptLabel = (ref: number) => `E${ref + 1}`;
+
+/** Retrieved report passages, labelled E1, E2, … and cited by report and page. */
+function describeReportExcerpts({ passages, directionRefs }: AnalysisPassages): string {
+  if (passages.length === 0) return "";
+  const byDirection = TRAINING_DIRECTIONS.map((d, i) =>
+    directionRefs[i].length > 0 ? `  ${d.key}: ${directionRefs[i].map(excerptLabel).join(", ")}` : null
+  ).filter((line): line is string => line !== null);
+  return `\n\nSECTOR REPORT EXCERPTS (the passages of the sector reports that best match the topics and directions; each is labelled with its report and page):
+${passages.map((c, i) => `[${excerptLabel(i)}] (${citePassage(c)}) ${c.text}`).join("\n\n")}${
+    byDirection.length > 0 ? `\n\nExcerpts related to each training direction:\n${byDirection.join("\n")}` : ""
+  }`;
+}
+
 /**
  * Build the prompt for AI-driven sector analysis.
- * The AI reads all topics + full report texts and produces:
+ * The AI reads all topics + the report passages retrieved for them and produces:
  *   - Affinity matrix (each topic scored against 6 training directions)
  *   - Sector metadata (name, description, program title, etc.)
  */
 export function buildAnalysisPrompt(
   topics: TopicInfo[],
-  reportTexts: string[],
+  reportPassages: AnalysisPassages,
   language: "en" | "el"
 ): { systemPrompt: string; userPrompt: string } {
   const lang = language === "el"
-    ? "All text fields (sectorName, sectorDescription, programTitle, programDescription, targetAudience) MUST be in Greek (Ελληνικά). Use proper Greek academic terminology."
+    ? "All text fields (sectorName, sectorDescription, programTitle, programDescription, targetAudience, and each justification) MUST be in Greek (Ελληνικά). Use proper Greek academic terminology."
     : "All text fields must be in English.";
 
-  const directionsDescription = TRAINING_DIRECTIONS.map(
-    (d) => `  ${d.id}. ${d.key} — "${d.name}": ${d.description}`
-  ).join("\n");
+  const directionsDescription = describeDirections();
 
   const systemPrompt = `You are an expert in educational program design, labor market analysis, and the "Diversified Skill Portfolios" framework (Kanzola & Petrakis, 2024).
 
-Your task: Given a set of BERTopic-extracted topics from scientific literature about a specific economic sector, plus sector report texts, you must:
+Your task: Given a set of BERTopic-extracted topics from scientific literature about a specific economic sector, plus excerpts of sector reports, you must:
 
 1. ANALYZE the sector to understand its landscape, challenges, and skill needs.
-2. SCORE each topic against 6 universal training directions (0.0 to 1.0 affinity).
+2. SCORE each topic against 6 universal training directions (0.0 to 1.0 affinity), justifying each score.
 3. INFER optimal program metadata for an educational program in this sector.
 
 THE 6 TRAINING DIRECTIONS (universal across all sectors):
 ${directionsDescription}
 
-SCORING GUIDELINES:
-- 0.0 = topic has no relevance to this training direction
-- 0.3 = weak relevance
-- 0.5 = moderate relevance
-- 0.7 = strong relevance
-- 1.0 = topic is core to this training direction
-- Consider both direct and indirect connections
-- A topic can score high on multiple directions
-- Use the full range — avoid clustering all scores around 0.5
+${AFFINITY_SCORING_GUIDELINES}
 
 ${lang}
 
@@ -234,23 +315,10 @@ OUTPUT: Respond with ONLY a valid JSON object (no markdown, no explanations) mat
 
   const topicsList = topics
     .filter((t) => t.topicNumber !== -1)
-    .map((t) => {
-      const keywords = t.keywords.join(", ");
-      const docs = t.representativeDocs
-        .map((d) => `    "${d}"`)
-        .join("\n");
-      return `Topic ${t.topicNumber} — "${t.name}" (${t.count} papers, ${t.rarityLabel})
-  Keywords: [${keywords}]
-  Representative documents:
-${docs}`;
-    })
+    .map((t) => describeTopicForScoring(t, reportPassages.topicRefs[t.topicNumber]))
     .join("\n\n");
 
-  const reportsSection = reportTexts.length > 0
-    ? `\n\nSECTOR REPORTS (full text — read carefully for context):\n${reportTexts
-        .map((text, i) => `--- Report ${i + 1} ---\n${text}`)
-        .join("\n\n")}`
-    : "";
+  const reportsSection = describeReportExcerpts(reportPassages);
 
   const topicNumbers = topics
     .filter((t) => t.topicNumber !== -1)
@@ -269,6 +337,7 @@ Return a JSON object with this EXACT structure:
   "affinityMatrix": {
 ${topicNumbers.map((n) => `    "${n}": [new_tech, trends, sales, negotiation_hr, growth_theory, growth_practical]`).join(",\n")}
   },
+${describeRationaleSchema(topicNumbers)},
   "programTitle": "Proposed title for the educational program",
   "programDescription": "Brief program description (100-200 words)",
   "targetAudience": "Recommended target audience for this program",
@@ -278,8 +347,74 @@ ${topicNumbers.map((n) => `    "${n}": [new_tech, trends, sales, negotiation_hr,
 NOTES:
 - affinityMatrix values must be numbers between 0.0 and 1.0
 - Each array in affinityMatrix must have exactly 6 values, one per training direction in order: [new_tech, trends, sales, negotiation_hr, growth_theory, growth_practical]
+${AFFINITY_RATIONALE_NOTES}
 - educationLevel must be one of: "high_school", "bachelor", "master", "phd"
 - Return ONLY the JSON object, no additional text.`;
 
   return { systemPrompt, userPrompt };
 }
+
+/**
+ * Build the prompt that re-scores only the topics changed by a topic
+ * edit (merged, split or renamed), keeping the rest of the analysis. The
+ * unchanged topics are listed by name so the scores stay consistent.
+ */
+export function buildAffinityRescorePrompt(
+  topics: TopicInfo[],
+  topicNumbers: number[],
+  sectorName: string,
+  sectorDescription: string,
+  language: "en" | "el" = "en"
+): { systemPrompt: string; userPrompt: string } {
+  const rescored = new Set(topicNumbers);
+  const lang = language === "el"
+    ? "Each justification MUST be in Greek (Ελληνικά)."
+    : "Each justification must be in English.";
+
+  const systemPrompt = `You are an expert in educational program design and the "Diversified Skill Portfolios" framework (Kanzola & Petrakis, 2024).
+
+Your task: score a few BERTopic-extracted topics against 6 universal training directions (0.0 to 1.0 affinity), justifying each score. The other topics of the sector were already scored; score the new ones on the same scale.
+
+THE 6 TRAINING DIRECTIONS (universal across all sectors):
+${describeDirections()}
+
+${AFFINITY_SCORING_GUIDELINES}
+
+${lang}
+
+OUTPUT: Respond with ONLY a valid JSON object (no markdown, no explanations) matching the exact schema provided in the user message.`;
+
+  const toScore = topics
+    .filter((t) => rescored.has(t.topicNumber))
+    .map((t) => describeTopicForScoring(t))
+    .join("\n\n");
+  const otherTopics = topics
+    .filter((t) => t.topicNumber !== -1 && !rescored.has(t.topicNumber))
+    .map((t) => `- Topic ${t.topicNumber} — "${t.name}"`)
+    .join("\n");
+
+  const userPrompt = `SECTOR: ${sectorName}
+${sectorDescription}
+
+OTHER TOPICS OF THE SECTOR (already scored, for context):
+${otherTopics}
+
+TOPICS TO SCORE:
+${toScore}
+
+Return a JSON object with this EXACT structure:
+{
+  "affinityMatrix": {
+${topicNumbers.map((n) => `    "${n}": [new_tech, trends, sales, negotiation_hr, growth_theory, growth_practical]`).join(",\n")}
+  },
+${describeRationaleSchema(topicNumbers)}
+}
+
+NOTES:
+- affinityMatrix values must be numbers between 0.0 and 1.0
+- Each array must have exactly 6 values, one per training direction in order: [new_tech, trends, sales, negotiation_hr, growth_theory, growth_practical]
+${AFFINITY_RATIONALE_NOTES}
+- Return ONLY the JSON object, no additional text.`;
+
+  return { systemPrompt, userPrompt };
+}
@@ -0,0 +1,105 @@
+import { TRAINING_DIRECTIONS, type TopicInfo, type TrainingDirectionKey } from "./portfolio-types";
+
+/**
+ * Hand-set affinity scores laid over the AI's matrix. Overrides are kept
+ * apart from the matrix so a re-analysis replaces only the AI scores;
+ * the optimizer and course generation see the merged matrix.
+ */
+export interface AffinityOverride {
+  topicNumber: number;
+  directionKey: TrainingDirectionKey;
+  value: number; // 0–1
+  aiValue: number | null; // the AI's score when overridden, if it had one
+  author: string;
+  changedAt: string;
+  reason: string;
+  // The topic the score was set on; a new upload may give its number to
+  // another topic. Absent on overrides saved before this was recorded.
+  topicName?: string;
+  topicKeywords?: string[];
+}
+
+export type AffinitySource = "ai" | "user";
+
+function directionIndex(key: TrainingDirectionKey): number {
+  return TRAINING_DIRECTIONS.findIndex((d) => d.key === key);
+}
+
+export function findAffinityOverride(
+  overrides: AffinityOverride[],
+  topicNumber: number,
+  directionKey: TrainingDirectionKey
+): AffinityOverride | undefined {
+  return overrides.find((o) => o.topicNumber === topicNumber && o.directionKey === directionKey);
+}
+
+/** `overrides` with the cell's override replaced by `override`. */
+export function upsertAffinityOverride(overrides: AffinityOverride[], override: AffinityOverride): AffinityOverride[] {
+  return [...removeAffinityOverride(overrides, override.topicNumber, override.directionKey), override];
+}
+
+export function removeAffinityOverride(
+  overrides: AffinityOverride[],
+  topicNumber: number,
+  directionKey: TrainingDirectionKey
+): AffinityOverride[] {
+  return overrides.filter((o) => !(o.topicNumber === topicNumber && o.directionKey === directionKey));
+}
+
+/**
+ * Whether `override` was set on `topic`: the same number with the same
+ * name or keywords, so a rename or a merge alone keeps the override.
+ */
+export function overrideMatchesTopic(override: AffinityOverride, topic: TopicInfo): boolean {
+  if (override.topicNumber !== topic.topicNumber) return false;
+  if (override.topicName !== undefined && override.topicName === topic.name) return true;
+  return override.topicKeywords !== undefined && override.topicKeywords.join(" ") === topic.keywords.join(" ");
+}
+
+/** Overrides still naming the same topic in a new topic model; the rest, and those without a topic, are dropped. */
+export function retainAffinityOverrides(overrides: AffinityOverride[], topics: TopicInfo[]): AffinityOverride[] {
+  return overrides.filter((o) => topics.some((t) => overrideMatchesTopic(o, t)));
+}
+
+/**
+ * Overrides of the topics in `topics`, stamped with each topic's current
+ * name and keywords. Used after hand edits, which keep topic numbers.
+ */
+export function restampAffinityOverrides(overrides: AffinityOverride[], topics: TopicInfo[]): AffinityOverride[] {
+  const byNumber = new Map(topics.map((t) => [t.topicNumber, t]));
+  return overrides.flatMap((o) => {
+    const topic = byNumber.get(o.topicNumber);
+    return topic ? [{ ...o, topicName: topic.name, topicKeywords: topic.keywords }] : [];
+  });
+}
+
+/**
+ * The AI matrix with overrides applied. Overrides of topics the matrix
+ * lacks are skipped, so ones left over from an earlier topic model do
+ * not invent rows.
+ */
+export function mergeAffinityOverrides(
+  affinityMatrix: Record<number, number[]>,
+  overrides: AffinityOverride[] = []
+): Record<number, number[]> {
+  if (overrides.length === 0) return affinityMatrix;
+  const merged: Record<number, number[]> = { ...affinityMatrix };
+  for (const override of overrides) {
+    const row = merged[override.topicNumber];
+    const d = directionIndex(override.directionKey);
+    if (!row || d < 0) continue;
+    if (row === affinityMatrix[override.topicNumber]) merged[override.topicNumber] = [...row];
+    merged[override.topicNumber][d] = Math.min(1, Math.max(0, override.value));
+  }
+  return merged;
+}
+
+/** Overrides that apply to the current matrix, ordered by topic then direction. */
+export function activeAffinityOverrides(
+  affinityMatrix: Record<number, number[]>,
+  overrides: AffinityOverride[] = []
+): AffinityOverride[] {
+  return overrides
+    .filter((o) => affinityMatrix[o.topicNumber] && directionIndex(o.directionKey) >= 0)
+    .sort((a, b) => a.topicNumber - b.topicNumber || directionIndex(a.directionKey) - directionIndex(b.directionKey));
+}
@@ -0,0 +1,83 @@
+import type { ExpertView } from "./portfolio-types";
+import { TRAINING_DIRECTIONS } from "./portfolio-types";
+import { dot, matVec, invert, solveSPD } from "./matrix";
+
+/** Scales the prior covariance into the uncertainty of the prior mean. */
+export const DEFAULT_TAU = 0.05;
+
+const MIN_VIEW_VARIANCE = 1e-8;
+
+interface ViewRow {
+  pick: number[];
+  value: number;
+  variance: number;
+}
+
+function buildPickRow(view: ExpertView): number[] | null {
+  const idx = TRAINING_DIRECTIONS.findIndex((d) => d.key === view.directionKey);
+  if (idx < 0) return null;
+  const row = new Array(TRAINING_DIRECTIONS.length).fill(0);
+  row[idx] = 1;
+  if (view.kind === "relative") {
+    const vs = TRAINING_DIRECTIONS.findIndex((d) => d.key === view.versusKey);
+    if (vs < 0 || vs === idx) return null;
+    row[vs] = -1;
+  }
+  return row;
+}
+
+/**
+ * Turn views into Black–Litterman (P, Q, Ω) rows. Without an explicit
+ * ± uncertainty, the view variance follows the usual confidence heuristic
+ * Ω = ((1 − c) / c) · τ·pΣpᵀ, so c = 0.5 weighs the view like the prior.
+ */
+function buildViewRows(views: ExpertView[], cov: number[][], tau: number): ViewRow[] {
+  const rows: ViewRow[] = [];
+  for (const view of views) {
+    const pick = buildPickRow(view);
+    if (!pick || !Number.isFinite(view.value)) continue;
+
+    let variance: number;
+    if (view.uncertainty !== undefined && view.uncertainty > 0) {
+      variance = view.uncertainty * view.uncertainty;
+    } else {
+      const c = Math.min(Math.max(view.confidence, 0.01), 0.99);
+      variance = ((1 - c) / c) * tau * dot(pick, matVec(cov, pick));
+    }
+    rows.push({ pick, value: view.value, variance: Math.max(variance, MIN_VIEW_VARIANCE) });
+  }
+  return rows;
+}
+
+/**
+ * Blend literature-derived prior returns with expert views:
+ *
+ *   μ = [(τΣ)⁻¹ + PᵀΩ⁻¹P]⁻¹ · [(τΣ)⁻¹π + PᵀΩ⁻¹Q]
+ *
+ * Returns the prior unchanged when there are no usable views.
+ */
+export function computePosteriorReturns(
+  priorReturns: number[],
+  cov: number[][],
+  views: ExpertView[],
+  tau = DEFAULT_TAU
+): number[] {
+  const rows = buildViewRows(views, cov, tau);
+  if (rows.length === 0) return [...priorReturns];
+
+  const n = priorReturns.length;
+  const precision = invert(cov.map((row) => row.map((v) => v * tau)));
+
+  const A = precision.map((row) => [...row]);
+  const b = matVec(precision, priorReturns);
+  for (const { pick, value, variance } of rows) {
+    for (let i = 0; i < n; i++) {
+      b[i] += (pick[i] * value) / variance;
+      for (let j = 0; j < n; j++) {
+        A[i][j] += (pick[i] * pick[j]) / variance;
+      }
+    }
+  }
+
+  return solveSPD(A, b);
+}
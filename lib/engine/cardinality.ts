@@ -0,0 +1,171 @@
+import type { QPStatus } from "./qp-solver";
+import type { OptimizerConstraints } from "./constraints";
+import {
+  optimizePortfolio,
+  maxFeasibleReturn,
+  evaluatePortfolio,
+  type OptimizerFrontierPoint,
+  type PortfolioMetrics,
+} from "./optimizer";
+
+/** Best portfolio holding exactly `assets` directions. */
+export interface CardinalityPortfolio extends PortfolioMetrics {
+  assets: number;
+  held: number[]; // direction indices
+  hhi: number;
+  status: QPStatus;
+}
+
+export interface CardinalityFrontiers {
+  /** Efficient frontier holding at most `maxAssets` directions. */
+  frontier: (maxAssets: number) => OptimizerFrontierPoint[];
+  /** Highest-Sharpe portfolio for each exact count; index 0 holds one direction. */
+  bestByCount: Array<CardinalityPortfolio | null>;
+}
+
+interface SubsetProblem {
+  held: number[];
+  expectedReturns: number[];
+  covMatrix: number[][];
+  constraints: OptimizerConstraints;
+  minReturn: number;
+  maxReturn: number;
+}
+
+/**
+ * The mean-variance problem over the held directions only: the rest are
+ * dropped from every row rather than pinned to 0, which keeps the QP
+ * small and non-degenerate.
+ */
+function restrictToSubset(
+  held: number[],
+  expectedReturns: number[],
+  covMatrix: number[][],
+  constraints: OptimizerConstraints,
+  minPosition: number
+): SubsetProblem | null {
+  const lb = held.map((d) => Math.max(constraints.lb[d], minPosition));
+  const ub = held.map((d) => constraints.ub[d]);
+  if (lb.some((l, i) => l > ub[i] + 1e-12)) return null;
+  if (lb.reduce((a, b) => a + b, 0) > 1 + 1e-9 || ub.reduce((a, b) => a + b, 0) < 1 - 1e-9) {
+    return null;
+  }
+
+  const sub = {
+    held,
+    expectedReturns: held.map((d) => expectedReturns[d]),
+    covMatrix: held.map((i) => held.map((j) => covMatrix[i][j])),
+    constraints: {
+      lb,
+      ub,
+      Aineq: constraints.Aineq.map((row) => held.map((d) => row[d])),
+      bineq: constraints.bineq,
+    },
+  };
+
+  const gmv = optimizePortfolio(sub.expectedReturns, sub.covMatrix, null, sub.constraints);
+  const maxRet = maxFeasibleReturn(sub.expectedReturns, sub.constraints);
+  if (gmv.status !== "optimal" || maxRet.status !== "optimal") return null;
+
+  const ret = (x: number[]) => x.reduce((s, w, i) => s + w * sub.expectedReturns[i], 0);
+  return { ...sub, minReturn: ret(gmv.x), maxReturn: ret(maxRet.x) };
+}
+
+/** Points no other point beats on both risk and return, ordered by risk. */
+function efficientPoints(points: OptimizerFrontierPoint[]): OptimizerFrontierPoint[] {
+  const sorted = [...points].sort((a, b) => a.risk - b.risk || b.return - a.return);
+  const kept: OptimizerFrontierPoint[] = [];
+  for (const p of sorted) {
+    if (kept.length === 0 || p.return > kept[kept.length - 1].return + 1e-9) kept.push(p);
+  }
+  return kept;
+}
+
+/**
+ * Cardinality-constrained mean-variance by exact enumeration. With six
+ * directions there are only 63 non-empty subsets, so every one is solved
+ * on a shared grid of target returns; the frontier for "at most K" is
+ * the efficient envelope of the subsets with K or fewer directions.
+ * Subsets leaving out a direction with a minimum weight are skipped, as
+ * dropping it would drop its minimum too.
+ */
+export function computeCardinalityFrontiers(
+  expectedReturns: number[],
+  covMatrix: number[][],
+  constraints: OptimizerConstraints,
+  minPosition: number,
+  numPoints = 50,
+  riskFreeRate = 0
+): CardinalityFrontiers {
+  const n = expectedReturns.length;
+  const required = constraints.lb.reduce((m, l, d) => (l > 0 ? m | (1 << d) : m), 0);
+  const subsets: SubsetProblem[] = [];
+  for (let mask = 1; mask < 1 << n; mask++) {
+    if ((mask & required) !== required) continue;
+    const held = Array.from({ length: n }, (_, d) => d).filter((d) => mask & (1 << d));
+    const problem = restrictToSubset(held, expectedReturns, covMatrix, constraints, minPosition);
+    if (problem) subsets.push(problem);
+  }
+
+  const pointsByCount: OptimizerFrontierPoint[][] = Array.from({ length: n }, () => []);
+  if (subsets.length > 0) {
+    const lo = Math.min(...subsets.map((s) => s.minReturn));
+    const hi = Math.max(...subsets.map((s) => s.maxReturn));
+    const targets =
+      hi - lo > 1e-9
+        ? Array.from({ length: numPoints }, (_, i) => lo + (i / (numPoints - 1)) * (hi - lo))
+        : [lo];
+
+    for (const subset of subsets) {
+      // Each subset's own GMV and maximum-return ends, plus the grid
+      // targets inside its range
+      const own = targets.filter(
+        (t) => t > subset.minReturn + 1e-9 && t < subset.maxReturn - 1e-9
+      );
+      for (const target of [subset.minReturn, ...own, subset.maxReturn]) {
+        const solution = optimizePortfolio(
+          subset.expectedReturns,
+          subset.covMatrix,
+          target,
+          subset.constraints
+        );
+        if (solution.status !== "optimal") continue;
+        const weights = new Array(n).fill(0);
+        subset.held.forEach((d, i) => (weights[d] = solution.x[i]));
+        pointsByCount[subset.held.length - 1].push({
+          ...evaluatePortfolio(weights, expectedReturns, covMatrix, riskFreeRate),
+          target_return: Math.round(target * 1e6) / 1e6,
+          status: solution.status,
+        });
+      }
+    }
+  }
+
+  const bestByCount = pointsByCount.map((points, k): CardinalityPortfolio | null => {
+    if (points.length === 0) return null;
+    const best = points.reduce((a, b) => (b.sharpe_ratio > a.sharpe_ratio ? b : a));
+    return {
+      risk: best.risk,
+      return: best.return,
+      weights: best.weights,
+      sharpe_ratio: best.sharpe_ratio,
+      assets: k + 1,
+      held: best.weights.flatMap((w, d) => (w > 0 ? [d] : [])),
+      hhi: Math.round(best.weights.reduce((s, w) => s + w * w, 0) * 1e4) / 1e4,
+      status: best.status,
+    };
+  });
+
+  return {
+    frontier: (maxAssets) => {
+      const envelope = efficientPoints(pointsByCount.slice(0, maxAssets).flat());
+      if (envelope.length <= numPoints) return envelope;
+      // Thin to the usual frontier size, keeping both ends
+      return Array.from(
+        { length: numPoints },
+        (_, i) => envelope[Math.round((i / (numPoints - 1)) * (envelope.length - 1))]
+      );
+    },
+    bestByCount,
+  };
+}
@@ -0,0 +1,177 @@
+import type { PortfolioConstraints, TrainingDirectionKey } from "./portfolio-types";
+import { TRAINING_DIRECTIONS, DEFAULT_CONSTRAINTS } from "./portfolio-types";
+import { solveQP } from "./qp-solver";
+import { identity } from "./matrix";
+
+/**
+ * Linear constraints in the form consumed by the QP solver:
+ * lb ≤ w ≤ ub and Aineq·w ≤ bineq (the budget Σw = 1 is added by the optimizer).
+ */
+export interface OptimizerConstraints {
+  lb: number[];
+  ub: number[];
+  Aineq: number[][];
+  bineq: number[];
+}
+
+export type ConstraintIssueCode =
+  | "invalid_range"
+  | "min_exceeds_max"
+  | "sum_min_exceeds_one"
+  | "sum_max_below_one"
+  | "group_empty"
+  | "group_min_exceeds_max"
+  | "group_min_unreachable"
+  | "group_max_unreachable"
+  | "infeasible";
+
+export interface ConstraintIssue {
+  code: ConstraintIssueCode;
+  message: string;
+  directionKey?: TrainingDirectionKey;
+  groupId?: string;
+}
+
+/**
+ * Read the bounds for a direction, falling back to the defaults
+ * for projects saved before per-direction constraints existed.
+ */
+function directionBounds(constraints: PortfolioConstraints, key: TrainingDirectionKey) {
+  return constraints.directions[key] ?? DEFAULT_CONSTRAINTS;
+}
+
+/**
+ * Translate user-facing constraints into solver rows.
+ * Each group contributes up to two rows: Σ_G w ≤ max and -Σ_G w ≤ -min.
+ */
+export function toOptimizerConstraints(constraints: PortfolioConstraints): OptimizerConstraints {
+  const lb = TRAINING_DIRECTIONS.map((d) => directionBounds(constraints, d.key).min);
+  const ub = TRAINING_DIRECTIONS.map((d) => directionBounds(constraints, d.key).max);
+  const Aineq: number[][] = [];
+  const bineq: number[] = [];
+
+  for (const group of constraints.groups) {
+    const row = TRAINING_DIRECTIONS.map((d) =>
+      group.directionKeys.includes(d.key) ? 1 : 0
+    );
+    if (group.max !== undefined) {
+      Aineq.push(row);
+      bineq.push(group.max);
+    }
+    if (group.min !== undefined) {
+      Aineq.push(row.map((v) => -v));
+      bineq.push(-group.min);
+    }
+  }
+
+  return { lb, ub, Aineq, bineq };
+}
+
+/**
+ * Check that at least one allocation satisfies every constraint.
+ *
+ * Simple contradictions get a specific issue so the UI can point at the
+ * offending row; anything left (e.g. overlapping groups) is caught by an
+ * exact feasibility solve.
+ */
+export function validatePortfolioConstraints(
+  constraints: PortfolioConstraints
+): ConstraintIssue[] {
+  const issues: ConstraintIssue[] = [];
+  const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+
+  let sumMin = 0;
+  let sumMax = 0;
+  for (const dir of TRAINING_DIRECTIONS) {
+    const { min, max } = directionBounds(constraints, dir.key);
+    sumMin += min;
+    sumMax += max;
+    if (!(min >= 0 && max <= 1)) {
+      issues.push({
+        code: "invalid_range",
+        message: `${dir.name}: bounds must lie between 0% and 100%`,
+        directionKey: dir.key,
+      });
+    } else if (min > max) {
+      issues.push({
+        code: "min_exceeds_max",
+        message: `${dir.name}: minimum ${pct(min)} exceeds maximum ${pct(max)}`,
+        directionKey: dir.key,
+      });
+    }
+  }
+
+  if (sumMin > 1 + 1e-9) {
+    issues.push({
+      code: "sum_min_exceeds_one",
+      message: `Direction minimums add up to ${pct(sumMin)}, more than 100%`,
+    });
+  }
+  if (sumMax < 1 - 1e-9) {
+    issues.push({
+      code: "sum_max_below_one",
+      message: `Direction maximums add up to ${pct(sumMax)}, less than 100%`,
+    });
+  }
+
+  for (const group of constraints.groups) {
+    const members = TRAINING_DIRECTIONS.filter((d) => group.directionKeys.includes(d.key));
+    const name = group.label || group.id;
+    if (members.length === 0) {
+      issues.push({
+        code: "group_empty",
+        message: `Group "${name}" has no directions`,
+        groupId: group.id,
+      });
+      continue;
+    }
+    const memberMin = members.reduce((s, d) => s + directionBounds(constraints, d.key).min, 0);
+    const memberMax = members.reduce((s, d) => s + directionBounds(constraints, d.key).max, 0);
+
+    if (group.min !== undefined && group.max !== undefined && group.min > group.max) {
+      issues.push({
+        code: "group_min_exceeds_max",
+        message: `Group "${name}": minimum ${pct(group.min)} exceeds maximum ${pct(group.max)}`,
+        groupId: group.id,
+      });
+    }
+    if (group.min !== undefined && group.min > memberMax + 1e-9) {
+      issues.push({
+        code: "group_min_unreachable",
+        message: `Group "${name}": minimum ${pct(group.min)} is above its directions' combined maximum ${pct(memberMax)}`,
+        groupId: group.id,
+      });
+    }
+    if (group.max !== undefined && group.max < memberMin - 1e-9) {
+      issues.push({
+        code: "group_max_unreachable",
+        message: `Group "${name}": maximum ${pct(group.max)} is below its directions' combined minimum ${pct(memberMin)}`,
+        groupId: group.id,
+      });
+    }
+  }
+
+  if (issues.length > 0) return issues;
+
+  // Exact check: find the allocation closest to equal weights
+  const n = TRAINING_DIRECTIONS.length;
+  const { lb, ub, Aineq, bineq } = toOptimizerConstraints(constraints);
+  const result = solveQP({
+    Q: identity(n),
+    c: new Array(n).fill(-1 / n),
+    Aeq: [new Array(n).fill(1)],
+    beq: [1],
+    Aineq,
+    bineq,
+    lb,
+    ub,
+  });
+  if (result.status !== "optimal") {
+    issues.push({
+      code: "infeasible",
+      message: "The group constraints cannot all be satisfied together with the direction bounds",
+    });
+  }
+
+  return issues;
+}
@@ -0,0 +1,182 @@
+import type { TopicInfo, CovarianceEstimator } from "./portfolio-types";
+import { TRAINING_DIRECTIONS } from "./portfolio-types";
+
+/** Diagonal loading that keeps the plain estimators positive definite. */
+const DIAGONAL_LOADING = 0.001;
+/** Shrinkage already conditions the matrix; this only guards flat directions. */
+const SHRUNK_DIAGONAL_LOADING = 1e-6;
+
+export interface CovarianceEstimate {
+  matrix: number[][];
+  shrinkage: number | null; // Ledoit–Wolf intensity δ in [0, 1]; null for the other estimators
+}
+
+/** One observation per active topic: its affinity to each direction, and its paper count. */
+function topicObservations(
+  topics: TopicInfo[],
+  affinityMatrix: Record<number, number[]>
+): { rows: number[][]; counts: number[] } {
+  const n = TRAINING_DIRECTIONS.length;
+  const activeTopics = topics.filter((t) => t.topicNumber !== -1);
+  return {
+    rows: activeTopics.map((topic) => {
+      const affinities = affinityMatrix[topic.topicNumber] ?? [];
+      return Array.from({ length: n }, (_, d) => affinities[d] ?? 0);
+    }),
+    counts: activeTopics.map((t) => Math.max(t.count, 0)),
+  };
+}
+
+function zeros(n: number): number[][] {
+  return Array.from({ length: n }, () => new Array(n).fill(0));
+}
+
+function addDiagonal(matrix: number[][], amount: number): number[][] {
+  return matrix.map((row, i) => row.map((v, j) => (i === j ? v + amount : v)));
+}
+
+/** Unweighted sample covariance, every topic one observation (divisor m − 1). */
+function sampleCovariance(rows: number[][], n: number): number[][] {
+  const m = rows.length;
+  const means = Array.from({ length: n }, (_, d) => rows.reduce((s, r) => s + r[d], 0) / Math.max(m, 1));
+  const cov = zeros(n);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      let sum = 0;
+      for (const r of rows) sum += (r[i] - means[i]) * (r[j] - means[j]);
+      cov[i][j] = sum / Math.max(m - 1, 1);
+    }
+  }
+  return cov;
+}
+
+/**
+ * Covariance with each topic weighted by its paper count, so a topic of
+ * 400 papers outweighs one of 5. Uses the unbiased divisor for
+ * reliability weights, 1 − Σ w², which reduces to m − 1 for equal counts.
+ */
+function weightedCovariance(rows: number[][], counts: number[], n: number): number[][] {
+  const total = counts.reduce((a, b) => a + b, 0);
+  if (total <= 0) return sampleCovariance(rows, n);
+  const w = counts.map((c) => c / total);
+  const means = Array.from({ length: n }, (_, d) => rows.reduce((s, r, k) => s + w[k] * r[d], 0));
+  const correction = 1 - w.reduce((s, wk) => s + wk * wk, 0);
+  const cov = zeros(n);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      let sum = 0;
+      rows.forEach((r, k) => {
+        sum += w[k] * (r[i] - means[i]) * (r[j] - means[j]);
+      });
+      cov[i][j] = correction > 1e-12 ? sum / correction : 0;
+    }
+  }
+  return cov;
+}
+
+/**
+ * Ledoit–Wolf shrinkage towards a constant-correlation target (Ledoit &
+ * Wolf, "Honey, I Shrunk the Sample Covariance Matrix", 2004): every pair
+ * keeps its own variances but shares the average correlation r̄, and the
+ * intensity δ minimizing expected squared error is estimated from the
+ * topics themselves. Directions with no variance are left out of r̄.
+ */
+function ledoitWolfCovariance(rows: number[][], n: number): { matrix: number[][]; shrinkage: number } {
+  const m = rows.length;
+  if (m < 2) return { matrix: sampleCovariance(rows, n), shrinkage: 1 };
+
+  const means = Array.from({ length: n }, (_, d) => rows.reduce((s, r) => s + r[d], 0) / m);
+  const x = rows.map((r) => r.map((v, d) => v - means[d]));
+
+  // Maximum-likelihood covariance (divisor m), as in the paper
+  const s = zeros(n);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      s[i][j] = x.reduce((sum, xt) => sum + xt[i] * xt[j], 0) / m;
+    }
+  }
+  const sd = s.map((row, i) => Math.sqrt(Math.max(row[i], 0)));
+
+  let corrSum = 0;
+  let pairs = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      if (sd[i] > 0 && sd[j] > 0) {
+        corrSum += s[i][j] / (sd[i] * sd[j]);
+        pairs++;
+      }
+    }
+  }
+  const rBar = pairs > 0 ? corrSum / pairs : 0;
+
+  const target = s.map((row, i) => row.map((v, j) => (i === j ? v : rBar * sd[i] * sd[j])));
+
+  // π: sum of asymptotic variances of the sample covariances
+  let pi = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      pi += x.reduce((sum, xt) => sum + (xt[i] * xt[j] - s[i][j]) ** 2, 0) / m;
+    }
+  }
+
+  // ρ: covariance of the target with the sample estimate
+  let rho = 0;
+  for (let i = 0; i < n; i++) {
+    rho += x.reduce((sum, xt) => sum + (xt[i] * xt[i] - s[i][i]) ** 2, 0) / m;
+  }
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      if (i === j || !(sd[i] > 0 && sd[j] > 0)) continue;
+      const thetaII = x.reduce((sum, xt) => sum + (xt[i] * xt[i] - s[i][i]) * (xt[i] * xt[j] - s[i][j]), 0) / m;
+      const thetaJJ = x.reduce((sum, xt) => sum + (xt[j] * xt[j] - s[j][j]) * (xt[i] * xt[j] - s[i][j]), 0) / m;
+      rho += (rBar / 2) * ((sd[j] / sd[i]) * thetaII + (sd[i] / sd[j]) * thetaJJ);
+    }
+  }
+
+  // γ: misspecification of the target
+  let gamma = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) gamma += (target[i][j] - s[i][j]) ** 2;
+  }
+
+  const shrinkage = gamma > 0 ? Math.max(0, Math.min(1, (pi - rho) / gamma / m)) : 1;
+  // Back to the m − 1 divisor of the other estimators so risk levels stay comparable
+  const scale = m / (m - 1);
+  return {
+    matrix: s.map((row, i) => row.map((v, j) => scale * (shrinkage * target[i][j] + (1 - shrinkage) * v))),
+    shrinkage,
+  };
+}
+
+/**
+ * Covariance between training directions, estimated over topics as
+ * observations of their affinity scores: two directions covary when they
+ * map to the same topics (investing in both doesn't truly diversify).
+ */
+export function estimateCovariance(
+  topics: TopicInfo[],
+  affinityMatrix: Record<number, number[]>,
+  estimator: CovarianceEstimator = "sample"
+): CovarianceEstimate {
+  const n = TRAINING_DIRECTIONS.length;
+  const { rows, counts } = topicObservations(topics, affinityMatrix);
+
+  switch (estimator) {
+    case "weighted":
+      return { matrix: addDiagonal(weightedCovariance(rows, counts, n), DIAGONAL_LOADING), shrinkage: null };
+    case "ledoit_wolf": {
+      const { matrix, shrinkage } = ledoitWolfCovariance(rows, n);
+      return { matrix: addDiagonal(matrix, SHRUNK_DIAGONAL_LOADING), shrinkage };
+    }
+    case "sample":
+      return { matrix: addDiagonal(sampleCovariance(rows, n), DIAGONAL_LOADING), shrinkage: null };
+  }
+}
+
+/** Correlation matrix of a covariance matrix; zero-variance directions correlate with nothing. */
+export function covarianceToCorrelation(cov: number[][]): number[][] {
+  const sd = cov.map((row, i) => Math.sqrt(Math.max(row[i], 0)));
+  return cov.map((row, i) =>
+    row.map((v, j) => (i === j ? 1 : sd[i] > 0 && sd[j] > 0 ? v / (sd[i] * sd[j]) : 0))
+  );
+}
@@ -0,0 +1,118 @@
+import Papa from "papaparse";
+
+/**
+ * Column mappings for the two CSV uploads. A mapping names, for each
+ * target field, the CSV column it is read from; unmapped fields take
+ * the parser's fallback and are reported by the upload validation.
+ * The defaults are the column names BERTopic writes.
+ */
+export type CsvKind = "topics" | "papers";
+
+export type TopicCsvField = "topicNumber" | "count" | "name" | "keywords" | "representativeDocs";
+
+export type PaperCsvField =
+  | "id"
+  | "doi"
+  | "title"
+  | "abstract"
+  | "year"
+  | "venue"
+  | "authors"
+  | "url"
+  | "source"
+  | "fields"
+  | "topicNumber"
+  | "rarityLabel";
+
+export type CsvMapping<F extends string = string> = Partial<Record<F, string>>;
+
+export interface CsvFieldSpec<F extends string> {
+  field: F;
+  column: string; // BERTopic's column name
+  required: boolean;
+}
+
+export const TOPIC_CSV_FIELDS: CsvFieldSpec<TopicCsvField>[] = [
+  { field: "topicNumber", column: "Topic", required: true },
+  { field: "count", column: "Count", required: true },
+  { field: "name", column: "Name", required: false },
+  { field: "keywords", column: "Representation", required: false },
+  { field: "representativeDocs", column: "Representative_Docs", required: false },
+];
+
+export const PAPER_CSV_FIELDS: CsvFieldSpec<PaperCsvField>[] = [
+  { field: "id", column: "id", required: false },
+  { field: "doi", column: "doi", required: false },
+  { field: "title", column: "title", required: true },
+  { field: "abstract", column: "abstract", required: false },
+  { field: "year", column: "year", required: false },
+  { field: "venue", column: "venue", required: false },
+  { field: "authors", column: "authors", required: false },
+  { field: "url", column: "url", required: false },
+  { field: "source", column: "source", required: false },
+  { field: "fields", column: "fields", required: false },
+  { field: "topicNumber", column: "Topic", required: false },
+  { field: "rarityLabel", column: "RarityLabel", required: false },
+];
+
+function defaultMapping<F extends string>(specs: CsvFieldSpec<F>[]): CsvMapping<F> {
+  return Object.fromEntries(specs.map((s) => [s.field, s.column])) as CsvMapping<F>;
+}
+
+export const DEFAULT_TOPIC_MAPPING = defaultMapping(TOPIC_CSV_FIELDS);
+export const DEFAULT_PAPER_MAPPING = defaultMapping(PAPER_CSV_FIELDS);
+
+export function csvFieldSpecs(kind: CsvKind): CsvFieldSpec<string>[] {
+  return kind === "topics" ? TOPIC_CSV_FIELDS : PAPER_CSV_FIELDS;
+}
+
+export interface CsvPreview {
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+/** Header and first rows of a CSV file, for the mapping step. */
+export function previewCSV(csvContent: string, maxRows = 5): CsvPreview {
+  const parsed = Papa.parse<Record<string, string>>(csvContent, {
+    header: true,
+    skipEmptyLines: true,
+    preview: maxRows,
+  });
+  return { columns: (parsed.meta.fields ?? []).filter(Boolean), rows: parsed.data };
+}
+
+const normalizeColumn = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Map each field to the column carrying its BERTopic name or the field's
+ * own name, ignoring case and punctuation ("Topic", "topic_number", ...).
+ */
+export function suggestMapping<F extends string>(columns: string[], specs: CsvFieldSpec<F>[]): CsvMapping<F> {
+  const byName = new Map(columns.map((c) => [normalizeColumn(c), c]));
+  const mapping: CsvMapping<F> = {};
+  for (const spec of specs) {
+    const column = byName.get(normalizeColumn(spec.column)) ?? byName.get(normalizeColumn(spec.field));
+    if (column) mapping[spec.field] = column;
+  }
+  return mapping;
+}
+
+/** Required fields the mapping leaves unmapped or points at columns the file lacks. */
+export function unmappedRequiredFields<F extends string>(
+  mapping: CsvMapping<F>,
+  specs: CsvFieldSpec<F>[],
+  columns: string[]
+): F[] {
+  return specs
+    .filter((s) => s.required && !(mapping[s.field] && columns.includes(mapping[s.field]!)))
+    .map((s) => s.field);
+}
+
+/** A column mapping saved under a name for later uploads of the same kind. */
+export interface CsvMappingPreset {
+  id: string;
+  name: string;
+  kind: CsvKind;
+  mapping: CsvMapping;
+  savedAt: string;
+}
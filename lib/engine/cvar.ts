@@ -0,0 +1,221 @@
+import type { TopicInfo } from "./portfolio-types";
+import { TRAINING_DIRECTIONS, portfolioTopics } from "./portfolio-types";
+import { solveQP, type QPResult } from "./qp-solver";
+import type { OptimizerConstraints } from "./constraints";
+import {
+  maxFeasibleReturn,
+  evaluatePortfolio,
+  type OptimizerFrontierPoint,
+  type PortfolioMetrics,
+  type FrontierResult,
+} from "./optimizer";
+
+/**
+ * Topics as scenarios, weighted by paper count, for a downside risk model.
+ *
+ * In scenario s the portfolio loses the share of topic s it leaves
+ * uncovered: loss_s(w) = m_s · Σ_d w_d (1 − a_sd), with m_s the rarity
+ * premium for RARE topics and 1 otherwise. Unlike covariance, covering a
+ * topic more than needed never counts as risk.
+ */
+export interface TopicScenarios {
+  probabilities: number[];
+  losses: number[][]; // losses[s][d]: loss in scenario s per unit weight on d
+}
+
+export const DEFAULT_CVAR_CONFIDENCE = 0.9;
+
+const RIDGE = 1e-6;
+const MAX_CUTS = 200;
+const GAP_TOL = 1e-9;
+
+export function buildTopicScenarios(
+  topics: TopicInfo[],
+  affinityMatrix: Record<number, number[]>,
+  rarityPremium: number
+): TopicScenarios {
+  const active = portfolioTopics(topics).filter((t) => t.topicNumber !== -1);
+  const n = TRAINING_DIRECTIONS.length;
+  const totalPapers = active.reduce((sum, t) => sum + t.count, 0);
+
+  return {
+    probabilities: active.map((t) =>
+      totalPapers > 0 ? t.count / totalPapers : 1 / active.length
+    ),
+    losses: active.map((t) => {
+      const multiplier = t.rarityLabel === "RARE" ? Math.max(rarityPremium, 1) : 1;
+      const affinities = affinityMatrix[t.topicNumber] ?? new Array(n).fill(0);
+      return Array.from({ length: n }, (_, d) => multiplier * (1 - (affinities[d] ?? 0)));
+    }),
+  };
+}
+
+/**
+ * CVaR at `confidence`: expected loss over the worst (1 − confidence)
+ * share of paper mass. Also returns the tail weights q (Σq = 1) that
+ * attain it, which define a supporting hyperplane of CVaR at w.
+ */
+export function computeCVaR(
+  weights: number[],
+  scenarios: TopicScenarios,
+  confidence = DEFAULT_CVAR_CONFIDENCE
+): { cvar: number; tailWeights: number[] } {
+  const losses = scenarios.losses.map((row) =>
+    row.reduce((sum, l, d) => sum + l * weights[d], 0)
+  );
+  const tailMass = Math.max(1 - confidence, 1e-9);
+  const order = losses.map((_, s) => s).sort((a, b) => losses[b] - losses[a]);
+
+  const tailWeights = new Array(losses.length).fill(0);
+  let remaining = tailMass;
+  for (const s of order) {
+    if (remaining <= 0) break;
+    const take = Math.min(scenarios.probabilities[s], remaining);
+    tailWeights[s] = take / tailMass;
+    remaining -= take;
+  }
+
+  return {
+    cvar: tailWeights.reduce((sum, q, s) => sum + q * losses[s], 0),
+    tailWeights,
+  };
+}
+
+/**
+ * Minimize CVaR subject to the budget, bounds, group rows and, when
+ * given, μᵀw = targetReturn.
+ *
+ * CVaR is the maximum of the linear functions Σ_s q_s·loss_s(w) over the
+ * tail weights q, so Kelley's cutting-plane method solves it exactly in
+ * finitely many steps: minimize t subject to t ≥ each cut, add the cut
+ * that is active at the new point, repeat until the model is tight.
+ * Each step is a (n+1)-variable QP with a tiny ridge, like maxFeasibleReturn.
+ */
+export function optimizeMeanCVaR(
+  expectedReturns: number[],
+  scenarios: TopicScenarios,
+  targetReturn: number | null,
+  constraints: OptimizerConstraints,
+  confidence = DEFAULT_CVAR_CONFIDENCE
+): QPResult {
+  const n = expectedReturns.length;
+  const pad = (row: number[], last = 0) => [...row, last];
+
+  const Aeq = [pad(new Array(n).fill(1))];
+  const beq = [1];
+  if (targetReturn !== null) {
+    Aeq.push(pad(expectedReturns));
+    beq.push(targetReturn);
+  }
+
+  const cutRows: number[][] = [];
+  const addCut = (weights: number[]) => {
+    const { tailWeights } = computeCVaR(weights, scenarios, confidence);
+    const slope = Array.from({ length: n }, (_, d) =>
+      tailWeights.reduce((sum, q, s) => sum + q * scenarios.losses[s][d], 0)
+    );
+    cutRows.push(pad(slope, -1)); // slopeᵀw − t ≤ 0
+  };
+  addCut(new Array(n).fill(1 / n));
+
+  let result: QPResult = { x: new Array(n).fill(0), status: "max_iterations", iterations: 0, objective: 0 };
+  for (let k = 0; k < MAX_CUTS; k++) {
+    const step = solveQP({
+      Q: Array.from({ length: n + 1 }, (_, i) =>
+        Array.from({ length: n + 1 }, (_, j) => (i === j ? RIDGE : 0))
+      ),
+      c: pad(new Array(n).fill(0), 1),
+      Aeq,
+      beq,
+      Aineq: [...constraints.Aineq.map((row) => pad(row)), ...cutRows],
+      bineq: [...constraints.bineq, ...new Array(cutRows.length).fill(0)],
+      lb: pad(constraints.lb, 0), // losses are non-negative, so is CVaR
+      ub: pad(constraints.ub, Infinity),
+    });
+    if (step.status !== "optimal") {
+      return { ...step, x: step.x.slice(0, n) };
+    }
+
+    const weights = step.x.slice(0, n);
+    const model = step.x[n];
+    const { cvar } = computeCVaR(weights, scenarios, confidence);
+    result = { x: weights, status: "optimal", iterations: k + 1, objective: cvar };
+    if (cvar - model <= GAP_TOL * Math.max(1, cvar)) return result;
+    addCut(weights);
+  }
+
+  return { ...result, status: "max_iterations" };
+}
+
+/**
+ * Mean-CVaR frontier between the minimum-CVaR and maximum-return
+ * portfolios. Points carry CVaR as `risk` and the excess return per unit
+ * of CVaR (a STARR ratio) as `sharpe_ratio`, so the chart and the
+ * risk-tolerance pick work unchanged.
+ */
+export function computeCVaRFrontier(
+  expectedReturns: number[],
+  covMatrix: number[][],
+  scenarios: TopicScenarios,
+  constraints: OptimizerConstraints,
+  numPoints = 50,
+  riskFreeRate = 0,
+  confidence = DEFAULT_CVAR_CONFIDENCE
+): FrontierResult {
+  const minCVaR = optimizeMeanCVaR(expectedReturns, scenarios, null, constraints, confidence);
+  const maxRet = maxFeasibleReturn(expectedReturns, constraints);
+  if (minCVaR.status !== "optimal" || maxRet.status !== "optimal") {
+    return { frontier: [], converged: false, infeasibleTargets: 0 };
+  }
+
+  const minReturn = minCVaR.x.reduce((s, w, i) => s + w * expectedReturns[i], 0);
+  const maxReturn = maxRet.x.reduce((s, w, i) => s + w * expectedReturns[i], 0);
+  const points = maxReturn - minReturn > 1e-9 ? numPoints : 1;
+
+  const frontier: OptimizerFrontierPoint[] = [];
+  let infeasibleTargets = 0;
+
+  for (let i = 0; i < points; i++) {
+    const targetReturn =
+      points === 1
+        ? minReturn
+        : minReturn + (i / (points - 1)) * (maxReturn - minReturn);
+
+    const solution =
+      i === 0
+        ? minCVaR
+        : optimizeMeanCVaR(expectedReturns, scenarios, targetReturn, constraints, confidence);
+    // Weights of a failed solve may break the bounds; leave the target out
+    if (solution.status !== "optimal") {
+      infeasibleTargets++;
+      continue;
+    }
+
+    frontier.push({
+      ...evaluateCVaRPortfolio(solution.x, expectedReturns, covMatrix, scenarios, riskFreeRate, confidence),
+      target_return: Math.round(targetReturn * 1e6) / 1e6,
+      status: solution.status,
+    });
+  }
+
+  return { frontier, converged: infeasibleTargets === 0, infeasibleTargets };
+}
+
+/** evaluatePortfolio with CVaR in place of volatility. */
+export function evaluateCVaRPortfolio(
+  weights: number[],
+  expectedReturns: number[],
+  covMatrix: number[][],
+  scenarios: TopicScenarios,
+  riskFreeRate = 0,
+  confidence = DEFAULT_CVAR_CONFIDENCE
+): PortfolioMetrics {
+  const point = evaluatePortfolio(weights, expectedReturns, covMatrix, riskFreeRate);
+  const { cvar } = computeCVaR(weights, scenarios, confidence);
+  const ratio = cvar > 1e-8 ? (point.return - riskFreeRate) / cvar : 0;
+  return {
+    ...point,
+    risk: Math.round(cvar * 1e6) / 1e6,
+    sharpe_ratio: Math.round(ratio * 1e4) / 1e4,
+  };
+}
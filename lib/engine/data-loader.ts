@@ -1,5 +1,12 @@
 import Papa from "papaparse";
-import type { TopicInfo, Paper } from "./portfolio-types";
+import type { TopicInfo, Paper, PaperField } from "./portfolio-types";
+import {
+  DEFAULT_TOPIC_MAPPING,
+  DEFAULT_PAPER_MAPPING,
+  type CsvMapping,
+  type TopicCsvField,
+  type PaperCsvField,
+} from "./csv-mapping";
 
 function parseKeywordArray(raw: string): string[] {
   try {
@@ -19,62 +26,95 @@ function parseDocArray(raw: string): string[] {
   }
 }
 
+/** Topics with fewer papers than this are RARE. */
+export const RARE_TOPIC_THRESHOLD = 8;
+
+export function rarityForCount(topicNumber: number, count: number): TopicInfo["rarityLabel"] {
+  if (topicNumber === -1) return "NO_TOPIC";
+  return count >= RARE_TOPIC_THRESHOLD ? "COMMON" : "RARE";
+}
+
+/** Value of `field` in a parsed row under `mapping`; "" when unmapped or absent. */
+function cell<F extends string>(row: Record<string, string>, mapping: CsvMapping<F>, field: F): string {
+  const column = mapping[field];
+  return column ? (row[column] ?? "").trim() : "";
+}
+
 /**
  * Parse topics from CSV string content (browser-safe, no fs dependency).
+ * Columns are read through `mapping`, BERTopic's own names by default.
  */
-export function parseTopicsCSV(csvContent: string): TopicInfo[] {
+export function parseTopicsCSV(
+  csvContent: string,
+  mapping: CsvMapping<TopicCsvField> = DEFAULT_TOPIC_MAPPING
+): TopicInfo[] {
   const parsed = Papa.parse(csvContent, {
     header: true,
     skipEmptyLines: true,
   });
 
   return (parsed.data as Record<string, string>[]).map((row) => {
-    const topicNum = parseInt(row.Topic, 10);
-    const count = parseInt(row.Count, 10);
-
-    let rarityLabel: "COMMON" | "RARE" | "NO_TOPIC";
-    if (topicNum === -1) {
-      rarityLabel = "NO_TOPIC";
-    } else if (count >= 8) {
-      rarityLabel = "COMMON";
-    } else {
-      rarityLabel = "RARE";
-    }
+    const topicNum = parseInt(cell(row, mapping, "topicNumber"), 10);
+    const count = parseInt(cell(row, mapping, "count"), 10);
+
+    const rarityLabel = rarityForCount(topicNum, count);
 
     return {
       topicNumber: topicNum,
       count,
-      name: row.Name || "",
-      keywords: parseKeywordArray(row.Representation || "[]"),
-      representativeDocs: parseDocArray(row.Representative_Docs || "[]"),
+      name: cell(row, mapping, "name"),
+      keywords: parseKeywordArray(cell(row, mapping, "keywords") || "[]"),
+      representativeDocs: parseDocArray(cell(row, mapping, "representativeDocs") || "[]"),
       rarityLabel,
     };
   });
 }
 
+const RARITY_LABELS: readonly Paper["rarityLabel"][] = ["COMMON", "RARE", "NO_TOPIC"];
+
 /**
  * Parse papers from CSV string content (browser-safe, no fs dependency).
+ * A missing year or topic is recorded in `missing` rather than guessed.
  */
-export function parsePapersCSV(csvContent: string): Paper[] {
+export function parsePapersCSV(
+  csvContent: string,
+  mapping: CsvMapping<PaperCsvField> = DEFAULT_PAPER_MAPPING
+): Paper[] {
   const parsed = Papa.parse(csvContent, {
     header: true,
     skipEmptyLines: true,
   });
 
-  return (parsed.data as Record<string, string>[]).map((row) => ({
-    id: row.id || "",
-    doi: row.doi || "",
-    title: row.title || "",
-    abstract: row.abstract || undefined,
-    year: parseInt(row.year, 10) || 2026,
-    venue: row.venue || "",
-    authors: row.authors || "",
-    url: row.url || "",
-    source: row.source || "Scopus",
-    fields: row.fields || undefined,
-    topicNumber: parseInt(row.Topic, 10) || -1,
-    rarityLabel: (row.RarityLabel as "COMMON" | "RARE" | "NO_TOPIC") || "NO_TOPIC",
-  }));
+  return (parsed.data as Record<string, string>[]).map((row) => {
+    const yearText = cell(row, mapping, "year");
+    const topicText = cell(row, mapping, "topicNumber");
+    const year = /^\d{4}$/.test(yearText) ? parseInt(yearText, 10) : NaN;
+    const topicNumber = /^-?\d+$/.test(topicText) ? parseInt(topicText, 10) : NaN;
+    const rarityLabel = cell(row, mapping, "rarityLabel") as Paper["rarityLabel"];
+    const abstract = cell(row, mapping, "abstract");
+
+    const missing: PaperField[] = [];
+    if (!Number.isFinite(topicNumber)) missing.push("topic");
+    if (!Number.isFinite(year)) missing.push("year");
+    if (!abstract) missing.push("abstract");
+
+    const paper: Paper = {
+      id: cell(row, mapping, "id"),
+      doi: cell(row, mapping, "doi"),
+      title: cell(row, mapping, "title"),
+      abstract: abstract || undefined,
+      year: Number.isFinite(year) ? year : new Date().getFullYear(),
+      venue: cell(row, mapping, "venue"),
+      authors: cell(row, mapping, "authors"),
+      url: cell(row, mapping, "url"),
+      source: cell(row, mapping, "source"),
+      fields: cell(row, mapping, "fields") || undefined,
+      topicNumber: Number.isFinite(topicNumber) ? topicNumber : -1,
+      rarityLabel: RARITY_LABELS.includes(rarityLabel) ? rarityLabel : "NO_TOPIC",
+    };
+    if (missing.length > 0) paper.missing = missing;
+    return paper;
+  });
 }
 
 export function getTopicStats(topics: TopicInfo[]) {
@@ -0,0 +1,98 @@
+/**
+ * Consensus affinity scoring. The analysis prompt is run several times,
+ * possibly on different providers, and each cell of the matrix is
+ * aggregated across the runs that returned a well-formed row for its
+ * topic. The per-cell variance is kept so disputed scores can be shown
+ * and, later, weighed by the optimizer.
+ */
+export type AffinityAggregation = "mean" | "median" | "trimmed_mean";
+
+export const AFFINITY_AGGREGATIONS: AffinityAggregation[] = ["mean", "median", "trimmed_mean"];
+
+export type EnsembleProvider = "claude" | "openai" | "gemini";
+
+export interface AnalysisEnsembleSettings {
+  runs: number; // 1 is a single analysis
+  aggregation: AffinityAggregation;
+  providers: EnsembleProvider[]; // runs rotate through these; empty means the provider in Settings
+}
+
+/** How an analysis was scored, stored with its result. */
+export interface EnsembleSummary {
+  runs: number;
+  succeeded: number;
+  aggregation: AffinityAggregation;
+  providers: EnsembleProvider[];
+}
+
+export const MIN_ENSEMBLE_RUNS = 1;
+export const MAX_ENSEMBLE_RUNS = 7;
+
+/** Share of runs cut from each end of a cell's values by the trimmed mean. */
+const TRIM_FRACTION = 0.2;
+
+/** Standard deviation across runs above which a cell counts as disputed. */
+export const DISAGREEMENT_SD = 0.15;
+
+export function createDefaultEnsembleSettings(): AnalysisEnsembleSettings {
+  return { runs: 1, aggregation: "median", providers: [] };
+}
+
+export function aggregateValues(values: number[], aggregation: AffinityAggregation): number {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+  switch (aggregation) {
+    case "mean":
+      return mean(sorted);
+    case "median": {
+      const mid = Math.floor(sorted.length / 2);
+      return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+    }
+    case "trimmed_mean": {
+      const cut = Math.floor(sorted.length * TRIM_FRACTION);
+      return mean(sorted.slice(cut, sorted.length - cut));
+    }
+  }
+}
+
+/** Sample variance; 0 for fewer than two values. */
+function variance(values: number[]): number {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  return values.reduce((s, v) => s + (v - mean) ** 2, 0) / (values.length - 1);
+}
+
+/**
+ * Aggregate the affinity rows of several runs. Rows a run left out or
+ * malformed (null) are ignored rather than counted as a neutral 0.5;
+ * topics no run scored fall back to 0.5 and are listed in `unscored`.
+ */
+export function aggregateAffinityRuns(
+  runs: Array<Record<number, number[] | null>>,
+  topicNumbers: number[],
+  numDirections: number,
+  aggregation: AffinityAggregation
+): {
+  affinityMatrix: Record<number, number[]>;
+  affinityVariance: Record<number, number[]>;
+  unscored: number[];
+} {
+  const affinityMatrix: Record<number, number[]> = {};
+  const affinityVariance: Record<number, number[]> = {};
+  const unscored: number[] = [];
+
+  for (const topicNumber of topicNumbers) {
+    const rows = runs.map((run) => run[topicNumber]).filter((r): r is number[] => !!r);
+    if (rows.length === 0) {
+      affinityMatrix[topicNumber] = new Array(numDirections).fill(0.5);
+      affinityVariance[topicNumber] = new Array(numDirections).fill(0);
+      unscored.push(topicNumber);
+      continue;
+    }
+    const columns = Array.from({ length: numDirections }, (_, d) => rows.map((row) => row[d]));
+    affinityMatrix[topicNumber] = columns.map((values) => aggregateValues(values, aggregation));
+    affinityVariance[topicNumber] = columns.map(variance);
+  }
+  return { affinityMatrix, affinityVariance, unscored };
+}
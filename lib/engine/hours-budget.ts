@@ -0,0 +1,83 @@
+import {
+  MIN_COURSE_WEIGHT,
+  type CourseOutline,
+  type ProgramBudget,
+} from "./portfolio-types";
+
+/** Share of its target a course's unit minutes may miss by before it is flagged. */
+export const HOURS_TOLERANCE = 0.1;
+
+export function budgetHours(budget: ProgramBudget): number {
+  return budget.unit === "ects" ? budget.amount * budget.hoursPerEcts : budget.amount;
+}
+
+/**
+ * Hour target per direction: the budget split in proportion to the
+ * weights, in whole multiples of `roundTo`, with no course below
+ * `minCourseHours`. Directions under MIN_COURSE_WEIGHT get no course
+ * and 0 hours. Largest-remainder rounding keeps the targets summing to
+ * the budget; hours left over by the rounding step go to the largest
+ * course. Null when the budget cannot give every course its minimum.
+ */
+export function allocateCourseHours(weights: number[], budget: ProgramBudget): number[] | null {
+  const total = budgetHours(budget);
+  const step = budget.roundTo > 0 ? budget.roundTo : 1;
+  const steps = Math.floor(total / step + 1e-9);
+  const minSteps = Math.ceil(budget.minCourseHours / step - 1e-9);
+
+  const eligible = weights.flatMap((w, d) => (w >= MIN_COURSE_WEIGHT ? [d] : []));
+  if (eligible.length === 0 || eligible.length * minSteps > steps) return null;
+
+  // Proportional shares in steps; courses falling below the minimum are
+  // pinned to it and the rest re-split until none do
+  const share = new Array(weights.length).fill(0);
+  const pinned = new Set<number>();
+  for (;;) {
+    const free = eligible.filter((d) => !pinned.has(d));
+    const freeSteps = steps - pinned.size * minSteps;
+    const freeWeight = free.reduce((s, d) => s + weights[d], 0);
+    for (const d of pinned) share[d] = minSteps;
+    for (const d of free) share[d] = (freeSteps * weights[d]) / freeWeight;
+    const below = free.filter((d) => share[d] < minSteps);
+    if (below.length === 0) break;
+    below.forEach((d) => pinned.add(d));
+  }
+
+  const allotted = share.map((x) => Math.floor(x + 1e-9));
+  const missing = steps - allotted.reduce((a, b) => a + b, 0);
+  [...eligible]
+    .sort((a, b) => share[b] - allotted[b] - (share[a] - allotted[a]) || weights[b] - weights[a])
+    .slice(0, missing)
+    .forEach((d) => allotted[d]++);
+
+  const hours = allotted.map((n) => n * step);
+  const largest = eligible.reduce((a, b) => (hours[b] > hours[a] ? b : a));
+  hours[largest] += Math.round((total - steps * step) * 100) / 100;
+  return hours;
+}
+
+export interface CourseHoursCheck {
+  targetHours: number;
+  plannedHours: number; // Σ unit estimatedMinutes / 60
+  statedHours: number; // the outline's own totalHours
+  matches: boolean;
+}
+
+/** Whether a generated outline's units fill the hours it was allotted. */
+export function checkCourseHours(
+  course: CourseOutline,
+  targetHours: number,
+  tolerance = HOURS_TOLERANCE
+): CourseHoursCheck {
+  const minutes = course.modules.reduce(
+    (sum, mod) => sum + mod.units.reduce((s, unit) => s + unit.estimatedMinutes, 0),
+    0
+  );
+  const plannedHours = Math.round((minutes / 60) * 10) / 10;
+  return {
+    targetHours,
+    plannedHours,
+    statedHours: course.totalHours,
+    matches: Math.abs(plannedHours - targetHours) <= tolerance * targetHours,
+  };
+}
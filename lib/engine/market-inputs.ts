@@ -0,0 +1,49 @@
+import type { TopicInfo, ExpertView, ReturnModelCoefficients, CovarianceEstimator } from "./portfolio-types";
+import { portfolioTopics } from "./portfolio-types";
+import { computeExpectedReturns } from "./skill-mapper";
+import { estimateCovariance } from "./covariance";
+import { computePosteriorReturns } from "./black-litterman";
+import { applyTopicMomentum, type TopicMomentum } from "./momentum";
+
+/** Optimizer inputs estimated from a topic set and its affinity scores. */
+export interface MarketInputs {
+  priorReturns: number[]; // literature-only, before expert views
+  expectedReturns: number[];
+  covMatrix: number[][];
+  covShrinkage: number | null; // Ledoit–Wolf intensity; null for unshrunk estimators
+}
+
+export interface EstimationSettings {
+  returnModel: ReturnModelCoefficients;
+  expertViews: ExpertView[];
+  momentum?: TopicMomentum; // momentum-adjusted returns; absent means static
+  covarianceEstimator?: CovarianceEstimator; // absent means the unweighted sample covariance
+}
+
+/**
+ * Expected returns and covariance for one project: the literature-derived
+ * prior (optionally tilted towards growing topics), blended with
+ * committee views (Black–Litterman). Every consumer
+ * (optimizer, resampling, sensitivity) estimates through here so they
+ * agree on the model.
+ */
+export function estimateMarketInputs(
+  topics: TopicInfo[],
+  affinityMatrix: Record<number, number[]>,
+  settings: EstimationSettings
+): MarketInputs {
+  topics = portfolioTopics(topics);
+  const returnTopics = settings.momentum ? applyTopicMomentum(topics, settings.momentum) : topics;
+  const priorReturns = computeExpectedReturns(returnTopics, affinityMatrix, settings.returnModel);
+  const { matrix: covMatrix, shrinkage } = estimateCovariance(
+    topics,
+    affinityMatrix,
+    settings.covarianceEstimator
+  );
+  return {
+    priorReturns,
+    expectedReturns: computePosteriorReturns(priorReturns, covMatrix, settings.expertViews),
+    covMatrix,
+    covShrinkage: shrinkage,
+  };
+}
@@ -0,0 +1,169 @@
+/**
+ * Small dense linear-algebra helpers for the portfolio engine.
+ * Matrices are row-major number[][]; sizes are tiny (6 directions,
+ * a few dozen constraints) so clarity wins over raw speed.
+ */
+
+export function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+export function matVec(m: number[][], v: number[]): number[] {
+  return m.map((row) => dot(row, v));
+}
+
+export function transpose(m: number[][]): number[][] {
+  if (m.length === 0) return [];
+  return m[0].map((_, j) => m.map((row) => row[j]));
+}
+
+export function identity(n: number): number[][] {
+  return Array.from({ length: n }, (_, i) =>
+    Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))
+  );
+}
+
+/** Portfolio variance wᵀΣw. */
+export function quadForm(m: number[][], v: number[]): number {
+  return dot(v, matVec(m, v));
+}
+
+/**
+ * Cholesky factorization m = L·Lᵀ of a symmetric positive-definite matrix.
+ * Returns null when the matrix is not (numerically) positive definite.
+ */
+export function cholesky(m: number[][]): number[][] | null {
+  const n = m.length;
+  const L: number[][] = Array.from({ length: n }, () => new Array(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = m[i][j];
+      for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k];
+      if (i === j) {
+        if (sum <= 1e-14) return null;
+        L[i][i] = Math.sqrt(sum);
+      } else {
+        L[i][j] = sum / L[j][j];
+      }
+    }
+  }
+  return L;
+}
+
+/** Solve L·x = b for lower-triangular L. */
+export function forwardSubstitute(L: number[][], b: number[]): number[] {
+  const n = b.length;
+  const x = new Array(n).fill(0);
+  for (let i = 0; i < n; i++) {
+    let sum = b[i];
+    for (let k = 0; k < i; k++) sum -= L[i][k] * x[k];
+    x[i] = sum / L[i][i];
+  }
+  return x;
+}
+
+/** Solve Lᵀ·x = b for lower-triangular L. */
+export function backSubstituteTransposed(L: number[][], b: number[]): number[] {
+  const n = b.length;
+  const x = new Array(n).fill(0);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = b[i];
+    for (let k = i + 1; k < n; k++) sum -= L[k][i] * x[k];
+    x[i] = sum / L[i][i];
+  }
+  return x;
+}
+
+/** Solve R·x = b for the leading q×q block of upper-triangular R. */
+export function backSubstituteUpper(R: number[][], b: number[]): number[] {
+  const q = b.length;
+  const x = new Array(q).fill(0);
+  for (let i = q - 1; i >= 0; i--) {
+    let sum = b[i];
+    for (let k = i + 1; k < q; k++) sum -= R[i][k] * x[k];
+    x[i] = sum / R[i][i];
+  }
+  return x;
+}
+
+/**
+ * Solve a symmetric positive-definite system m·x = b.
+ * Falls back to Gauss-Jordan elimination when Cholesky fails.
+ */
+export function solveSPD(m: number[][], b: number[]): number[] {
+  const L = cholesky(m);
+  if (L) return backSubstituteTransposed(L, forwardSubstitute(L, b));
+  const inv = invert(m);
+  return matVec(inv, b);
+}
+
+/**
+ * Matrix inverse via Gauss-Jordan elimination with partial pivoting.
+ * Throws if the matrix is singular.
+ */
+export function invert(m: number[][]): number[][] {
+  const n = m.length;
+  const a = m.map((row, i) => [...row, ...identity(n)[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-14) {
+      throw new Error("Matrix is singular");
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    const div = a[col][col];
+    for (let j = 0; j < 2 * n; j++) a[col][j] /= div;
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const factor = a[r][col];
+      if (factor === 0) continue;
+      for (let j = 0; j < 2 * n; j++) a[r][j] -= factor * a[col][j];
+    }
+  }
+  return a.map((row) => row.slice(n));
+}
+
+/**
+ * Householder QR of an n×q matrix (given as q column vectors of length n).
+ * Returns the full orthogonal Q (n×n) and the upper-triangular R (n×q).
+ */
+export function householderQR(columns: number[][], n: number): { Q: number[][]; R: number[][] } {
+  const q = columns.length;
+  const R: number[][] = Array.from({ length: n }, (_, i) => columns.map((c) => c[i]));
+  const Q = identity(n);
+
+  for (let k = 0; k < Math.min(q, n - 1); k++) {
+    let norm = 0;
+    for (let i = k; i < n; i++) norm += R[i][k] * R[i][k];
+    norm = Math.sqrt(norm);
+    if (norm < 1e-14) continue;
+
+    const alpha = R[k][k] > 0 ? -norm : norm;
+    const v = new Array(n).fill(0);
+    v[k] = R[k][k] - alpha;
+    for (let i = k + 1; i < n; i++) v[i] = R[i][k];
+    const vNorm2 = dot(v, v);
+    if (vNorm2 < 1e-28) continue;
+
+    // R ← (I - 2vvᵀ/vᵀv)·R
+    for (let j = 0; j < q; j++) {
+      let s = 0;
+      for (let i = k; i < n; i++) s += v[i] * R[i][j];
+      const f = (2 * s) / vNorm2;
+      for (let i = k; i < n; i++) R[i][j] -= f * v[i];
+    }
+    // Q ← Q·(I - 2vvᵀ/vᵀv)
+    for (let i = 0; i < n; i++) {
+      let s = 0;
+      for (let j = k; j < n; j++) s += Q[i][j] * v[j];
+      const f = (2 * s) / vNorm2;
+      for (let j = k; j < n; j++) Q[i][j] -= f * v[j];
+    }
+  }
+
+  return { Q, R };
+}
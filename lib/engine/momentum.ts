@@ -0,0 +1,101 @@
+import type { TopicInfo, Paper, MomentumSettings } from "./portfolio-types";
+
+/** Papers per publication year for one topic, oldest first, gaps filled with 0. */
+export type TopicTimeline = Array<{ year: number; count: number }>;
+
+/** Per-topic growth rates and how strongly they tilt the return model. */
+export interface TopicMomentum {
+  growth: Record<number, number>; // annual log growth per topic number
+  strength: number;
+}
+
+const MAX_GROWTH = 1; // per year; keeps a topic going from 1 to 5 papers from dominating
+const MIN_FACTOR = 0.25;
+const MAX_FACTOR = 4;
+
+/**
+ * Publication timelines for every topic, all spanning the same years
+ * (earliest to latest paper in the corpus) so they can be compared.
+ */
+export function buildTopicTimelines(papers: Paper[]): Record<number, TopicTimeline> {
+  const dated = papers.filter(
+    (p) => p.topicNumber !== -1 && Number.isFinite(p.year) && !p.missing?.includes("year")
+  );
+  if (dated.length === 0) return {};
+
+  const years = dated.map((p) => p.year);
+  const first = Math.min(...years);
+  const last = Math.max(...years);
+
+  const counts = new Map<number, Map<number, number>>();
+  for (const paper of dated) {
+    const byYear = counts.get(paper.topicNumber) ?? new Map<number, number>();
+    byYear.set(paper.year, (byYear.get(paper.year) ?? 0) + 1);
+    counts.set(paper.topicNumber, byYear);
+  }
+
+  const timelines: Record<number, TopicTimeline> = {};
+  for (const [topicNumber, byYear] of counts) {
+    timelines[topicNumber] = Array.from({ length: last - first + 1 }, (_, i) => ({
+      year: first + i,
+      count: byYear.get(first + i) ?? 0,
+    }));
+  }
+  return timelines;
+}
+
+/**
+ * Annual growth of each topic over the trailing window: the least-squares
+ * slope of ln(1 + papers) against year. The window ends at the latest year
+ * in the corpus, not the topic's own, so a topic that stopped publishing
+ * shows as declining.
+ */
+export function computeTopicGrowth(
+  timelines: Record<number, TopicTimeline>,
+  windowYears: number
+): Record<number, number> {
+  const allYears = Object.values(timelines).flatMap((tl) => tl.map((p) => p.year));
+  if (allYears.length === 0) return {};
+  const end = Math.max(...allYears);
+  const span = Math.max(2, Math.round(windowYears));
+  const start = end - span + 1;
+
+  const xMean = (start + end) / 2;
+  let sxx = 0;
+  for (let year = start; year <= end; year++) sxx += (year - xMean) ** 2;
+
+  const growth: Record<number, number> = {};
+  for (const [key, timeline] of Object.entries(timelines)) {
+    const byYear = new Map(timeline.map((p) => [p.year, p.count]));
+    const ys = Array.from({ length: span }, (_, i) => Math.log1p(byYear.get(start + i) ?? 0));
+    const yMean = ys.reduce((a, b) => a + b, 0) / span;
+    const sxy = ys.reduce((sum, y, i) => sum + (start + i - xMean) * (y - yMean), 0);
+    growth[Number(key)] = Math.max(-MAX_GROWTH, Math.min(MAX_GROWTH, sxy / sxx));
+  }
+  return growth;
+}
+
+export function resolveTopicMomentum(
+  timelines: Record<number, TopicTimeline>,
+  settings: MomentumSettings
+): TopicMomentum {
+  return {
+    growth: computeTopicGrowth(timelines, settings.windowYears),
+    strength: settings.strength,
+  };
+}
+
+/**
+ * Topics with paper counts scaled by e^(strength · growth). The return
+ * model normalizes by total papers, so only growth relative to the rest
+ * of the corpus moves the returns; topics without dated papers keep
+ * their count.
+ */
+export function applyTopicMomentum(topics: TopicInfo[], momentum: TopicMomentum): TopicInfo[] {
+  return topics.map((topic) => {
+    const growth = momentum.growth[topic.topicNumber];
+    if (growth === undefined || topic.topicNumber === -1) return topic;
+    const factor = Math.max(MIN_FACTOR, Math.min(MAX_FACTOR, Math.exp(momentum.strength * growth)));
+    return { ...topic, count: topic.count * factor };
+  });
+}
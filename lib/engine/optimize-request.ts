@@ -0,0 +1,434 @@
+import {
+  TRAINING_DIRECTIONS,
+  ALLOCATION_STRATEGIES,
+  COVARIANCE_ESTIMATORS,
+  DEFAULT_RETURN_MODEL,
+  createDefaultPortfolioConstraints,
+  createDefaultOptimizerSettings,
+  MIN_COURSE_WEIGHT,
+} from "./portfolio-types";
+import type {
+  TopicInfo,
+  PortfolioConstraints,
+  ExpertView,
+  ResamplingSettings,
+  AllocationStrategy,
+  ReturnModelCoefficients,
+  RiskMeasure,
+  ReturnTrend,
+  MomentumSettings,
+  CardinalitySettings,
+  CovarianceEstimator,
+} from "./portfolio-types";
+import { estimateMarketInputs, type EstimationSettings } from "./market-inputs";
+import { covarianceToCorrelation } from "./covariance";
+import { resolveTopicMomentum, type TopicTimeline } from "./momentum";
+import {
+  toOptimizerConstraints,
+  validatePortfolioConstraints,
+  type ConstraintIssue,
+} from "./constraints";
+import {
+  computeEfficientFrontier,
+  evaluatePortfolio,
+  selectByRiskTolerance,
+} from "./optimizer";
+import {
+  buildTopicScenarios,
+  computeCVaRFrontier,
+  evaluateCVaRPortfolio,
+} from "./cvar";
+import { resampleEfficientFrontier, type WeightInterval } from "./resampling";
+import { computeStrategyPortfolios } from "./strategies";
+import { computeCardinalityFrontiers } from "./cardinality";
+
+const MAX_SIMULATIONS = 500;
+const RESAMPLING_CONFIDENCE = 0.9;
+
+/** Body of POST /api/optimize, also posted to the optimizer worker. */
+export interface OptimizeRequest {
+  topics: TopicInfo[];
+  affinityMatrix: Record<number, number[]>;
+  riskTolerance?: number;
+  constraints?: PortfolioConstraints;
+  expertViews?: ExpertView[];
+  resampling?: ResamplingSettings;
+  cardinality?: CardinalitySettings;
+  strategy?: AllocationStrategy;
+  returnModel?: Partial<ReturnModelCoefficients>;
+  riskFreeRate?: number;
+  riskMeasure?: RiskMeasure;
+  returnTrend?: ReturnTrend;
+  momentum?: Partial<MomentumSettings>;
+  topicTimelines?: Record<number, TopicTimeline>;
+  cvarConfidence?: number;
+  covarianceEstimator?: CovarianceEstimator;
+  byCount?: boolean; // include the best portfolio per number of directions held
+}
+
+export interface OptimizeError {
+  error: string;
+  issues?: ConstraintIssue[];
+}
+
+function reject(status: 400 | 422, error: string, issues?: ConstraintIssue[]) {
+  const body: OptimizeError = issues ? { error, issues } : { error };
+  return { ok: false as const, status, body };
+}
+
+/** A valid request with its defaults filled in and momentum resolved. */
+export interface ParsedOptimizeRequest {
+  topics: TopicInfo[];
+  affinityMatrix: Record<number, number[]>;
+  riskTolerance: number;
+  constraints: PortfolioConstraints;
+  resampling?: ResamplingSettings;
+  cardinality?: CardinalitySettings;
+  strategy: AllocationStrategy;
+  returnModel: ReturnModelCoefficients;
+  riskFreeRate: number;
+  riskMeasure: RiskMeasure;
+  returnTrend: ReturnTrend;
+  momentumSettings: MomentumSettings;
+  cvarConfidence: number;
+  covarianceEstimator: CovarianceEstimator;
+  estimation: EstimationSettings; // what estimateMarketInputs needs besides topics and matrix
+}
+
+/**
+ * Validate an optimize request and fill in its defaults. Shared by
+ * /api/optimize, the optimizer worker and /api/sensitivity, so every
+ * caller accepts and rejects the same requests.
+ */
+export function parseOptimizeRequest(request: OptimizeRequest) {
+  const {
+    topics,
+    affinityMatrix,
+    riskTolerance = 0.5,
+    constraints = createDefaultPortfolioConstraints(),
+    expertViews = [],
+    resampling,
+    cardinality,
+    strategy = "mean_variance",
+    returnModel: returnModelInput,
+    riskFreeRate = 0,
+    riskMeasure = "variance",
+    returnTrend = "static",
+    momentum: momentumInput,
+    topicTimelines = {},
+    cvarConfidence = 0.9,
+    covarianceEstimator = "sample",
+  } = request;
+
+  if (!topics || !affinityMatrix) {
+    return reject(400, "Topics and affinity matrix are required");
+  }
+
+  if (!ALLOCATION_STRATEGIES.includes(strategy)) {
+    return reject(400, `Unknown allocation strategy: ${strategy}`);
+  }
+
+  const returnModel: ReturnModelCoefficients = { ...DEFAULT_RETURN_MODEL, ...returnModelInput };
+  if (
+    Object.values(returnModel).some((v) => typeof v !== "number" || !Number.isFinite(v) || v < 0) ||
+    typeof riskFreeRate !== "number" ||
+    !Number.isFinite(riskFreeRate)
+  ) {
+    return reject(400, "Return model coefficients must be non-negative numbers");
+  }
+
+  const momentumSettings: MomentumSettings = {
+    ...createDefaultOptimizerSettings().momentum,
+    ...momentumInput,
+  };
+  if (returnTrend !== "static" && returnTrend !== "momentum") {
+    return reject(400, `Unknown return trend: ${returnTrend}`);
+  }
+  if (
+    returnTrend === "momentum" &&
+    !(momentumSettings.windowYears >= 2 && momentumSettings.strength >= 0 && Number.isFinite(momentumSettings.strength))
+  ) {
+    return reject(400, "Momentum window must be at least 2 years and strength a non-negative number");
+  }
+  if (returnTrend === "momentum" && Object.keys(topicTimelines).length === 0) {
+    return reject(422, "Momentum-adjusted returns need papers with publication years");
+  }
+  const momentum =
+    returnTrend === "momentum" ? resolveTopicMomentum(topicTimelines, momentumSettings) : undefined;
+
+  if (!COVARIANCE_ESTIMATORS.includes(covarianceEstimator)) {
+    return reject(400, `Unknown covariance estimator: ${covarianceEstimator}`);
+  }
+
+  // Reject contradictory bounds before running the optimizer
+  const issues = validatePortfolioConstraints(constraints);
+  if (issues.length > 0) {
+    return reject(422, "Weight constraints are infeasible", issues);
+  }
+
+  if (riskMeasure !== "variance" && riskMeasure !== "cvar") {
+    return reject(400, `Unknown risk measure: ${riskMeasure}`);
+  }
+  if (riskMeasure === "cvar" && !(cvarConfidence >= 0.5 && cvarConfidence < 1)) {
+    return reject(400, "CVaR confidence must be between 0.5 and 1");
+  }
+  if (riskMeasure === "cvar" && resampling?.enabled) {
+    // Each CVaR frontier is a sequence of cutting-plane solves; hundreds are too slow
+    return reject(400, "Resampling is only available with the variance risk measure");
+  }
+
+  if (cardinality?.enabled) {
+    if (
+      !Number.isInteger(cardinality.maxAssets) ||
+      cardinality.maxAssets < 1 ||
+      cardinality.maxAssets > TRAINING_DIRECTIONS.length ||
+      !(cardinality.minPosition >= MIN_COURSE_WEIGHT && cardinality.minPosition <= 1)
+    ) {
+      return reject(
+        400,
+        `Course limit must be 1–${TRAINING_DIRECTIONS.length} directions with a minimum position of at least ${MIN_COURSE_WEIGHT * 100}%`
+      );
+    }
+    if (riskMeasure !== "variance" || resampling?.enabled || strategy !== "mean_variance") {
+      return reject(400, "The course limit only applies to the plain mean-variance frontier");
+    }
+    // Directions with a minimum weight are always held
+    const withMinimum = toOptimizerConstraints(constraints).lb.filter((l) => l > 0).length;
+    if (withMinimum > cardinality.maxAssets) {
+      return reject(
+        422,
+        `${withMinimum} directions have a minimum weight, more than the course limit of ${cardinality.maxAssets}`
+      );
+    }
+  }
+
+  const parsed: ParsedOptimizeRequest = {
+    topics,
+    affinityMatrix,
+    riskTolerance,
+    constraints,
+    resampling,
+    cardinality,
+    strategy,
+    returnModel,
+    riskFreeRate,
+    riskMeasure,
+    returnTrend,
+    momentumSettings,
+    cvarConfidence,
+    covarianceEstimator,
+    estimation: { returnModel, expertViews, momentum, covarianceEstimator },
+  };
+  return { ok: true as const, request: parsed };
+}
+
+/**
+ * The optimize pipeline shared by /api/optimize and the in-browser worker
+ * (lib/engine/optimize.worker.ts), so both give the same frontier for the
+ * same request. Invalid requests resolve to the status and error body the
+ * route answers with (400 for bad input, 422 for infeasible problems)
+ * rather than throwing.
+ */
+export function runOptimization(request: OptimizeRequest) {
+  const parsed = parseOptimizeRequest(request);
+  if (!parsed.ok) return parsed;
+  const {
+    topics,
+    affinityMatrix,
+    riskTolerance,
+    constraints,
+    resampling,
+    cardinality,
+    strategy,
+    returnModel,
+    riskFreeRate,
+    riskMeasure,
+    returnTrend,
+    momentumSettings,
+    cvarConfidence,
+    covarianceEstimator,
+    estimation,
+  } = parsed.request;
+
+  // Literature-derived prior, blended with committee views (Black–Litterman).
+  // Resampling re-runs the same estimate on perturbed inputs.
+  const estimate = (t: TopicInfo[], matrix: Record<number, number[]>) => estimateMarketInputs(t, matrix, estimation);
+  const { priorReturns, expectedReturns, covMatrix, covShrinkage } = estimate(topics, affinityMatrix);
+
+  const optimizerConstraints = toOptimizerConstraints(constraints);
+  const scenarios =
+    riskMeasure === "cvar"
+      ? buildTopicScenarios(topics, affinityMatrix, returnModel.rarityPremium)
+      : null;
+  const evaluate = (weights: number[]) =>
+    scenarios
+      ? evaluateCVaRPortfolio(weights, expectedReturns, covMatrix, scenarios, riskFreeRate, cvarConfidence)
+      : evaluatePortfolio(weights, expectedReturns, covMatrix, riskFreeRate);
+
+  // Compute efficient frontier under the chosen risk measure
+  const traced = scenarios
+    ? computeCVaRFrontier(
+        expectedReturns,
+        covMatrix,
+        scenarios,
+        optimizerConstraints,
+        50,
+        riskFreeRate,
+        cvarConfidence
+      )
+    : computeEfficientFrontier(
+        expectedReturns,
+        covMatrix,
+        optimizerConstraints,
+        50,
+        riskFreeRate
+      );
+  let { frontier, converged } = traced;
+
+  // Best portfolio per number of directions held, by enumerating all 63
+  // subsets; with a course limit the frontier is the envelope of those
+  // subsets. Only computed when the limit or the per-count table needs it.
+  const minPosition = Math.max(cardinality?.minPosition ?? MIN_COURSE_WEIGHT, MIN_COURSE_WEIGHT);
+  const byCount =
+    scenarios || !(cardinality?.enabled || request.byCount)
+      ? null
+      : computeCardinalityFrontiers(
+          expectedReturns,
+          covMatrix,
+          optimizerConstraints,
+          minPosition,
+          50,
+          riskFreeRate
+        );
+  if (cardinality?.enabled && byCount) {
+    frontier = byCount.frontier(cardinality.maxAssets);
+    if (frontier.length === 0) {
+      return reject(422, `No allocation over at most ${cardinality.maxAssets} directions satisfies the constraints`);
+    }
+  }
+
+  // Optionally replace it with the resampled (Michaud) frontier
+  let weightIntervals: WeightInterval[] | undefined;
+  let resamplingSummary = null;
+  if (resampling?.enabled && frontier.length > 0) {
+    const resampled = resampleEfficientFrontier(
+      topics,
+      affinityMatrix,
+      estimate,
+      optimizerConstraints,
+      {
+        ...resampling,
+        simulations: Math.max(1, Math.min(MAX_SIMULATIONS, Math.round(resampling.simulations))),
+      },
+      { riskFreeRate, confidenceLevel: RESAMPLING_CONFIDENCE, numPoints: 50 }
+    );
+    if (resampled.frontier.length > 0) {
+      frontier = resampled.frontier;
+      weightIntervals = resampled.intervals;
+      converged = resampled.converged;
+      resamplingSummary = {
+        method: resampling.method,
+        simulations: resampled.simulations,
+        noise: resampling.noise,
+        confidence_level: RESAMPLING_CONFIDENCE,
+        weight_intervals: weightIntervals,
+      };
+    }
+  }
+
+  if (frontier.length === 0) {
+    return reject(422, "Weight constraints are infeasible: no allocation satisfies them");
+  }
+
+  // Find optimal portfolio (best Sharpe ratio)
+  const optimal = frontier.reduce((best, p) =>
+    p.sharpe_ratio > best.sharpe_ratio ? p : best
+  );
+
+  // Select portfolio based on risk tolerance
+  const selectedIndex = selectByRiskTolerance(frontier, riskTolerance);
+
+  // Alternative allocation strategies, side by side with the frontier pick
+  const strategies = computeStrategyPortfolios(
+    expectedReturns,
+    covMatrix,
+    optimizerConstraints,
+    frontier[selectedIndex].weights,
+    evaluate
+  );
+  const chosen = strategies.find((p) => p.strategy === strategy);
+  if (!chosen || chosen.status !== "optimal") {
+    return reject(422, `Strategy "${strategy}" could not be solved within the constraints`);
+  }
+  const selected = strategy === "mean_variance" ? frontier[selectedIndex] : chosen;
+
+  // Map weights to direction keys
+  const weightMap: Record<string, number> = {};
+  TRAINING_DIRECTIONS.forEach((dir, i) => {
+    weightMap[dir.key] = selected.weights[i];
+  });
+
+  return {
+    ok: true as const,
+    body: {
+      frontier,
+      optimal_portfolio: optimal,
+      selected_portfolio: {
+        ...selected,
+        weight_map: weightMap,
+        weight_interval:
+          strategy === "mean_variance" ? weightIntervals?.[selectedIndex] : undefined,
+      },
+      strategy,
+      strategies,
+      expected_returns: expectedReturns,
+      prior_returns: priorReturns,
+      risk_tolerance: riskTolerance,
+      parameters: {
+        return_model: returnModel,
+        risk_free_rate: riskFreeRate,
+        return_trend: returnTrend,
+        momentum:
+          returnTrend === "momentum"
+            ? { window_years: momentumSettings.windowYears, strength: momentumSettings.strength }
+            : null,
+      },
+      risk_measure: {
+        kind: riskMeasure,
+        confidence: riskMeasure === "cvar" ? cvarConfidence : undefined,
+      },
+      covariance: {
+        estimator: covarianceEstimator,
+        shrinkage: covShrinkage,
+        correlation: covarianceToCorrelation(covMatrix),
+      },
+      direction_names: TRAINING_DIRECTIONS.map((d) => d.name),
+      solver: {
+        method: "goldfarb-idnani",
+        converged,
+        infeasible_targets: traced.infeasibleTargets,
+      },
+      resampling: resamplingSummary,
+      cardinality: byCount && {
+        enabled: Boolean(cardinality?.enabled),
+        max_assets: cardinality?.enabled ? cardinality.maxAssets : null,
+        min_position: minPosition,
+        by_count: byCount.bestByCount.map(
+          (p) =>
+            p && {
+              assets: p.assets,
+              held: p.held.map((d) => TRAINING_DIRECTIONS[d].key),
+              weights: p.weights,
+              return: p.return,
+              risk: p.risk,
+              sharpe_ratio: p.sharpe_ratio,
+              hhi: p.hhi,
+            }
+        ),
+      },
+    },
+  };
+}
+
+export type OptimizeOutcome = ReturnType<typeof runOptimization>;
+export type OptimizeResponse = Extract<OptimizeOutcome, { ok: true }>["body"];
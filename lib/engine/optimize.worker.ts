@@ -0,0 +1,29 @@
+import { runOptimization, type OptimizeRequest, type OptimizeOutcome } from "./optimize-request";
+
+export interface OptimizeWorkerMessage {
+  id: number;
+  request: OptimizeRequest;
+}
+
+/** Same shape as the HTTP exchange: status 500 stands for a thrown error. */
+export type OptimizeWorkerReply =
+  | ({ id: number } & OptimizeOutcome)
+  | { id: number; ok: false; status: 500; body: { error: string } };
+
+// The app compiles against the DOM lib; inside a worker `self` is the worker scope
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<OptimizeWorkerMessage>) => void) | null;
+  postMessage: (reply: OptimizeWorkerReply) => void;
+};
+
+ctx.onmessage = (event) => {
+  const { id, request } = event.data;
+  let reply: OptimizeWorkerReply;
+  try {
+    reply = { id, ...runOptimization(request) };
+  } catch (error) {
+    console.error("Optimization worker error:", error);
+    reply = { id, ok: false, status: 500, body: { error: "Portfolio optimization failed" } };
+  }
+  ctx.postMessage(reply);
+};
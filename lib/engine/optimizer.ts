@@ -0,0 +1,185 @@
+import { solveQP, type QPResult, type QPStatus } from "./qp-solver";
+import { identity } from "./matrix";
+import type { OptimizerConstraints } from "./constraints";
+
+/**
+ * Long-only mean-variance optimization with box and group bounds.
+ *
+ * Minimizes wᵀΣw subject to Σw = 1, lb ≤ w ≤ ub, the group rows and,
+ * when a target is given, μᵀw = targetReturn. Solved exactly with the
+ * Goldfarb–Idnani active-set QP solver.
+ */
+export function optimizePortfolio(
+  expectedReturns: number[],
+  covMatrix: number[][],
+  targetReturn: number | null,
+  constraints: OptimizerConstraints
+): QPResult {
+  const n = expectedReturns.length;
+  const Aeq = [new Array(n).fill(1)];
+  const beq = [1];
+  if (targetReturn !== null) {
+    Aeq.push(expectedReturns);
+    beq.push(targetReturn);
+  }
+
+  return solveQP({
+    Q: covMatrix,
+    c: new Array(n).fill(0),
+    Aeq,
+    beq,
+    Aineq: constraints.Aineq,
+    bineq: constraints.bineq,
+    lb: constraints.lb,
+    ub: constraints.ub,
+  });
+}
+
+/**
+ * Highest return reachable within the constraints. Solved as a QP with a tiny
+ * ridge term, which lands on the same vertex as the underlying LP.
+ */
+export function maxFeasibleReturn(
+  expectedReturns: number[],
+  constraints: OptimizerConstraints
+): QPResult {
+  const n = expectedReturns.length;
+  return solveQP({
+    Q: identity(n).map((row) => row.map((v) => v * 1e-6)),
+    c: expectedReturns.map((r) => -r),
+    Aeq: [new Array(n).fill(1)],
+    beq: [1],
+    Aineq: constraints.Aineq,
+    bineq: constraints.bineq,
+    lb: constraints.lb,
+    ub: constraints.ub,
+  });
+}
+
+/** Frontier point in the snake_case shape returned by /api/optimize. */
+export interface OptimizerFrontierPoint {
+  risk: number;
+  return: number;
+  weights: number[];
+  sharpe_ratio: number;
+  target_return: number;
+  status: QPStatus;
+}
+
+/** A traced frontier; targets whose solve failed are counted, not included. */
+export interface FrontierResult {
+  frontier: OptimizerFrontierPoint[];
+  converged: boolean;
+  infeasibleTargets: number;
+}
+
+export type PortfolioMetrics = Pick<
+  OptimizerFrontierPoint,
+  "risk" | "return" | "weights" | "sharpe_ratio"
+>;
+
+/**
+ * Return, risk and Sharpe ratio of a weight vector, rounded the same way
+ * for every frontier point. The Sharpe ratio is the excess return over
+ * `riskFreeRate` per unit of risk.
+ */
+export function evaluatePortfolio(
+  weights: number[],
+  expectedReturns: number[],
+  covMatrix: number[][],
+  riskFreeRate = 0
+): PortfolioMetrics {
+  const portReturn = weights.reduce(
+    (sum, w, idx) => sum + w * expectedReturns[idx],
+    0
+  );
+
+  let portVariance = 0;
+  for (let a = 0; a < weights.length; a++) {
+    for (let b = 0; b < weights.length; b++) {
+      portVariance += weights[a] * weights[b] * covMatrix[a][b];
+    }
+  }
+  const portRisk = Math.sqrt(Math.max(portVariance, 0));
+  const sharpe = portRisk > 1e-8 ? (portReturn - riskFreeRate) / portRisk : 0;
+
+  return {
+    risk: Math.round(portRisk * 1e6) / 1e6,
+    return: Math.round(portReturn * 1e6) / 1e6,
+    weights: weights.map((w) => Math.round(w * 1e4) / 1e4),
+    sharpe_ratio: Math.round(sharpe * 1e4) / 1e4,
+  };
+}
+
+/**
+ * Index of the frontier point whose risk is closest to
+ * minRisk + riskTolerance·(maxRisk − minRisk).
+ */
+export function selectByRiskTolerance(
+  frontier: Array<{ risk: number }>,
+  riskTolerance: number
+): number {
+  if (frontier.length <= 1) return 0;
+  const minRisk = frontier[0].risk;
+  const maxRisk = frontier[frontier.length - 1].risk;
+  const targetRisk = minRisk + riskTolerance * (maxRisk - minRisk);
+  let best = 0;
+  frontier.forEach((p, i) => {
+    if (Math.abs(p.risk - targetRisk) < Math.abs(frontier[best].risk - targetRisk)) {
+      best = i;
+    }
+  });
+  return best;
+}
+
+/**
+ * Trace the efficient frontier between the global minimum-variance
+ * portfolio and the maximum-return portfolio. Targets below the GMV
+ * return would only produce dominated points, so they are never sampled.
+ */
+export function computeEfficientFrontier(
+  expectedReturns: number[],
+  covMatrix: number[][],
+  constraints: OptimizerConstraints,
+  numPoints = 50,
+  riskFreeRate = 0
+): FrontierResult {
+  const gmv = optimizePortfolio(expectedReturns, covMatrix, null, constraints);
+  const maxRet = maxFeasibleReturn(expectedReturns, constraints);
+  if (gmv.status !== "optimal" || maxRet.status !== "optimal") {
+    return { frontier: [], converged: false, infeasibleTargets: 0 };
+  }
+
+  const minReturn = gmv.x.reduce((s, w, i) => s + w * expectedReturns[i], 0);
+  const maxReturn = maxRet.x.reduce((s, w, i) => s + w * expectedReturns[i], 0);
+  // A flat frontier (all directions equally rewarding) has a single point
+  const points = maxReturn - minReturn > 1e-9 ? numPoints : 1;
+
+  const frontier: OptimizerFrontierPoint[] = [];
+  let infeasibleTargets = 0;
+
+  for (let i = 0; i < points; i++) {
+    const targetReturn =
+      points === 1
+        ? minReturn
+        : minReturn + (i / (points - 1)) * (maxReturn - minReturn);
+
+    const solution =
+      i === 0
+        ? gmv
+        : optimizePortfolio(expectedReturns, covMatrix, targetReturn, constraints);
+    // Weights of a failed solve may break the bounds; leave the target out
+    if (solution.status !== "optimal") {
+      infeasibleTargets++;
+      continue;
+    }
+
+    frontier.push({
+      ...evaluatePortfolio(solution.x, expectedReturns, covMatrix, riskFreeRate),
+      target_return: Math.round(targetReturn * 1e6) / 1e6,
+      status: solution.status,
+    });
+  }
+
+  return { frontier, converged: infeasibleTargets === 0, infeasibleTargets };
+}
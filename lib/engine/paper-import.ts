@@ -0,0 +1,427 @@
+import Papa from "papaparse";
+import type { Paper, PaperField } from "./portfolio-types";
+import { parsePapersCSV } from "./data-loader";
+import type { CsvMapping, PaperCsvField } from "./csv-mapping";
+
+/**
+ * Bibliographic exports the papers upload understands besides BERTopic's
+ * own CSV. Each maps into `Paper` objects; what the source cannot supply
+ * (always the topic assignment) is listed in `Paper.missing` so the
+ * in-app topic modelling step knows what to fill in.
+ */
+export type PaperFormat = "bertopic_csv" | "scopus_csv" | "bibtex" | "ris" | "wos" | "openalex";
+
+export interface PaperImportResult {
+  papers: Paper[];
+  duplicates: number; // records dropped because their DOI was already imported
+  byFormat: Partial<Record<PaperFormat, number>>; // records read per format, before de-duplication
+  unassigned: number; // papers waiting for topic modelling
+}
+
+export class PaperImportError extends Error {
+  constructor(public fileName: string, message: string) {
+    super(`${fileName}: ${message}`);
+    this.name = "PaperImportError";
+  }
+}
+
+interface RawRecord {
+  id?: string;
+  doi?: string;
+  title?: string;
+  abstract?: string;
+  year?: string | number;
+  venue?: string;
+  authors?: string[];
+  url?: string;
+  keywords?: string[];
+}
+
+const SOURCE_NAMES: Record<Exclude<PaperFormat, "bertopic_csv">, string> = {
+  scopus_csv: "Scopus",
+  bibtex: "BibTeX",
+  ris: "RIS",
+  wos: "Web of Science",
+  openalex: "OpenAlex",
+};
+
+/** Lower-case bare DOI ("10.1000/xyz"), without resolver prefixes; "" when absent. */
+export function normalizeDoi(raw: string | undefined): string {
+  if (!raw) return "";
+  const match = raw.trim().toLowerCase().match(/10\.\d{4,9}\/\S+/);
+  return match ? match[0].replace(/[.,;]+$/, "") : "";
+}
+
+/** `index` counts records within file `fileIndex`, so fallback IDs stay unique across files. */
+function toPaper(
+  record: RawRecord,
+  format: Exclude<PaperFormat, "bertopic_csv">,
+  fileIndex: number,
+  index: number
+): Paper {
+  const year = parseInt(String(record.year ?? ""), 10);
+  const doi = normalizeDoi(record.doi);
+  const missing: PaperField[] = ["topic"];
+  if (!Number.isFinite(year)) missing.push("year");
+  if (!record.abstract?.trim()) missing.push("abstract");
+  return {
+    id: record.id?.trim() || doi || `${format}-${fileIndex + 1}-${index + 1}`,
+    doi,
+    title: (record.title ?? "").replace(/\s+/g, " ").trim(),
+    abstract: record.abstract?.trim() || undefined,
+    year: Number.isFinite(year) ? year : new Date().getFullYear(),
+    venue: (record.venue ?? "").trim(),
+    authors: (record.authors ?? []).map((a) => a.trim()).filter(Boolean).join("; "),
+    url: record.url?.trim() || (doi ? `https://doi.org/${doi}` : ""),
+    source: SOURCE_NAMES[format],
+    fields: record.keywords?.length ? record.keywords.join("; ") : undefined,
+    topicNumber: -1,
+    rarityLabel: "NO_TOPIC",
+    missing,
+  };
+}
+
+// ------------------------------------------------------------
+// BibTeX
+// ------------------------------------------------------------
+
+/** Drop braces and the few LaTeX escapes common in exported titles. */
+function cleanLatex(value: string): string {
+  return value
+    .replace(/\\&/g, "&")
+    .replace(/\\%/g, "%")
+    .replace(/\\_/g, "_")
+    .replace(/---/g, "—")
+    .replace(/--/g, "–")
+    .replace(/\\[a-zA-Z]+\s*/g, "")
+    .replace(/[{}]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Value starting at `start` (brace-delimited, quoted or bare) and the index after it. */
+function readBibValue(text: string, start: number): [string, number] {
+  let i = start;
+  while (/\s/.test(text[i] ?? "")) i++;
+  if (text[i] === "{") {
+    let depth = 0;
+    const from = i;
+    for (; i < text.length; i++) {
+      if (text[i] === "{") depth++;
+      else if (text[i] === "}" && --depth === 0) return [text.slice(from + 1, i), i + 1];
+    }
+    return [text.slice(from + 1), text.length];
+  }
+  if (text[i] === '"') {
+    const from = ++i;
+    let depth = 0;
+    for (; i < text.length; i++) {
+      if (text[i] === "{") depth++;
+      else if (text[i] === "}") depth--;
+      else if (text[i] === '"' && depth === 0 && text[i - 1] !== "\\") return [text.slice(from, i), i + 1];
+    }
+    return [text.slice(from), text.length];
+  }
+  const match = /^[^,}\s]+/.exec(text.slice(i));
+  return [match?.[0] ?? "", i + (match?.[0].length ?? 0)];
+}
+
+export function parseBibTeX(text: string): RawRecord[] {
+  const records: RawRecord[] = [];
+  const entryStart = /@(\w+)\s*[{(]/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = entryStart.exec(text))) {
+    const type = match[1].toLowerCase();
+    if (type === "comment" || type === "string" || type === "preamble") continue;
+
+    let i = entryStart.lastIndex;
+    const keyEnd = text.indexOf(",", i);
+    if (keyEnd === -1) break;
+    const key = text.slice(i, keyEnd).trim();
+    i = keyEnd + 1;
+
+    const fields: Record<string, string> = {};
+    while (i < text.length) {
+      const field = /^\s*([\w-]+)\s*=\s*/.exec(text.slice(i));
+      if (!field) break;
+      const [value, next] = readBibValue(text, i + field[0].length);
+      fields[field[1].toLowerCase()] = value;
+      i = next;
+      while (/\s/.test(text[i] ?? "")) i++;
+      if (text[i] === ",") i++;
+    }
+    entryStart.lastIndex = i;
+
+    records.push({
+      id: key,
+      doi: fields.doi,
+      title: cleanLatex(fields.title ?? ""),
+      abstract: fields.abstract && cleanLatex(fields.abstract),
+      year: fields.year,
+      venue: cleanLatex(fields.journal ?? fields.booktitle ?? fields.publisher ?? ""),
+      authors: (fields.author ?? "").split(/\s+and\s+/i).map(cleanLatex),
+      url: fields.url,
+      keywords: fields.keywords?.split(/[;,]/).map(cleanLatex).filter(Boolean),
+    });
+  }
+  return records;
+}
+
+// ------------------------------------------------------------
+// RIS
+// ------------------------------------------------------------
+
+export function parseRIS(text: string): RawRecord[] {
+  const records: RawRecord[] = [];
+  let current: Record<string, string[]> | null = null;
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = /^([A-Z][A-Z0-9])  -\s?(.*)$/.exec(line);
+    if (!match) continue;
+    const [, tag, value] = match;
+    if (tag === "TY") {
+      current = {};
+      continue;
+    }
+    if (!current) continue;
+    if (tag === "ER") {
+      const first = (...tags: string[]) => tags.map((t) => current?.[t]?.[0]).find(Boolean);
+      records.push({
+        id: first("ID", "AN"),
+        doi: first("DO"),
+        title: first("TI", "T1"),
+        abstract: first("AB", "N2"),
+        year: first("PY", "Y1", "DA")?.slice(0, 4),
+        venue: first("T2", "JO", "JF", "JA"),
+        authors: [...(current.AU ?? []), ...(current.A1 ?? [])],
+        url: first("UR"),
+        keywords: current.KW,
+      });
+      current = null;
+      continue;
+    }
+    (current[tag] ??= []).push(value.trim());
+  }
+  return records;
+}
+
+// ------------------------------------------------------------
+// Scopus CSV
+// ------------------------------------------------------------
+
+export function parseScopusCSV(text: string): RawRecord[] {
+  const parsed = Papa.parse<Record<string, string>>(text.replace(/^\uFEFF/, ""), {
+    header: true,
+    skipEmptyLines: true,
+  });
+  return parsed.data.map((row) => ({
+    id: row.EID,
+    doi: row.DOI,
+    title: row.Title,
+    abstract: row.Abstract && row.Abstract !== "[No abstract available]" ? row.Abstract : undefined,
+    year: row.Year,
+    venue: row["Source title"],
+    authors: (row["Author full names"] ? row["Author full names"].replace(/\s*\(\d+\)/g, "") : row.Authors ?? "")
+      .split(";"),
+    url: row.Link,
+    keywords: [row["Author Keywords"], row["Index Keywords"]]
+      .filter(Boolean)
+      .flatMap((k) => k.split(";"))
+      .map((k) => k.trim())
+      .filter(Boolean),
+  }));
+}
+
+// ------------------------------------------------------------
+// Web of Science tab-delimited
+// ------------------------------------------------------------
+
+export function parseWebOfScience(text: string): RawRecord[] {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/).filter((l) => l.trim());
+  if (lines.length === 0) return [];
+  const header = lines[0].split("\t").map((h) => h.trim());
+  return lines.slice(1).map((line) => {
+    const cells = line.split("\t");
+    const row: Record<string, string> = {};
+    header.forEach((tag, i) => {
+      row[tag] = cells[i]?.trim() ?? "";
+    });
+    return {
+      id: row.UT,
+      doi: row.DI,
+      title: row.TI,
+      abstract: row.AB,
+      year: row.PY,
+      venue: row.SO,
+      authors: (row.AF || row.AU || "").split(";"),
+      url: row.DI ? undefined : row.DL,
+      keywords: [row.DE, row.ID].filter(Boolean).flatMap((k) => k.split(";")).map((k) => k.trim()).filter(Boolean),
+    };
+  });
+}
+
+// ------------------------------------------------------------
+// OpenAlex JSON
+// ------------------------------------------------------------
+
+interface OpenAlexWork {
+  id?: string;
+  doi?: string | null;
+  title?: string | null;
+  display_name?: string | null;
+  publication_year?: number | null;
+  abstract_inverted_index?: Record<string, number[]> | null;
+  primary_location?: { source?: { display_name?: string } | null; landing_page_url?: string | null } | null;
+  authorships?: Array<{ author?: { display_name?: string } }>;
+  keywords?: Array<{ display_name?: string }>;
+}
+
+/** OpenAlex stores abstracts as word → positions; put the words back in order. */
+function invertedIndexToText(index: Record<string, number[]>): string {
+  const words: string[] = [];
+  for (const [word, positions] of Object.entries(index)) {
+    for (const p of positions) words[p] = word;
+  }
+  return words.filter((w) => w !== undefined).join(" ");
+}
+
+export function parseOpenAlex(text: string): RawRecord[] {
+  const json = JSON.parse(text);
+  // A saved API page ({ results }), a bare list of works, or one work
+  const works: OpenAlexWork[] = Array.isArray(json) ? json : Array.isArray(json?.results) ? json.results : [json];
+  return works.map((work) => ({
+    id: work.id?.replace("https://openalex.org/", ""),
+    doi: work.doi ?? undefined,
+    title: work.title ?? work.display_name ?? "",
+    abstract: work.abstract_inverted_index ? invertedIndexToText(work.abstract_inverted_index) : undefined,
+    year: work.publication_year ?? undefined,
+    venue: work.primary_location?.source?.display_name,
+    authors: (work.authorships ?? []).map((a) => a.author?.display_name ?? ""),
+    url: work.primary_location?.landing_page_url ?? undefined,
+    keywords: (work.keywords ?? []).map((k) => k.display_name ?? "").filter(Boolean),
+  }));
+}
+
+// ------------------------------------------------------------
+// Detection and merging
+// ------------------------------------------------------------
+
+/** Guess the export format from the file's name and opening lines. */
+export function detectPaperFormat(fileName: string, text: string): PaperFormat | null {
+  const name = fileName.toLowerCase();
+  const head = text.replace(/^\uFEFF/, "").trimStart().slice(0, 2000);
+  if (name.endsWith(".json") || head.startsWith("{") || head.startsWith("[")) return "openalex";
+  if (name.endsWith(".bib") || /^@\w+\s*[{(]/m.test(head)) return "bibtex";
+  if (name.endsWith(".ris") || /^TY  - /m.test(head)) return "ris";
+  const firstLine = head.split(/\r?\n/)[0];
+  if (/^PT\t/.test(firstLine) || (firstLine.includes("\t") && /\bUT\b/.test(firstLine))) return "wos";
+  if (/(^|,)"?EID"?(,|$)/.test(firstLine) || /"?Source title"?/.test(firstLine)) return "scopus_csv";
+  if (/(^|,)"?Topic"?(,|$)/.test(firstLine)) return "bertopic_csv";
+  return null;
+}
+
+/**
+ * Whether a papers file is read column by column through the upload's
+ * mapping: BERTopic CSVs and any CSV in no other recognized layout.
+ */
+export function isMappablePaperCSV(fileName: string, text: string): boolean {
+  if (!fileName.toLowerCase().endsWith(".csv")) return false;
+  const format = detectPaperFormat(fileName, text);
+  return format === "bertopic_csv" || format === null;
+}
+
+function parseRecords(format: Exclude<PaperFormat, "bertopic_csv">, text: string): RawRecord[] {
+  switch (format) {
+    case "bibtex":
+      return parseBibTeX(text);
+    case "ris":
+      return parseRIS(text);
+    case "scopus_csv":
+      return parseScopusCSV(text);
+    case "wos":
+      return parseWebOfScience(text);
+    case "openalex":
+      return parseOpenAlex(text);
+  }
+}
+
+/** Fill a kept paper's gaps from a duplicate, keeping whichever has a topic. */
+function mergeDuplicate(kept: Paper, duplicate: Paper): Paper {
+  const [base, other] =
+    kept.topicNumber === -1 && duplicate.topicNumber !== -1 ? [duplicate, kept] : [kept, duplicate];
+  const yearKnown = (p: Paper) => !p.missing?.includes("year");
+  const merged: Paper = {
+    ...base,
+    abstract: base.abstract ?? other.abstract,
+    venue: base.venue || other.venue,
+    authors: base.authors || other.authors,
+    url: base.url || other.url,
+    fields: base.fields ?? other.fields,
+    year: yearKnown(base) || !yearKnown(other) ? base.year : other.year,
+  };
+  const missing = (base.missing ?? []).filter(
+    (field) =>
+      field === "topic" ||
+      (field === "year" && !yearKnown(other)) ||
+      (field === "abstract" && !merged.abstract)
+  );
+  if (missing.length > 0) merged.missing = missing;
+  else delete merged.missing;
+  return merged;
+}
+
+/**
+ * Read any mix of paper exports into one de-duplicated list. Papers are
+ * matched on their normalized DOI; papers without a DOI are all kept.
+ * With a `csvMapping`, CSVs in no known layout are read through it like
+ * BERTopic's. Throws PaperImportError for files in no recognized format.
+ */
+export function importPapers(
+  files: Array<{ name: string; text: string }>,
+  csvMapping?: CsvMapping<PaperCsvField>
+): PaperImportResult {
+  const byDoi = new Map<string, number>();
+  const papers: Paper[] = [];
+  const byFormat: PaperImportResult["byFormat"] = {};
+  let duplicates = 0;
+
+  for (const [fileIndex, file] of files.entries()) {
+    const format =
+      detectPaperFormat(file.name, file.text) ??
+      (csvMapping && isMappablePaperCSV(file.name, file.text) ? "bertopic_csv" : null);
+    if (!format) {
+      throw new PaperImportError(file.name, "unrecognized format; expected BERTopic or Scopus CSV, BibTeX, RIS, Web of Science or OpenAlex JSON");
+    }
+    let parsed: Paper[];
+    try {
+      parsed =
+        format === "bertopic_csv"
+          ? parsePapersCSV(file.text, csvMapping)
+          : parseRecords(format, file.text).map((r, i) => toPaper(r, format, fileIndex, i));
+    } catch (err) {
+      throw new PaperImportError(file.name, err instanceof Error ? err.message : String(err));
+    }
+    byFormat[format] = (byFormat[format] ?? 0) + parsed.length;
+
+    for (const paper of parsed) {
+      if (!paper.title && !paper.doi) continue;
+      const doi = normalizeDoi(paper.doi);
+      const seen = doi ? byDoi.get(doi) : undefined;
+      if (seen !== undefined) {
+        papers[seen] = mergeDuplicate(papers[seen], paper);
+        duplicates++;
+        continue;
+      }
+      if (doi) byDoi.set(doi, papers.length);
+      papers.push(paper);
+    }
+  }
+
+  return {
+    papers,
+    duplicates,
+    byFormat,
+    unassigned: papers.filter((p) => p.missing?.includes("topic")).length,
+  };
+}
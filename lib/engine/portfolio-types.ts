@@ -1,4 +1,6 @@
 import { z } from "zod/v4";
+import type { EnsembleSummary } from "./ensemble";
+import type { ReportSource } from "./report-index";
 
 // ============================================================
 // Training Directions (the 6 "asset classes" in our MPT analogy)
@@ -86,10 +88,14 @@ export interface AnalysisResult {
   programDescription: string;
   targetAudience: string;
   educationLevel: string;
+  affinityVariance?: Record<number, number[]>; // per-cell variance across ensemble runs
+  ensemble?: EnsembleSummary; // absent for a single run
+  unscoredTopics?: number[]; // no run returned a usable row; scored a uniform 0.5
+  affinityRationale?: Record<number, Array<AffinityRationale | null>>; // aligned with affinityMatrix rows
 }
 
 export interface SourceData {
-  reports: Array<{ name: string; textContent: string }>;
+  reports: ReportSource[];
   topics: TopicInfo[];
   papers: Paper[];
 }
@@ -105,9 +111,19 @@ export const TopicInfoSchema = z.object({
   keywords: z.array(z.string()),
   representativeDocs: z.array(z.string()),
   rarityLabel: z.enum(["COMMON", "RARE", "NO_TOPIC"]),
+  excluded: z.boolean().optional(), // left out of the portfolio by a topic edit
 });
 export type TopicInfo = z.infer<typeof TopicInfoSchema>;
 
+/** Topics the portfolio is built from: all but those excluded by a topic edit. */
+export function portfolioTopics(topics: TopicInfo[]): TopicInfo[] {
+  return topics.some((t) => t.excluded) ? topics.filter((t) => !t.excluded) : topics;
+}
+
+/** Paper details an import could not supply; "topic" waits for in-app topic modelling. */
+export const PaperFieldSchema = z.enum(["topic", "year", "abstract"]);
+export type PaperField = z.infer<typeof PaperFieldSchema>;
+
 export const PaperSchema = z.object({
   id: z.string(),
   doi: z.string(),
@@ -121,9 +137,18 @@ export const PaperSchema = z.object({
   fields: z.string().optional(),
   topicNumber: z.number(),
   rarityLabel: z.enum(["COMMON", "RARE", "NO_TOPIC"]),
+  missing: z.array(PaperFieldSchema).optional(), // absent means complete
 });
 export type Paper = z.infer<typeof PaperSchema>;
 
+/** Why a topic got its affinity score for one direction, and the evidence cited. */
+export const AffinityRationaleSchema = z.object({
+  justification: z.string().min(1),
+  keywords: z.array(z.string()), // the topic's own keywords
+  documents: z.array(z.string()), // titles of the topic's representative documents
+});
+export type AffinityRationale = z.infer<typeof AffinityRationaleSchema>;
+
 
 export const SkillWeightsSchema = z.object({
   new_technologies: z.number().min(0).max(1),
@@ -178,6 +203,7 @@ export const CourseOutlineSchema = z.object({
   overview: z.string(),
   trainingDirection: z.string(),
   totalHours: z.number(),
+  targetHours: z.number().optional(), // allotted by the program budget, when one is set
   modules: z.array(ModuleSchema),
 });
 export type CourseOutline = z.infer<typeof CourseOutlineSchema>;
@@ -209,3 +235,246 @@ export const DEFAULT_CONSTRAINTS: DirectionConstraints = {
   min: 0.05,
   max: 0.50,
 };
+
+/**
+ * Bound on the combined weight of several directions,
+ * e.g. "the two Personal Growth directions together ≤ 35%".
+ */
+export interface GroupConstraint {
+  id: string;
+  label: string;
+  directionKeys: TrainingDirectionKey[];
+  min?: number;
+  max?: number;
+}
+
+export interface PortfolioConstraints {
+  directions: Record<TrainingDirectionKey, DirectionConstraints>;
+  groups: GroupConstraint[];
+}
+
+export function createDefaultPortfolioConstraints(): PortfolioConstraints {
+  return {
+    directions: Object.fromEntries(
+      TRAINING_DIRECTIONS.map((d) => [d.key, { ...DEFAULT_CONSTRAINTS }])
+    ) as Record<TrainingDirectionKey, DirectionConstraints>,
+    groups: [],
+  };
+}
+
+// ============================================================
+// Expert views (Black–Litterman)
+// ============================================================
+
+/**
+ * A curriculum committee's opinion about direction returns.
+ *   - absolute: "technology return is 0.40 ± 0.05"
+ *   - relative: "negotiation will outperform trends by 0.10"
+ */
+export interface ExpertView {
+  id: string;
+  kind: "absolute" | "relative";
+  directionKey: TrainingDirectionKey;
+  versusKey?: TrainingDirectionKey; // relative views only
+  value: number; // expected return (absolute) or return difference (relative)
+  confidence: number; // 0–1; ignored when `uncertainty` is set
+  uncertainty?: number; // optional standard deviation of the view
+}
+
+// ============================================================
+// Optimizer settings
+// ============================================================
+
+/**
+ * Resampled (Michaud) frontier: re-optimize on noisy copies of the
+ * AI-scored affinity matrix and average the weights.
+ */
+export interface ResamplingSettings {
+  enabled: boolean;
+  method: "perturb" | "bootstrap"; // jitter affinity scores, or resample topics
+  simulations: number;
+  noise: number; // std. dev. of the affinity perturbation
+  seed: number;
+}
+
+export type AllocationStrategy =
+  | "mean_variance" // frontier point picked by risk tolerance
+  | "risk_parity"
+  | "max_diversification"
+  | "min_variance"
+  | "inverse_volatility"
+  | "equal_weight";
+
+export const ALLOCATION_STRATEGIES: AllocationStrategy[] = [
+  "mean_variance",
+  "risk_parity",
+  "max_diversification",
+  "min_variance",
+  "inverse_volatility",
+  "equal_weight",
+];
+
+/** Coefficients of the expected-return model (see computeExpectedReturns). */
+export interface ReturnModelCoefficients {
+  coverageWeight: number;
+  rarityWeight: number;
+  breadthWeight: number;
+  rarityPremium: number; // multiplier on coverage of RARE topics
+  affinityThreshold: number; // affinity above which a topic counts towards breadth
+}
+
+export const DEFAULT_RETURN_MODEL: ReturnModelCoefficients = {
+  coverageWeight: 0.5,
+  rarityWeight: 0.3,
+  breadthWeight: 0.2,
+  rarityPremium: 2.0,
+  affinityThreshold: 0.3,
+};
+
+/**
+ * Static returns weigh topics by paper count alone; momentum-adjusted
+ * returns also scale each topic by its recent publication growth, so
+ * fast-growing research counts for more than fading research.
+ */
+export type ReturnTrend = "static" | "momentum";
+
+export interface MomentumSettings {
+  windowYears: number; // trailing years the growth rate is fitted over
+  strength: number; // 0 = static; 1 = a topic growing g per year weighs e^g
+}
+
+/** Directions below this weight get no course (see /api/generate). */
+export const MIN_COURSE_WEIGHT = 0.03;
+
+/**
+ * "At most K courses": hold at most `maxAssets` directions, each at no
+ * less than `minPosition` (and its own minimum bound). Directions left
+ * out are held at exactly 0, whatever their minimum bound says.
+ */
+export interface CardinalitySettings {
+  enabled: boolean;
+  maxAssets: number;
+  minPosition: number; // at least MIN_COURSE_WEIGHT
+}
+
+/**
+ * How portfolio risk is measured: variance of affinity vectors
+ * (symmetric), or CVaR of the topic-coverage shortfall (downside only).
+ */
+export type RiskMeasure = "variance" | "cvar";
+
+/**
+ * How direction covariance is estimated from topics: every topic as one
+ * observation, topics weighted by paper count, or Ledoit–Wolf shrinkage
+ * towards a constant-correlation target.
+ */
+export type CovarianceEstimator = "sample" | "weighted" | "ledoit_wolf";
+
+export const COVARIANCE_ESTIMATORS: CovarianceEstimator[] = ["sample", "weighted", "ledoit_wolf"];
+
+export interface OptimizerSettings {
+  strategy: AllocationStrategy;
+  riskMeasure: RiskMeasure;
+  cvarConfidence: number; // tail = worst (1 − confidence) of paper mass
+  covarianceEstimator: CovarianceEstimator;
+  resampling: ResamplingSettings;
+  cardinality: CardinalitySettings;
+  returnModel: ReturnModelCoefficients;
+  returnTrend: ReturnTrend;
+  momentum: MomentumSettings;
+  riskFreeRate: number; // baseline return subtracted in the Sharpe ratio
+  topicRarityTilt: number; // RARE topics' multiplier when a direction's weight is split over topics
+}
+
+export function createDefaultOptimizerSettings(): OptimizerSettings {
+  return {
+    strategy: "mean_variance",
+    riskMeasure: "variance",
+    cvarConfidence: 0.9,
+    covarianceEstimator: "sample",
+    returnModel: { ...DEFAULT_RETURN_MODEL },
+    returnTrend: "static",
+    momentum: { windowYears: 5, strength: 1 },
+    riskFreeRate: 0,
+    topicRarityTilt: 1.5,
+    resampling: {
+      enabled: false,
+      method: "perturb",
+      simulations: 100,
+      noise: 0.1,
+      seed: 42,
+    },
+    cardinality: {
+      enabled: false,
+      maxAssets: 4,
+      minPosition: 0.05,
+    },
+  };
+}
+
+/** Fill in settings added after a project was saved. */
+export function withOptimizerDefaults(settings?: Partial<OptimizerSettings>): OptimizerSettings {
+  const defaults = createDefaultOptimizerSettings();
+  return {
+    ...defaults,
+    ...settings,
+    resampling: { ...defaults.resampling, ...settings?.resampling },
+    cardinality: { ...defaults.cardinality, ...settings?.cardinality },
+    returnModel: { ...defaults.returnModel, ...settings?.returnModel },
+    momentum: { ...defaults.momentum, ...settings?.momentum },
+  };
+}
+
+// ============================================================
+// Program budget
+// ============================================================
+
+export type BudgetUnit = "hours" | "ects";
+
+/**
+ * Total study time for the program, split across the courses in
+ * proportion to the selected weights (see lib/engine/hours-budget.ts).
+ */
+export interface ProgramBudget {
+  unit: BudgetUnit;
+  amount: number; // in `unit`
+  hoursPerEcts: number; // study hours per credit; ECTS allows 25–30
+  minCourseHours: number;
+  roundTo: number; // course targets are whole multiples of this many hours
+}
+
+export function createDefaultProgramBudget(): ProgramBudget {
+  return {
+    unit: "ects",
+    amount: 30,
+    hoursPerEcts: 25,
+    minCourseHours: 10,
+    roundTo: 5,
+  };
+}
+
+// ============================================================
+// Stress scenarios
+// ============================================================
+
+/** Which topics a shock hits. */
+export type TopicSelector =
+  | { by: "topics"; topicNumbers: number[] }
+  | { by: "rarity"; rarity: "COMMON" | "RARE" }
+  | { by: "keyword"; keyword: string }; // matched against topic names and keywords
+
+/**
+ * A hypothetical change to the sector's literature:
+ *   - count: the selected topics' paper counts scale by `factor`
+ *     (0 = the topics vanish, 2 = they double)
+ *   - affinity: one topic's affinity row is replaced
+ */
+export type StressShock =
+  | { id: string; kind: "count"; selector: TopicSelector; factor: number }
+  | { id: string; kind: "affinity"; topicNumber: number; affinities: number[] };
+
+export interface StressScenario {
+  id: string;
+  name: string;
+  shocks: StressShock[];
+}
@@ -0,0 +1,249 @@
+import {
+  dot,
+  cholesky,
+  forwardSubstitute,
+  backSubstituteTransposed,
+  backSubstituteUpper,
+  householderQR,
+} from "./matrix";
+
+/**
+ * Convex quadratic program:
+ *
+ *   minimize    ½·xᵀQx + cᵀx
+ *   subject to  Aeq·x  = beq
+ *               Aineq·x ≤ bineq
+ *               lb ≤ x ≤ ub
+ *
+ * Q must be symmetric positive definite (the covariance matrix with its
+ * diagonal loading always is).
+ */
+export interface QPProblem {
+  Q: number[][];
+  c: number[];
+  Aeq?: number[][];
+  beq?: number[];
+  Aineq?: number[][];
+  bineq?: number[];
+  lb?: number[];
+  ub?: number[];
+}
+
+export type QPStatus = "optimal" | "infeasible" | "max_iterations" | "not_positive_definite";
+
+export interface QPResult {
+  x: number[];
+  status: QPStatus;
+  iterations: number;
+  objective: number;
+}
+
+interface Constraint {
+  normal: number[];
+  bound: number;
+  equality: boolean;
+}
+
+const FEASIBILITY_TOL = 1e-10;
+const ZERO_TOL = 1e-12;
+/**
+ * Slack up to which a constraint dependent on the active set counts as
+ * satisfied: round-off, and the ridge term of the maximum-return solve
+ * whose return the frontier's last target is. Returns are reported to 1e-6.
+ */
+const DEPENDENT_TOL = 1e-6;
+
+/**
+ * Build the constraint list in the `nᵀx ≥ b` form used by the dual method.
+ */
+function buildConstraints(problem: QPProblem, n: number): Constraint[] {
+  const constraints: Constraint[] = [];
+
+  problem.Aeq?.forEach((row, i) => {
+    constraints.push({ normal: row, bound: problem.beq![i], equality: true });
+  });
+  problem.Aineq?.forEach((row, i) => {
+    constraints.push({
+      normal: row.map((v) => -v),
+      bound: -problem.bineq![i],
+      equality: false,
+    });
+  });
+  for (let i = 0; i < n; i++) {
+    const unit = (sign: number) =>
+      Array.from({ length: n }, (_, j) => (j === i ? sign : 0));
+    if (problem.lb && Number.isFinite(problem.lb[i])) {
+      constraints.push({ normal: unit(1), bound: problem.lb[i], equality: false });
+    }
+    if (problem.ub && Number.isFinite(problem.ub[i])) {
+      constraints.push({ normal: unit(-1), bound: -problem.ub[i], equality: false });
+    }
+  }
+
+  return constraints;
+}
+
+function objectiveValue(Q: number[][], c: number[], x: number[]): number {
+  let quad = 0;
+  for (let i = 0; i < x.length; i++) {
+    for (let j = 0; j < x.length; j++) quad += x[i] * Q[i][j] * x[j];
+  }
+  return 0.5 * quad + dot(c, x);
+}
+
+/**
+ * Solve a strictly convex QP with the Goldfarb–Idnani dual active-set method.
+ *
+ * The method starts from the unconstrained minimum and adds violated
+ * constraints one at a time, dropping constraints whose multipliers would
+ * turn negative. It needs no feasible starting point and terminates in a
+ * finite number of steps, so results are exact (up to floating point) and
+ * identical on every run. With only six directions, the J/R factors are
+ * recomputed from scratch at every step instead of being updated with
+ * Givens rotations.
+ */
+export function solveQP(problem: QPProblem, maxIterations = 500): QPResult {
+  const { Q, c } = problem;
+  const n = c.length;
+
+  const L = cholesky(Q);
+  if (!L) {
+    return {
+      x: new Array(n).fill(1 / n),
+      status: "not_positive_definite",
+      iterations: 0,
+      objective: NaN,
+    };
+  }
+
+  const constraints = buildConstraints(problem, n);
+
+  // Unconstrained minimum: x = -Q⁻¹c
+  let x = backSubstituteTransposed(L, forwardSubstitute(L, c.map((v) => -v)));
+
+  // Active set (constraint index + normal orientation) and multipliers
+  let active: number[] = [];
+  let activeNormals: number[][] = [];
+  let multipliers: number[] = [];
+  let iterations = 0;
+  // Constraints implied by the active set and already met; they cannot join it
+  let implied = new Set<number>();
+
+  const slack = (idx: number) =>
+    dot(constraints[idx].normal, x) - constraints[idx].bound;
+
+  // J = L⁻ᵀ·Qr and R from the QR of L⁻¹·N (N = active normals)
+  const factorize = () => {
+    const columns = activeNormals.map((nv) => forwardSubstitute(L, nv));
+    const { Q: Qr, R } = householderQR(columns, n);
+    const J: number[][] = Array.from({ length: n }, () => new Array(n).fill(0));
+    for (let col = 0; col < n; col++) {
+      const qc = Qr.map((row) => row[col]);
+      const jc = backSubstituteTransposed(L, qc);
+      for (let i = 0; i < n; i++) J[i][col] = jc[i];
+    }
+    return { J, R };
+  };
+
+  const dropActive = (pos: number) => {
+    active = active.filter((_, i) => i !== pos);
+    activeNormals = activeNormals.filter((_, i) => i !== pos);
+    multipliers = multipliers.filter((_, i) => i !== pos);
+    implied = new Set();
+  };
+
+  while (iterations < maxIterations) {
+    // Step 1: pick the most violated constraint (equalities first)
+    let p = -1;
+    let worst = 0;
+    for (let i = 0; i < constraints.length; i++) {
+      if (active.includes(i) || implied.has(i)) continue;
+      const s = slack(i);
+      const violation = constraints[i].equality ? Math.abs(s) : -s;
+      const priority = constraints[i].equality ? violation + 1e6 : violation;
+      if (violation > FEASIBILITY_TOL && priority > worst) {
+        worst = priority;
+        p = i;
+      }
+    }
+    if (p === -1) {
+      return { x, status: "optimal", iterations, objective: objectiveValue(Q, c, x) };
+    }
+
+    // Equalities violated from above are added with a flipped normal
+    const flip = constraints[p].equality && slack(p) > 0 ? -1 : 1;
+    const np = constraints[p].normal.map((v) => v * flip);
+    const bp = constraints[p].bound * flip;
+    let uPlus = 0;
+
+    // Step 2: move towards satisfying constraint p
+    for (;;) {
+      iterations++;
+      if (iterations > maxIterations) {
+        return { x, status: "max_iterations", iterations, objective: objectiveValue(Q, c, x) };
+      }
+
+      const q = active.length;
+      const { J, R } = factorize();
+      const d = J.map((_, col) => J.reduce((s, row, i) => s + row[col] * np[i], 0));
+
+      // Primal direction z = J₂·d₂, dual direction r = R⁻¹·d₁
+      const z = new Array(n).fill(0);
+      for (let col = q; col < n; col++) {
+        for (let i = 0; i < n; i++) z[i] += J[i][col] * d[col];
+      }
+      const r = q > 0 ? backSubstituteUpper(R, d.slice(0, q)) : [];
+
+      // Partial (dual) step length: first inequality multiplier hitting zero
+      let t1 = Infinity;
+      let blocking = -1;
+      for (let j = 0; j < q; j++) {
+        if (constraints[active[j]].equality) continue;
+        if (r[j] > ZERO_TOL) {
+          const ratio = multipliers[j] / r[j];
+          if (ratio < t1) {
+            t1 = ratio;
+            blocking = j;
+          }
+        }
+      }
+
+      // Full (primal) step length
+      const zn = dot(z, np);
+      const sp = dot(np, x) - bp;
+      const t2 = Math.abs(zn) > ZERO_TOL ? -sp / zn : Infinity;
+
+      if (!Number.isFinite(t1) && !Number.isFinite(t2)) {
+        // Dependent on the active set: infeasible unless it already holds up to round-off
+        if (Math.abs(sp) > DEPENDENT_TOL) {
+          return { x, status: "infeasible", iterations, objective: objectiveValue(Q, c, x) };
+        }
+        implied.add(p);
+        break;
+      }
+
+      if (!Number.isFinite(t2)) {
+        // Pure dual step: constraint p is dependent on the active set
+        multipliers = multipliers.map((u, j) => u - t1 * r[j]);
+        uPlus += t1;
+        dropActive(blocking);
+        continue;
+      }
+
+      const t = Math.min(t1, t2);
+      x = x.map((xi, i) => xi + t * z[i]);
+      multipliers = multipliers.map((u, j) => u - t * r[j]);
+      uPlus += t;
+
+      if (t === t2) {
+        active.push(p);
+        activeNormals.push(np);
+        multipliers.push(uPlus);
+        break;
+      }
+      dropActive(blocking);
+    }
+  }
+
+  return { x, status: "max_iterations", iterations, objective: objectiveValue(Q, c, x) };
+}
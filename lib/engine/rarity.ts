@@ -0,0 +1,80 @@
+import type { TopicInfo, Paper } from "./portfolio-types";
+import { RARE_TOPIC_THRESHOLD } from "./data-loader";
+
+/**
+ * How topics are split into COMMON and RARE. Every rule reduces to a
+ * paper-count cutoff for the corpus at hand: topics below it are RARE.
+ *
+ * - absolute: a fixed number of papers
+ * - percentile: the given percentile of topic sizes
+ * - zscore: topics whose log size lies more than `zScore` standard
+ *   deviations below the mean (sizes are heavily skewed, hence the log)
+ */
+export type RarityRuleKind = "absolute" | "percentile" | "zscore";
+
+export const RARITY_RULE_KINDS: RarityRuleKind[] = ["absolute", "percentile", "zscore"];
+
+export interface RarityRule {
+  kind: RarityRuleKind;
+  minCount: number;
+  percentile: number; // 0–100
+  zScore: number;
+}
+
+/** Per-topic labels that win over the rule, keyed by topic number. */
+export type RarityOverrides = Record<number, "COMMON" | "RARE">;
+
+export function createDefaultRarityRule(): RarityRule {
+  return { kind: "absolute", minCount: RARE_TOPIC_THRESHOLD, percentile: 25, zScore: 1 };
+}
+
+/** Linear-interpolated percentile (0–100) of sorted values. */
+function percentileOf(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const pos = (Math.min(Math.max(p, 0), 100) / 100) * (sorted.length - 1);
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+/** Paper count below which an active topic is RARE under `rule`. */
+export function rarityCutoff(topics: TopicInfo[], rule: RarityRule): number {
+  const counts = topics
+    .filter((t) => t.topicNumber !== -1 && Number.isFinite(t.count))
+    .map((t) => t.count)
+    .sort((a, b) => a - b);
+
+  switch (rule.kind) {
+    case "absolute":
+      return rule.minCount;
+    case "percentile":
+      return percentileOf(counts, rule.percentile);
+    case "zscore": {
+      if (counts.length < 2) return 0;
+      const logs = counts.map((c) => Math.log(Math.max(c, 1)));
+      const mean = logs.reduce((a, b) => a + b, 0) / logs.length;
+      const sd = Math.sqrt(logs.reduce((s, l) => s + (l - mean) ** 2, 0) / (logs.length - 1));
+      return Math.exp(mean - rule.zScore * sd);
+    }
+  }
+}
+
+/** Topics re-labeled under `rule`, with `overrides` taking precedence. */
+export function classifyTopics(
+  topics: TopicInfo[],
+  rule: RarityRule,
+  overrides: RarityOverrides = {}
+): TopicInfo[] {
+  const cutoff = rarityCutoff(topics, rule);
+  return topics.map((topic) => {
+    if (topic.topicNumber === -1) return { ...topic, rarityLabel: "NO_TOPIC" };
+    const rarityLabel = overrides[topic.topicNumber] ?? (topic.count < cutoff ? "RARE" : "COMMON");
+    return { ...topic, rarityLabel };
+  });
+}
+
+/** Papers carrying their topic's current label. */
+export function relabelPapers(papers: Paper[], topics: TopicInfo[]): Paper[] {
+  const labels = new Map(topics.map((t) => [t.topicNumber, t.rarityLabel]));
+  return papers.map((paper) => ({ ...paper, rarityLabel: labels.get(paper.topicNumber) ?? "NO_TOPIC" }));
+}
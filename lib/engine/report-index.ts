@@ -0,0 +1,171 @@
+import { TRAINING_DIRECTIONS, type TopicInfo } from "./portfolio-types";
+import { tokenize } from "./topic-model";
+
+/**
+ * Retrieval over sector reports. Report pages are split into overlapping
+ * word windows that never cross a page, so every passage can be cited by
+ * report and page, and indexed with BM25. Prompts then carry only the
+ * passages that match each topic and training direction instead of the
+ * reports' full text.
+ */
+
+export interface ReportChunk {
+  report: string; // file name of the report
+  page: number; // 1-based
+  text: string;
+}
+
+/** A report as kept in a project. Projects saved before chunking hold only `textContent`. */
+export interface ReportSource {
+  name: string;
+  textContent?: string; // pages joined by blank lines
+  chunks?: ReportChunk[];
+}
+
+export interface ReportIndex {
+  chunks: ReportChunk[];
+  termFreqs: Array<Map<string, number>>;
+  lengths: number[];
+  avgLength: number;
+  docFreq: Map<string, number>;
+}
+
+export interface RetrievedPassage {
+  chunk: ReportChunk;
+  score: number;
+}
+
+/** Passages for the analysis prompt; refs index into `passages`. */
+export interface AnalysisPassages {
+  passages: ReportChunk[];
+  topicRefs: Record<number, number[]>;
+  directionRefs: number[][]; // one list per training direction
+}
+
+export const CHUNK_WORDS = 200;
+const CHUNK_OVERLAP = 40;
+const MIN_CHUNK_WORDS = 20; // shorter page tails join the previous window
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export const PASSAGES_PER_TOPIC = 3;
+export const PASSAGES_PER_DIRECTION = 2;
+export const PASSAGES_PER_COURSE = 6;
+const MAX_ANALYSIS_PASSAGES = 60;
+
+/** Overlapping word windows of each page; blank pages give none. */
+export function chunkReport(report: string, pages: string[]): ReportChunk[] {
+  const chunks: ReportChunk[] = [];
+  pages.forEach((pageText, p) => {
+    const words = pageText.split(/\s+/).filter(Boolean);
+    for (let start = 0; start < words.length; start += CHUNK_WORDS - CHUNK_OVERLAP) {
+      let end = Math.min(start + CHUNK_WORDS, words.length);
+      if (words.length - end < MIN_CHUNK_WORDS) end = words.length;
+      chunks.push({ report, page: p + 1, text: words.slice(start, end).join(" ") });
+      if (end === words.length) break;
+    }
+  });
+  return chunks;
+}
+
+/** Chunks of every report, chunking the page-joined text of older projects on the fly. */
+export function reportChunks(reports: ReportSource[]): ReportChunk[] {
+  return reports.flatMap((r) => r.chunks ?? chunkReport(r.name, (r.textContent ?? "").split("\n\n")));
+}
+
+export function buildReportIndex(chunks: ReportChunk[]): ReportIndex {
+  const termFreqs: Array<Map<string, number>> = [];
+  const lengths: number[] = [];
+  const docFreq = new Map<string, number>();
+
+  for (const chunk of chunks) {
+    const tokens = tokenize(chunk.text);
+    const tf = new Map<string, number>();
+    for (const token of tokens) tf.set(token, (tf.get(token) ?? 0) + 1);
+    for (const term of tf.keys()) docFreq.set(term, (docFreq.get(term) ?? 0) + 1);
+    termFreqs.push(tf);
+    lengths.push(tokens.length);
+  }
+
+  const avgLength = lengths.length > 0 ? lengths.reduce((a, b) => a + b, 0) / lengths.length : 0;
+  return { chunks, termFreqs, lengths, avgLength, docFreq };
+}
+
+/** The `limit` best-matching chunks for `query`, best first; chunks sharing no term are left out. */
+export function searchReportIndex(index: ReportIndex, query: string, limit: number): RetrievedPassage[] {
+  const n = index.chunks.length;
+  const terms = [...new Set(tokenize(query))];
+  if (n === 0 || terms.length === 0) return [];
+
+  const idf = terms.map((term) => {
+    const df = index.docFreq.get(term) ?? 0;
+    return Math.log(1 + (n - df + 0.5) / (df + 0.5));
+  });
+
+  const scored: RetrievedPassage[] = [];
+  index.termFreqs.forEach((tf, i) => {
+    const norm = BM25_K1 * (1 - BM25_B + (BM25_B * index.lengths[i]) / (index.avgLength || 1));
+    let score = 0;
+    terms.forEach((term, t) => {
+      const f = tf.get(term);
+      if (f) score += (idf[t] * f * (BM25_K1 + 1)) / (f + norm);
+    });
+    if (score > 0) scored.push({ chunk: index.chunks[i], score });
+  });
+
+  return scored.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+export function topicQuery(topic: TopicInfo): string {
+  return `${topic.name} ${topic.keywords.join(" ")}`;
+}
+
+export function directionQuery(directionIndex: number): string {
+  const direction = TRAINING_DIRECTIONS[directionIndex];
+  return `${direction.name} ${direction.description}`;
+}
+
+/**
+ * Passages for the analysis prompt: the best few per topic and per
+ * direction, each passage listed once. Topics come first, so they keep
+ * their passages when the cap is reached.
+ */
+export function selectAnalysisPassages(index: ReportIndex, topics: TopicInfo[]): AnalysisPassages {
+  const passages: ReportChunk[] = [];
+  const positions = new Map<ReportChunk, number>();
+  const refsFor = (query: string, limit: number): number[] =>
+    searchReportIndex(index, query, limit).flatMap(({ chunk }) => {
+      let pos = positions.get(chunk);
+      if (pos === undefined) {
+        if (passages.length >= MAX_ANALYSIS_PASSAGES) return [];
+        pos = passages.push(chunk) - 1;
+        positions.set(chunk, pos);
+      }
+      return [pos];
+    });
+
+  const topicRefs: Record<number, number[]> = {};
+  for (const topic of topics) {
+    if (topic.topicNumber !== -1) topicRefs[topic.topicNumber] = refsFor(topicQuery(topic), PASSAGES_PER_TOPIC);
+  }
+  const directionRefs = TRAINING_DIRECTIONS.map((_, d) => refsFor(directionQuery(d), PASSAGES_PER_DIRECTION));
+  return { passages, topicRefs, directionRefs };
+}
+
+/** Passages for one direction's course: the direction's own text plus the keywords of the topics it teaches. */
+export function selectCoursePassages(
+  index: ReportIndex,
+  directionIndex: number,
+  courseTopics: TopicInfo[]
+): ReportChunk[] {
+  const keywords = courseTopics.flatMap((t) => t.keywords.slice(0, 5)).join(" ");
+  return searchReportIndex(index, `${directionQuery(directionIndex)} ${keywords}`, PASSAGES_PER_COURSE).map(
+    (p) => p.chunk
+  );
+}
+
+/** "report.pdf, p. 12" */
+export function citePassage(chunk: ReportChunk): string {
+  return `${chunk.report}, p. ${chunk.page}`;
+}
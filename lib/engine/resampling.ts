@@ -0,0 +1,131 @@
+import type { TopicInfo, ResamplingSettings } from "./portfolio-types";
+import {
+  computeEfficientFrontier,
+  evaluatePortfolio,
+  type OptimizerFrontierPoint,
+} from "./optimizer";
+import type { OptimizerConstraints } from "./constraints";
+import type { MarketInputs } from "./market-inputs";
+import { createRng, gaussian, quantile, type Rng } from "./random";
+
+export interface WeightInterval {
+  lower: number[];
+  upper: number[];
+}
+
+export interface ResampledFrontier {
+  frontier: OptimizerFrontierPoint[];
+  intervals: WeightInterval[]; // aligned with `frontier`
+  simulations: number; // simulations that produced a complete frontier
+  converged: boolean; // false when any simulation's frontier was dropped
+}
+
+/** Add Gaussian noise to every affinity score, clamped to [0, 1]. */
+export function perturbAffinityMatrix(
+  affinityMatrix: Record<number, number[]>,
+  noise: number,
+  rng: Rng
+): Record<number, number[]> {
+  const perturbed: Record<number, number[]> = {};
+  for (const [topic, row] of Object.entries(affinityMatrix)) {
+    perturbed[Number(topic)] = row.map((v) =>
+      Math.max(0, Math.min(1, v + noise * gaussian(rng)))
+    );
+  }
+  return perturbed;
+}
+
+/** Draw the active topics with replacement (the outlier topic -1 is dropped). */
+export function bootstrapTopics(topics: TopicInfo[], rng: Rng): TopicInfo[] {
+  const active = topics.filter((t) => t.topicNumber !== -1);
+  return active.map(() => active[Math.floor(rng() * active.length)]);
+}
+
+/**
+ * Resampled efficient frontier (Michaud).
+ *
+ * Each simulation perturbs the affinity matrix (or bootstraps topics),
+ * re-estimates returns and covariance, and traces a fresh frontier.
+ * Simulations with a failed solve are dropped whole, so every weight
+ * vector averaged is feasible and ranks stay aligned. Weights are
+ * averaged rank by rank; the averages stay feasible because the
+ * constraint set is convex. The averaged portfolios are then evaluated
+ * with the unperturbed returns and covariance. Percentile intervals of
+ * the simulated weights show how precise each allocation really is.
+ */
+export function resampleEfficientFrontier(
+  topics: TopicInfo[],
+  affinityMatrix: Record<number, number[]>,
+  estimate: (topics: TopicInfo[], affinityMatrix: Record<number, number[]>) => MarketInputs,
+  constraints: OptimizerConstraints,
+  settings: ResamplingSettings,
+  { riskFreeRate = 0, confidenceLevel = 0.9, numPoints = 50 } = {}
+): ResampledFrontier {
+  const base = estimate(topics, affinityMatrix);
+  const rng = createRng(settings.seed);
+  const samples: number[][][] = Array.from({ length: numPoints }, () => []);
+  let simulations = 0;
+
+  for (let s = 0; s < settings.simulations; s++) {
+    const simTopics = settings.method === "bootstrap" ? bootstrapTopics(topics, rng) : topics;
+    const simMatrix =
+      settings.method === "perturb"
+        ? perturbAffinityMatrix(affinityMatrix, settings.noise, rng)
+        : affinityMatrix;
+
+    const sim = estimate(simTopics, simMatrix);
+    const { frontier, converged } = computeEfficientFrontier(
+      sim.expectedReturns,
+      sim.covMatrix,
+      constraints,
+      numPoints
+    );
+    if (frontier.length === 0 || !converged) continue;
+
+    simulations++;
+    for (let k = 0; k < numPoints; k++) {
+      // A flat simulated frontier has one point; it stands in for every rank
+      samples[k].push(frontier[Math.min(k, frontier.length - 1)].weights);
+    }
+  }
+
+  if (simulations === 0) {
+    return { frontier: [], intervals: [], simulations: 0, converged: false };
+  }
+
+  const tail = (1 - confidenceLevel) / 2;
+  const frontier: OptimizerFrontierPoint[] = [];
+  const intervals: WeightInterval[] = [];
+
+  for (const rankSamples of samples) {
+    const n = rankSamples[0].length;
+    const mean = Array.from(
+      { length: n },
+      (_, d) => rankSamples.reduce((sum, w) => sum + w[d], 0) / rankSamples.length
+    );
+    const point = evaluatePortfolio(mean, base.expectedReturns, base.covMatrix, riskFreeRate);
+    frontier.push({
+      ...point,
+      target_return: point.return,
+      status: "optimal",
+    });
+
+    const lower: number[] = [];
+    const upper: number[] = [];
+    for (let d = 0; d < n; d++) {
+      const sorted = rankSamples.map((w) => w[d]).sort((a, b) => a - b);
+      lower.push(Math.round(quantile(sorted, tail) * 1e4) / 1e4);
+      upper.push(Math.round(quantile(sorted, 1 - tail) * 1e4) / 1e4);
+    }
+    intervals.push({ lower, upper });
+  }
+
+  // Averaging can reorder risks slightly; keep the frontier sorted by risk
+  const order = frontier.map((_, i) => i).sort((a, b) => frontier[a].risk - frontier[b].risk);
+  return {
+    frontier: order.map((i) => frontier[i]),
+    intervals: order.map((i) => intervals[i]),
+    simulations,
+    converged: simulations === settings.simulations,
+  };
+}
@@ -0,0 +1,156 @@
+import type {
+  TopicInfo,
+  AllocationStrategy,
+  ReturnModelCoefficients,
+} from "./portfolio-types";
+import { portfolioTopics } from "./portfolio-types";
+import { estimateMarketInputs, type EstimationSettings, type MarketInputs } from "./market-inputs";
+import { optimizePortfolio, maxFeasibleReturn } from "./optimizer";
+import { solveStrategy } from "./strategies";
+import type { OptimizerConstraints } from "./constraints";
+
+/**
+ * Which portfolio to differentiate. For mean-variance the slider pick is
+ * held at the same relative position between the GMV and maximum-return
+ * ends, so the selected point moves smoothly as inputs change instead of
+ * jumping between the 50 sampled frontier points.
+ */
+export interface SelectionSpec {
+  strategy: AllocationStrategy;
+  frontierPosition: number; // 0 = GMV … 1 = maximum return
+}
+
+export interface SensitivityDriver {
+  kind: "affinity" | "coefficient";
+  topicNumber?: number; // affinity: the topic row
+  directionIndex?: number; // affinity: the scored direction column
+  coefficient?: keyof ReturnModelCoefficients;
+  value: number; // current input value
+  gradient: number[]; // ∂wᵈ/∂x for every direction d
+}
+
+export interface WeightSensitivity {
+  weights: number[];
+  drivers: SensitivityDriver[];
+}
+
+const AFFINITY_STEP = 0.01;
+const COEFFICIENT_STEP = 0.01; // relative to max(|value|, 0.1)
+
+function selectWeights(
+  inputs: MarketInputs,
+  constraints: OptimizerConstraints,
+  spec: SelectionSpec
+): number[] | null {
+  const { expectedReturns, covMatrix } = inputs;
+
+  if (spec.strategy !== "mean_variance") {
+    const result = solveStrategy(spec.strategy, covMatrix, constraints);
+    return result.status === "optimal" ? result.x : null;
+  }
+
+  const gmv = optimizePortfolio(expectedReturns, covMatrix, null, constraints);
+  if (gmv.status !== "optimal") return null;
+  if (spec.frontierPosition <= 0) return gmv.x;
+
+  const maxRet = maxFeasibleReturn(expectedReturns, constraints);
+  if (maxRet.status !== "optimal") return null;
+  const lo = gmv.x.reduce((s, w, i) => s + w * expectedReturns[i], 0);
+  const hi = maxRet.x.reduce((s, w, i) => s + w * expectedReturns[i], 0);
+  if (hi - lo <= 1e-9) return gmv.x;
+
+  const target = lo + spec.frontierPosition * (hi - lo);
+  const solution = optimizePortfolio(expectedReturns, covMatrix, target, constraints);
+  return solution.status === "optimal" ? solution.x : null;
+}
+
+/**
+ * Central difference of the selected weights; one-sided at the edge of
+ * the input's valid range. Returns null when a perturbed problem has no
+ * solution (the driver is then skipped).
+ */
+function finiteDifference(
+  value: number,
+  step: number,
+  range: [number, number],
+  solveAt: (x: number) => number[] | null
+): number[] | null {
+  const up = Math.min(range[1], value + step);
+  const down = Math.max(range[0], value - step);
+  if (up - down < 1e-12) return null;
+  const wUp = solveAt(up);
+  const wDown = solveAt(down);
+  if (!wUp || !wDown) return null;
+  return wUp.map((w, d) => (w - wDown[d]) / (up - down));
+}
+
+/**
+ * How much each selected weight moves per unit change in every affinity
+ * score and every return-model coefficient, by finite differences over
+ * the full estimate → optimize pipeline.
+ */
+export function computeWeightSensitivity(
+  topics: TopicInfo[],
+  affinityMatrix: Record<number, number[]>,
+  settings: EstimationSettings,
+  constraints: OptimizerConstraints,
+  spec: SelectionSpec
+): WeightSensitivity | null {
+  const solve = (matrix: Record<number, number[]>, returnModel: ReturnModelCoefficients) =>
+    selectWeights(
+      estimateMarketInputs(topics, matrix, { ...settings, returnModel }),
+      constraints,
+      spec
+    );
+
+  const weights = solve(affinityMatrix, settings.returnModel);
+  if (!weights) return null;
+
+  const drivers: SensitivityDriver[] = [];
+
+  for (const topic of portfolioTopics(topics)) {
+    if (topic.topicNumber === -1) continue;
+    const row = affinityMatrix[topic.topicNumber];
+    if (!row) continue;
+
+    row.forEach((value, directionIndex) => {
+      const gradient = finiteDifference(value, AFFINITY_STEP, [0, 1], (x) => {
+        const nextRow = [...row];
+        nextRow[directionIndex] = x;
+        return solve({ ...affinityMatrix, [topic.topicNumber]: nextRow }, settings.returnModel);
+      });
+      if (gradient) {
+        drivers.push({ kind: "affinity", topicNumber: topic.topicNumber, directionIndex, value, gradient });
+      }
+    });
+  }
+
+  for (const key of Object.keys(settings.returnModel) as Array<keyof ReturnModelCoefficients>) {
+    const value = settings.returnModel[key];
+    // Breadth counts topics above the threshold, a step function; a wide
+    // window gives the average rate instead of a spike or zero
+    const isThreshold = key === "affinityThreshold";
+    const step = isThreshold ? 0.05 : COEFFICIENT_STEP * Math.max(Math.abs(value), 0.1);
+    const range: [number, number] = isThreshold ? [0, 1] : [0, Infinity];
+    const gradient = finiteDifference(value, step, range, (x) =>
+      solve(affinityMatrix, { ...settings.returnModel, [key]: x })
+    );
+    if (gradient) {
+      drivers.push({ kind: "coefficient", coefficient: key, value, gradient });
+    }
+  }
+
+  return { weights, drivers };
+}
+
+/** Drivers with the largest effect on one direction's weight. */
+export function topDrivers(
+  drivers: SensitivityDriver[],
+  directionIndex: number,
+  limit = 8
+): SensitivityDriver[] {
+  return drivers
+    .filter((d) => Math.abs(d.gradient[directionIndex]) > 1e-6)
+    .sort((a, b) => Math.abs(b.gradient[directionIndex]) - Math.abs(a.gradient[directionIndex]))
+    .slice(0, limit);
+}
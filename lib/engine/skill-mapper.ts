@@ -1,5 +1,13 @@
-import type { TopicInfo, Paper } from "./portfolio-types";
-import { TRAINING_DIRECTIONS } from "./portfolio-types";
+import { z } from "zod/v4";
+import type {
+  TopicInfo,
+  Paper,
+  ReturnModelCoefficients,
+  CovarianceEstimator,
+  AffinityRationale,
+} from "./portfolio-types";
+import { TRAINING_DIRECTIONS, DEFAULT_RETURN_MODEL, AffinityRationaleSchema } from "./portfolio-types";
+import { estimateCovariance } from "./covariance";
 
 /**
  * Compute expected returns for each training direction
@@ -9,21 +17,22 @@ import { TRAINING_DIRECTIONS } from "./portfolio-types";
  *   - coverage: fraction of papers addressable by this direction
  *   - rarity_premium: bonus for covering RARE topics
  *   - breadth: how many distinct topics are covered
+ *
+ * The blend weights, rarity premium and breadth threshold are set per
+ * project; the defaults reproduce the original model.
  */
 export function computeExpectedReturns(
   topics: TopicInfo[],
-  affinityMatrix: Record<number, number[]>
+  affinityMatrix: Record<number, number[]>,
+  coefficients: ReturnModelCoefficients = DEFAULT_RETURN_MODEL
 ): number[] {
   const activeTopics = topics.filter((t) => t.topicNumber !== -1);
   const totalPapers = activeTopics.reduce((sum, t) => sum + t.count, 0);
   const numDirections = TRAINING_DIRECTIONS.length;
   const returns = new Array(numDirections).fill(0);
 
-  const COVERAGE_WEIGHT = 0.5;
-  const RARITY_WEIGHT = 0.3;
-  const BREADTH_WEIGHT = 0.2;
-  const RARITY_PREMIUM = 2.0;
-  const AFFINITY_THRESHOLD = 0.3;
+  const { coverageWeight, rarityWeight, breadthWeight, rarityPremium, affinityThreshold } =
+    coefficients;
 
   for (let d = 0; d < numDirections; d++) {
     // Coverage: weighted fraction of papers this direction addresses
@@ -37,10 +46,10 @@ export function computeExpectedReturns(
       coverage += topic.count * affinity;
 
       if (topic.rarityLabel === "RARE") {
-        rarityBonus += topic.count * affinity * RARITY_PREMIUM;
+        rarityBonus += topic.count * affinity * rarityPremium;
       }
 
-      if (affinity > AFFINITY_THRESHOLD) {
+      if (affinity > affinityThreshold) {
         breadth += 1;
       }
     }
@@ -50,59 +59,48 @@ export function computeExpectedReturns(
     breadth /= Math.max(activeTopics.length, 1);
 
     returns[d] =
-      COVERAGE_WEIGHT * coverage +
-      RARITY_WEIGHT * rarityBonus +
-      BREADTH_WEIGHT * breadth;
+      coverageWeight * coverage +
+      rarityWeight * rarityBonus +
+      breadthWeight * breadth;
   }
 
   return returns;
 }
 
+/**
+ * Share of the sector's papers each direction addresses: the coverage
+ * term of computeExpectedReturns on its own.
+ */
+export function computeDirectionCoverage(
+  topics: TopicInfo[],
+  affinityMatrix: Record<number, number[]>
+): number[] {
+  const activeTopics = topics.filter((t) => t.topicNumber !== -1);
+  const totalPapers = activeTopics.reduce((sum, t) => sum + t.count, 0);
+
+  return TRAINING_DIRECTIONS.map((_, d) => {
+    const covered = activeTopics.reduce(
+      (sum, topic) => sum + topic.count * (affinityMatrix[topic.topicNumber]?.[d] ?? 0),
+      0
+    );
+    return covered / Math.max(totalPapers, 1);
+  });
+}
+
 /**
  * Compute covariance matrix between training directions.
  *
  * Two directions have HIGH covariance if they map to the same topics
- * (investing in both doesn't truly diversify).
+ * (investing in both doesn't truly diversify). The estimator decides how
+ * topics are counted and whether the estimate is shrunk; see
+ * lib/engine/covariance.ts.
  */
 export function computeCovarianceMatrix(
   topics: TopicInfo[],
-  affinityMatrix: Record<number, number[]>
+  affinityMatrix: Record<number, number[]>,
+  estimator: CovarianceEstimator = "sample"
 ): number[][] {
-  const activeTopics = topics.filter((t) => t.topicNumber !== -1);
-  const n = TRAINING_DIRECTIONS.length;
-
-  // Build affinity vectors per direction
-  const vectors: number[][] = Array.from({ length: n }, () => []);
-  for (const topic of activeTopics) {
-    const affinities = affinityMatrix[topic.topicNumber] ?? new Array(n).fill(0);
-    for (let d = 0; d < n; d++) {
-      vectors[d].push(affinities[d]);
-    }
-  }
-
-  // Compute means
-  const means = vectors.map((v) => v.reduce((a, b) => a + b, 0) / v.length);
-
-  // Compute covariance
-  const cov: number[][] = Array.from({ length: n }, () => new Array(n).fill(0));
-  const m = activeTopics.length;
-
-  for (let i = 0; i < n; i++) {
-    for (let j = 0; j < n; j++) {
-      let sum = 0;
-      for (let k = 0; k < m; k++) {
-        sum += (vectors[i][k] - means[i]) * (vectors[j][k] - means[j]);
-      }
-      cov[i][j] = sum / Math.max(m - 1, 1);
-    }
-  }
-
-  // Add small diagonal for numerical stability
-  for (let i = 0; i < n; i++) {
-    cov[i][i] += 0.001;
-  }
-
-  return cov;
+  return estimateCovariance(topics, affinityMatrix, estimator).matrix;
 }
 
 /**
@@ -125,3 +123,65 @@ export function getRelevantPapers(
     .slice(0, maxPapers)
     .map(({ _affinity, ...paper }) => paper);
 }
+
+/**
+ * Affinity rows for `topicNumbers` from a model's raw answer, clamped to
+ * [0, 1]. Rows that are missing, of the wrong length or hold non-numeric
+ * scores are null.
+ */
+export function parseAffinityRows(raw: unknown, topicNumbers: number[]): Record<number, number[] | null> {
+  const numDirections = TRAINING_DIRECTIONS.length;
+  const source = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const rows: Record<number, number[] | null> = {};
+  for (const topicNumber of topicNumbers) {
+    const row = source[topicNumber];
+    rows[topicNumber] =
+      Array.isArray(row) && row.length === numDirections && row.every((v) => Number.isFinite(Number(v)) && v !== null)
+        ? row.map((v) => Math.max(0, Math.min(1, Number(v))))
+        : null;
+  }
+  return rows;
+}
+
+/** A rationale as the model writes it: documents cited by their number in the prompt. */
+const RationaleAnswerSchema = z.object({
+  justification: z.string().trim().min(1),
+  keywords: z.array(z.string()).default([]),
+  documents: z.array(z.number().int()).default([]),
+});
+
+/** Longest justification kept; the prompt asks for one sentence. */
+const MAX_JUSTIFICATION_LENGTH = 300;
+
+/**
+ * Per-direction rationales for `topics` from a model's raw answer.
+ * Cited keywords are kept only if they are the topic's own, and document
+ * numbers are resolved to the topic's representative documents, so the
+ * evidence shown is evidence the model was actually given. Entries that
+ * fail validation are null.
+ */
+export function parseAffinityRationale(
+  raw: unknown,
+  topics: TopicInfo[]
+): Record<number, Array<AffinityRationale | null>> {
+  const source = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const rationale: Record<number, Array<AffinityRationale | null>> = {};
+  for (const topic of topics) {
+    const row = source[topic.topicNumber];
+    const entries = Array.isArray(row) ? row : [];
+    const keywords = new Map(topic.keywords.map((k) => [k.toLowerCase(), k]));
+    rationale[topic.topicNumber] = TRAINING_DIRECTIONS.map((_, d) => {
+      const answer = RationaleAnswerSchema.safeParse(entries[d]);
+      if (!answer.success) return null;
+      const entry = AffinityRationaleSchema.safeParse({
+        justification: answer.data.justification.slice(0, MAX_JUSTIFICATION_LENGTH),
+        keywords: [...new Set(answer.data.keywords.map((k) => keywords.get(k.trim().toLowerCase())).filter(Boolean))],
+        documents: [...new Set(answer.data.documents)]
+          .map((n) => topic.representativeDocs[n - 1])
+          .filter((doc): doc is string => !!doc),
+      });
+      return entry.success ? entry.data : null;
+    });
+  }
+  return rationale;
+}
@@ -0,0 +1,240 @@
+import { ALLOCATION_STRATEGIES, type AllocationStrategy } from "./portfolio-types";
+import { solveQP, type QPResult, type QPStatus } from "./qp-solver";
+import { identity, matVec, dot, quadForm } from "./matrix";
+import type { OptimizerConstraints } from "./constraints";
+import {
+  optimizePortfolio,
+  evaluatePortfolio,
+  type OptimizerFrontierPoint,
+  type PortfolioMetrics,
+} from "./optimizer";
+
+export interface StrategyPortfolio
+  extends Pick<OptimizerFrontierPoint, "risk" | "return" | "weights" | "sharpe_ratio"> {
+  strategy: AllocationStrategy;
+  hhi: number; // Herfindahl index Σw², 1/N (even) … 1 (concentrated)
+  status: QPStatus;
+}
+
+/**
+ * Nearest allocation (in the Euclidean sense) that satisfies the budget,
+ * the bounds and the group rows. Used for heuristic strategies whose raw
+ * weights ignore the constraints.
+ */
+export function projectOntoConstraints(
+  target: number[],
+  constraints: OptimizerConstraints
+): QPResult {
+  const n = target.length;
+  return solveQP({
+    Q: identity(n),
+    c: target.map((v) => -v),
+    Aeq: [new Array(n).fill(1)],
+    beq: [1],
+    Aineq: constraints.Aineq,
+    bineq: constraints.bineq,
+    lb: constraints.lb,
+    ub: constraints.ub,
+  });
+}
+
+/**
+ * The constraints in scale-free form for y = κ·w (κ = Σy > 0):
+ * lb·Σy ≤ y ≤ ub·Σy and (a − b·1)ᵀy ≤ 0 for every group row.
+ * Strategies that are easier to solve before normalising use these.
+ */
+function homogeneousConstraints(constraints: OptimizerConstraints, n: number) {
+  const Aineq: number[][] = [];
+  const unitMinus = (i: number, scale: number, sign: number) =>
+    Array.from({ length: n }, (_, j) => sign * ((j === i ? 1 : 0) - scale));
+
+  for (let i = 0; i < n; i++) {
+    if (constraints.ub[i] < 1) Aineq.push(unitMinus(i, constraints.ub[i], 1));
+    if (constraints.lb[i] > 0) Aineq.push(unitMinus(i, constraints.lb[i], -1));
+  }
+  constraints.Aineq.forEach((row, r) => {
+    Aineq.push(row.map((v) => v - constraints.bineq[r]));
+  });
+
+  return { Aineq, bineq: new Array(Aineq.length).fill(0), lb: new Array(n).fill(0) };
+}
+
+function normalize(y: number[]): number[] {
+  const total = y.reduce((s, v) => s + v, 0);
+  return y.map((v) => Math.max(v, 0) / total);
+}
+
+/** Global minimum variance: the left end of the frontier. */
+export function minimumVariancePortfolio(
+  covMatrix: number[][],
+  constraints: OptimizerConstraints
+): QPResult {
+  return optimizePortfolio(new Array(covMatrix.length).fill(0), covMatrix, null, constraints);
+}
+
+/** Naive 1/N, projected onto the constraints. */
+export function equalWeightPortfolio(
+  n: number,
+  constraints: OptimizerConstraints
+): QPResult {
+  return projectOntoConstraints(new Array(n).fill(1 / n), constraints);
+}
+
+/** Weights proportional to 1/σᵢ, projected onto the constraints. */
+export function inverseVolatilityPortfolio(
+  covMatrix: number[][],
+  constraints: OptimizerConstraints
+): QPResult {
+  const inv = covMatrix.map((row, i) => 1 / Math.sqrt(Math.max(row[i], 1e-12)));
+  return projectOntoConstraints(normalize(inv), constraints);
+}
+
+/**
+ * Maximum diversification ratio σᵀw / √(wᵀΣw) (Choueifaty & Coignard).
+ * Substituting y = w / σᵀw turns the ratio into 1/√(yᵀΣy), so this is
+ * min yᵀΣy s.t. σᵀy = 1 over the homogeneous constraint cone;
+ * normalising y gives the weights.
+ */
+export function maxDiversificationPortfolio(
+  covMatrix: number[][],
+  constraints: OptimizerConstraints
+): QPResult {
+  const n = covMatrix.length;
+  const vols = covMatrix.map((row, i) => Math.sqrt(Math.max(row[i], 0)));
+  const cone = homogeneousConstraints(constraints, n);
+  const result = solveQP({
+    Q: covMatrix,
+    c: new Array(n).fill(0),
+    Aeq: [vols],
+    beq: [1],
+    ...cone,
+  });
+  if (result.status !== "optimal") return result;
+  return { ...result, x: normalize(result.x) };
+}
+
+/**
+ * Equal risk contribution (risk parity) under the bounds.
+ *
+ * Solves min ½yᵀΣy − Σ bᵢ·ln yᵢ over the homogeneous constraint cone
+ * (Richard & Roncalli's constrained risk budgeting) with damped Newton
+ * steps, each one a QP. Without binding bounds the normalised solution
+ * has exactly equal risk contributions wᵢ(Σw)ᵢ.
+ */
+export function riskParityPortfolio(
+  covMatrix: number[][],
+  constraints: OptimizerConstraints,
+  maxIterations = 100
+): QPResult {
+  const n = covMatrix.length;
+  const start = equalWeightPortfolio(n, constraints);
+  if (start.status !== "optimal") return start;
+
+  // Directions the constraints pin to zero get no risk budget
+  const budgeted = start.x.map((w, i) => constraints.ub[i] > 0 && w > 1e-9);
+  const m = budgeted.filter(Boolean).length;
+  const budget = budgeted.map((b) => (b ? 1 / m : 0));
+  const cone = homogeneousConstraints(constraints, n);
+
+  const objective = (y: number[]) =>
+    0.5 * quadForm(covMatrix, y) -
+    y.reduce((s, v, i) => (budget[i] > 0 ? s + budget[i] * Math.log(v) : s), 0);
+
+  let y = [...start.x];
+  let f = objective(y);
+  let status: QPStatus = "max_iterations";
+  let iterations = 0;
+
+  for (; iterations < maxIterations; iterations++) {
+    // Newton model: Hessian Σ + diag(bᵢ/yᵢ²); its minimiser z over the cone
+    const Q = covMatrix.map((row, i) =>
+      row.map((v, j) => (i === j && budget[i] > 0 ? v + budget[i] / (y[i] * y[i]) : v))
+    );
+    const c = y.map((v, i) => (budget[i] > 0 ? (-2 * budget[i]) / v : 0));
+    const step = solveQP({ Q, c, ...cone });
+    if (step.status !== "optimal") {
+      status = step.status;
+      break;
+    }
+
+    const d = step.x.map((z, i) => z - y[i]);
+    const scale = Math.max(...y.map(Math.abs));
+    if (Math.max(...d.map(Math.abs)) < 1e-10 * scale) {
+      status = "optimal";
+      break;
+    }
+
+    // Backtrack until the iterate stays positive and the objective drops
+    const slope =
+      dot(matVec(covMatrix, y), d) -
+      d.reduce((s, v, i) => (budget[i] > 0 ? s + (budget[i] * v) / y[i] : s), 0);
+    let alpha = 1;
+    let next = y;
+    let fNext = f;
+    while (alpha > 1e-10) {
+      next = y.map((v, i) => v + alpha * d[i]);
+      if (next.every((v, i) => budget[i] === 0 || v > 0)) {
+        fNext = objective(next);
+        if (fNext <= f + 1e-4 * alpha * slope) break;
+      }
+      alpha /= 2;
+    }
+    if (alpha <= 1e-10) {
+      status = "optimal"; // no further progress possible at machine precision
+      break;
+    }
+    y = next;
+    f = fNext;
+  }
+
+  return { x: normalize(y), status, iterations, objective: f };
+}
+
+/** Unrounded weights for one non-frontier strategy. */
+export function solveStrategy(
+  strategy: Exclude<AllocationStrategy, "mean_variance">,
+  covMatrix: number[][],
+  constraints: OptimizerConstraints
+): QPResult {
+  switch (strategy) {
+    case "risk_parity":
+      return riskParityPortfolio(covMatrix, constraints);
+    case "max_diversification":
+      return maxDiversificationPortfolio(covMatrix, constraints);
+    case "min_variance":
+      return minimumVariancePortfolio(covMatrix, constraints);
+    case "inverse_volatility":
+      return inverseVolatilityPortfolio(covMatrix, constraints);
+    case "equal_weight":
+      return equalWeightPortfolio(covMatrix.length, constraints);
+  }
+}
+
+/**
+ * Every strategy side by side. The mean-variance row is the frontier
+ * point picked by the risk-tolerance slider, passed in by the caller.
+ * `evaluate` scores each allocation under the active risk measure.
+ */
+export function computeStrategyPortfolios(
+  expectedReturns: number[],
+  covMatrix: number[][],
+  constraints: OptimizerConstraints,
+  meanVarianceWeights: number[],
+  evaluate: (weights: number[]) => PortfolioMetrics = (w) =>
+    evaluatePortfolio(w, expectedReturns, covMatrix)
+): StrategyPortfolio[] {
+  const describe = (strategy: AllocationStrategy, weights: number[], status: QPStatus) => ({
+    strategy,
+    ...evaluate(weights),
+    hhi: Math.round(weights.reduce((s, w) => s + w * w, 0) * 1e4) / 1e4,
+    status,
+  });
+
+  return ALLOCATION_STRATEGIES.map((strategy) => {
+    if (strategy === "mean_variance") {
+      return describe(strategy, meanVarianceWeights, "optimal");
+    }
+    const result = solveStrategy(strategy, covMatrix, constraints);
+    return describe(strategy, result.x, result.status);
+  });
+}
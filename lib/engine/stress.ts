@@ -0,0 +1,130 @@
+import type {
+  TopicInfo,
+  TopicSelector,
+  StressScenario,
+  ReturnModelCoefficients,
+  CovarianceEstimator,
+} from "./portfolio-types";
+import { portfolioTopics } from "./portfolio-types";
+import {
+  computeExpectedReturns,
+  computeCovarianceMatrix,
+  computeDirectionCoverage,
+} from "./skill-mapper";
+import { dot, quadForm } from "./matrix";
+
+/** A fixed portfolio's standing under one version of the literature. */
+export interface StressOutcome {
+  return: number;
+  risk: number;
+  coverage: number; // share of papers the portfolio addresses, Σ_d w_d · coverage_d
+  directionReturns: number[];
+  directionCoverage: number[];
+}
+
+export interface StressTestResult {
+  scenarioId: string;
+  name: string;
+  affectedTopics: number;
+  baseline: StressOutcome;
+  stressed: StressOutcome;
+}
+
+export function matchesSelector(topic: TopicInfo, selector: TopicSelector): boolean {
+  switch (selector.by) {
+    case "topics":
+      return selector.topicNumbers.includes(topic.topicNumber);
+    case "rarity":
+      return topic.rarityLabel === selector.rarity;
+    case "keyword": {
+      const needle = selector.keyword.trim().toLowerCase();
+      if (!needle) return false;
+      return [topic.name, ...topic.keywords].some((text) => text.toLowerCase().includes(needle));
+    }
+  }
+}
+
+/**
+ * The topic set and affinity matrix as the scenario describes them.
+ * Shocks apply in order; topics left with no papers are dropped so they
+ * no longer shape the covariance either. Rarity labels stay those of the
+ * original corpus.
+ */
+export function applyStressScenario(
+  topics: TopicInfo[],
+  affinityMatrix: Record<number, number[]>,
+  scenario: StressScenario
+): { topics: TopicInfo[]; affinityMatrix: Record<number, number[]>; affectedTopics: number[] } {
+  let stressedTopics = topics;
+  const stressedMatrix = { ...affinityMatrix };
+  const affected = new Set<number>();
+
+  for (const shock of scenario.shocks) {
+    if (shock.kind === "count") {
+      const factor = Math.max(0, shock.factor);
+      stressedTopics = stressedTopics.map((topic) => {
+        if (topic.topicNumber === -1 || !matchesSelector(topic, shock.selector)) return topic;
+        affected.add(topic.topicNumber);
+        return { ...topic, count: topic.count * factor };
+      });
+    } else if (stressedMatrix[shock.topicNumber]) {
+      affected.add(shock.topicNumber);
+      stressedMatrix[shock.topicNumber] = shock.affinities.map((a) => Math.max(0, Math.min(1, a)));
+    }
+  }
+
+  return {
+    topics: stressedTopics.filter((t) => t.topicNumber === -1 || t.count > 0),
+    affinityMatrix: stressedMatrix,
+    affectedTopics: [...affected],
+  };
+}
+
+/**
+ * Return, risk and coverage of fixed weights, from the literature-only
+ * return model. Expert views are left out: a stress test asks what the
+ * literature change alone would do.
+ */
+export function evaluateStressOutcome(
+  weights: number[],
+  topics: TopicInfo[],
+  affinityMatrix: Record<number, number[]>,
+  returnModel: ReturnModelCoefficients,
+  covarianceEstimator: CovarianceEstimator = "sample"
+): StressOutcome {
+  topics = portfolioTopics(topics);
+  const directionReturns = computeExpectedReturns(topics, affinityMatrix, returnModel);
+  const directionCoverage = computeDirectionCoverage(topics, affinityMatrix);
+  const covMatrix = computeCovarianceMatrix(topics, affinityMatrix, covarianceEstimator);
+  return {
+    return: dot(weights, directionReturns),
+    risk: Math.sqrt(Math.max(quadForm(covMatrix, weights), 0)),
+    coverage: dot(weights, directionCoverage),
+    directionReturns,
+    directionCoverage,
+  };
+}
+
+export function runStressTest(
+  weights: number[],
+  topics: TopicInfo[],
+  affinityMatrix: Record<number, number[]>,
+  scenario: StressScenario,
+  returnModel: ReturnModelCoefficients,
+  covarianceEstimator: CovarianceEstimator = "sample"
+): StressTestResult {
+  const stressed = applyStressScenario(topics, affinityMatrix, scenario);
+  return {
+    scenarioId: scenario.id,
+    name: scenario.name,
+    affectedTopics: stressed.affectedTopics.length,
+    baseline: evaluateStressOutcome(weights, topics, affinityMatrix, returnModel, covarianceEstimator),
+    stressed: evaluateStressOutcome(
+      weights,
+      stressed.topics,
+      stressed.affinityMatrix,
+      returnModel,
+      covarianceEstimator
+    ),
+  };
+}
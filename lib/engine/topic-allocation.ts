@@ -0,0 +1,52 @@
+import type { TopicInfo } from "./portfolio-types";
+import { portfolioTopics } from "./portfolio-types";
+
+/** Topics below this share of their direction are left out of its budget. */
+export const MIN_TOPIC_SHARE = 0.02;
+
+export interface TopicAllocationEntry {
+  topicNumber: number;
+  share: number; // of its direction's weight
+  weight: number; // of the whole program: share × direction weight
+}
+
+/**
+ * Second allocation level: each direction's weight spread over topics in
+ * proportion to affinity × paper count, with RARE topics scaled by
+ * `rarityTilt` (1 = no tilt). Topics under MIN_TOPIC_SHARE are dropped
+ * and the rest renormalized. Index d holds direction d's topics, largest
+ * share first; directions without weight get none.
+ */
+export function allocateTopicWeights(
+  weights: number[],
+  topics: TopicInfo[],
+  affinityMatrix: Record<number, number[]>,
+  rarityTilt: number
+): TopicAllocationEntry[][] {
+  const activeTopics = portfolioTopics(topics).filter((t) => t.topicNumber !== -1);
+
+  return weights.map((weight, d) => {
+    if (weight <= 0) return [];
+    const scores = activeTopics.map(
+      (topic) =>
+        (affinityMatrix[topic.topicNumber]?.[d] ?? 0) *
+        topic.count *
+        (topic.rarityLabel === "RARE" ? rarityTilt : 1)
+    );
+    const total = scores.reduce((a, b) => a + b, 0);
+    if (total <= 0) return [];
+
+    const kept = activeTopics
+      .map((topic, i) => ({ topicNumber: topic.topicNumber, score: scores[i] }))
+      .filter((t) => t.score / total >= MIN_TOPIC_SHARE);
+    const keptTotal = kept.reduce((sum, t) => sum + t.score, 0);
+
+    return kept
+      .map(({ topicNumber, score }) => ({
+        topicNumber,
+        share: score / keptTotal,
+        weight: (score / keptTotal) * weight,
+      }))
+      .sort((a, b) => b.share - a.share);
+  });
+}
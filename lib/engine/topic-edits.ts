@@ -0,0 +1,152 @@
+import type { TopicInfo, Paper } from "./portfolio-types";
+
+/**
+ * Hand edits to the topic model between upload and analysis: merging
+ * near-duplicate topics, splitting one by keyword, renaming, and
+ * excluding junk clusters from the portfolio. Edits are pure functions
+ * of topics, papers and affinity rows; the caller re-labels rarity and
+ * re-scores the rows listed in `rescore`.
+ */
+export type TopicEdit =
+  | { type: "merge"; topicNumbers: number[] } // merged into the first
+  | { type: "split"; topicNumber: number; keyword: string }
+  | { type: "rename"; topicNumber: number; name: string }
+  | { type: "exclude"; topicNumber: number; excluded: boolean };
+
+export interface TopicModelState {
+  topics: TopicInfo[];
+  papers: Paper[];
+  affinityMatrix: Record<number, number[]>;
+}
+
+export interface TopicEditResult extends TopicModelState {
+  rescore: number[]; // topics whose affinity rows are provisional
+}
+
+export class TopicEditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TopicEditError";
+  }
+}
+
+/** Representative documents kept on a merged or split topic. */
+const MAX_REPRESENTATIVE_DOCS = 5;
+
+function findTopic(topics: TopicInfo[], topicNumber: number): TopicInfo {
+  const topic = topics.find((t) => t.topicNumber === topicNumber);
+  if (!topic || topicNumber === -1) throw new TopicEditError(`Topic ${topicNumber} does not exist`);
+  return topic;
+}
+
+function mergeTopics(state: TopicModelState, topicNumbers: number[]): TopicEditResult {
+  const numbers = [...new Set(topicNumbers)];
+  if (numbers.length < 2) throw new TopicEditError("Select at least two topics to merge");
+  const sources = numbers.map((n) => findTopic(state.topics, n));
+  const [target] = sources;
+  const absorbed = new Set(numbers.slice(1));
+  const count = sources.reduce((sum, t) => sum + t.count, 0);
+
+  // Keywords and documents of the larger topics first
+  const bySize = [...sources].sort((a, b) => b.count - a.count);
+  const merged: TopicInfo = {
+    ...target,
+    count,
+    keywords: [...new Set(bySize.flatMap((t) => t.keywords))],
+    representativeDocs: bySize.flatMap((t) => t.representativeDocs).slice(0, MAX_REPRESENTATIVE_DOCS),
+    excluded: sources.every((t) => t.excluded) || undefined,
+  };
+
+  // Provisional affinity: the paper-weighted mean of the merged rows
+  const rows = sources.map((t) => state.affinityMatrix[t.topicNumber]).filter((r): r is number[] => !!r);
+  const affinityMatrix = { ...state.affinityMatrix };
+  if (rows.length > 0) {
+    const weights = sources.filter((t) => state.affinityMatrix[t.topicNumber]).map((t) => Math.max(t.count, 1));
+    const total = weights.reduce((a, b) => a + b, 0);
+    affinityMatrix[target.topicNumber] = rows[0].map(
+      (_, d) => rows.reduce((sum, row, k) => sum + weights[k] * (row[d] ?? 0), 0) / total
+    );
+  }
+  for (const n of absorbed) delete affinityMatrix[n];
+
+  return {
+    topics: state.topics
+      .filter((t) => !absorbed.has(t.topicNumber))
+      .map((t) => (t.topicNumber === target.topicNumber ? merged : t)),
+    papers: state.papers.map((p) => (absorbed.has(p.topicNumber) ? { ...p, topicNumber: target.topicNumber } : p)),
+    affinityMatrix,
+    rescore: [target.topicNumber],
+  };
+}
+
+/** Whether a paper's title or abstract mentions `keyword` (case-insensitive). */
+function mentions(paper: Paper, keyword: string): boolean {
+  return `${paper.title} ${paper.abstract ?? ""}`.toLowerCase().includes(keyword);
+}
+
+function splitTopic(state: TopicModelState, topicNumber: number, rawKeyword: string): TopicEditResult {
+  const keyword = rawKeyword.trim().toLowerCase();
+  if (!keyword) throw new TopicEditError("A keyword is required to split a topic");
+  const parent = findTopic(state.topics, topicNumber);
+
+  const members = state.papers.filter((p) => p.topicNumber === topicNumber);
+  const moved = new Set(members.filter((p) => mentions(p, keyword)));
+  if (moved.size === 0) throw new TopicEditError(`No paper in topic ${topicNumber} mentions "${keyword}"`);
+  if (moved.size === members.length) {
+    throw new TopicEditError(`Every paper in topic ${topicNumber} mentions "${keyword}"`);
+  }
+
+  const newNumber = Math.max(...state.topics.map((t) => t.topicNumber)) + 1;
+  const child: TopicInfo = {
+    ...parent,
+    topicNumber: newNumber,
+    count: moved.size,
+    name: `${newNumber}_${keyword.replace(/\s+/g, "_")}`,
+    keywords: [keyword, ...parent.keywords.filter((k) => k.toLowerCase() !== keyword)],
+    representativeDocs: [...moved].slice(0, MAX_REPRESENTATIVE_DOCS).map((p) => p.title),
+  };
+  const remaining: TopicInfo = {
+    ...parent,
+    count: Math.max(parent.count - moved.size, 0),
+    keywords: parent.keywords.filter((k) => k.toLowerCase() !== keyword),
+    representativeDocs: parent.representativeDocs.filter((d) => !d.toLowerCase().includes(keyword)),
+  };
+
+  const affinityMatrix = { ...state.affinityMatrix };
+  if (affinityMatrix[topicNumber]) affinityMatrix[newNumber] = [...affinityMatrix[topicNumber]];
+
+  return {
+    topics: [...state.topics.map((t) => (t.topicNumber === topicNumber ? remaining : t)), child],
+    papers: state.papers.map((p) => (moved.has(p) ? { ...p, topicNumber: newNumber } : p)),
+    affinityMatrix,
+    rescore: [topicNumber, newNumber],
+  };
+}
+
+export function applyTopicEdit(state: TopicModelState, edit: TopicEdit): TopicEditResult {
+  switch (edit.type) {
+    case "merge":
+      return mergeTopics(state, edit.topicNumbers);
+    case "split":
+      return splitTopic(state, edit.topicNumber, edit.keyword);
+    case "rename": {
+      const name = edit.name.trim();
+      if (!name) throw new TopicEditError("A topic name cannot be empty");
+      findTopic(state.topics, edit.topicNumber);
+      return {
+        ...state,
+        topics: state.topics.map((t) => (t.topicNumber === edit.topicNumber ? { ...t, name } : t)),
+        rescore: [edit.topicNumber], // the name is part of what was scored
+      };
+    }
+    case "exclude":
+      findTopic(state.topics, edit.topicNumber);
+      return {
+        ...state,
+        topics: state.topics.map((t) =>
+          t.topicNumber === edit.topicNumber ? { ...t, excluded: edit.excluded || undefined } : t
+        ),
+        rescore: [],
+      };
+  }
+}
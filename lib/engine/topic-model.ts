@@ -0,0 +1,338 @@
+import type { Paper, TopicInfo } from "./portfolio-types";
+import { rarityForCount } from "./data-loader";
+import { createRng, gaussian, type Rng } from "./random";
+
+/**
+ * Topic extraction from paper titles and abstracts, for uploads without a
+ * BERTopic run. The pipeline mirrors BERTopic's with lighter parts:
+ * TF-IDF document vectors, truncated SVD (latent semantic analysis) in
+ * place of embeddings + UMAP, spherical k-means in place of HDBSCAN, and
+ * class-based TF-IDF for each topic's keywords. Seeded, so the same papers
+ * always give the same topics.
+ */
+
+export interface TopicModelOptions {
+  numTopics?: number; // absent means √(papers / 2), clamped to MIN/MAX_TOPICS
+  dimensions: number; // SVD components kept
+  keywordsPerTopic: number;
+  outlierSimilarity: number; // papers less similar than this to every centroid go to topic -1
+  seed: number;
+}
+
+export interface TopicModelResult {
+  topics: TopicInfo[]; // largest first, numbered from 0, then the -1 outlier topic when any
+  papers: Paper[]; // the input papers with topicNumber and rarityLabel assigned
+}
+
+export const DEFAULT_TOPIC_MODEL_OPTIONS: TopicModelOptions = {
+  dimensions: 50,
+  keywordsPerTopic: 10,
+  outlierSimilarity: 0.15,
+  seed: 42,
+};
+
+export const MIN_TOPIC_MODEL_PAPERS = 20;
+export const MIN_TOPICS = 2;
+export const MAX_TOPICS = 40;
+const MAX_VOCABULARY = 3000;
+const KMEANS_ITERATIONS = 50;
+const SVD_POWER_ITERATIONS = 4;
+const REPRESENTATIVE_DOCS = 3;
+
+// Function words of the two interface languages plus boilerplate of abstracts
+const STOP_WORDS = new Set(
+  (
+    "a about above after again against all also am an and any are as at be because been before being below " +
+    "between both but by can could did do does doing down during each few for from further had has have having " +
+    "he her here hers herself him himself his how i if in into is it its itself just me more most my myself no " +
+    "nor not now of off on once only or other our ours ourselves out over own same she should so some such than " +
+    "that the their theirs them themselves then there these they this those through to too under until up very " +
+    "was we were what when where which while who whom why will with would you your yours yourself yourselves " +
+    "using used use based however therefore thus within among across towards toward via per may might must one two " +
+    "three new study studies paper papers article research results result findings approach proposed propose show " +
+    "shows shown present presents analysis data method methods model models work literature review purpose " +
+    "design methodology implications originality value limitations elsevier rights reserved copyright ltd published " +
+    "και να το τα της του των την τη στο στη στην στα στις στους με για από που ως είναι ή οι η ο σε θα δεν " +
+    "αυτό αυτή αυτά αυτές αυτοί ενός μια ένα μιας έναν επίσης μεταξύ όπως κατά προς"
+  ).split(" ")
+);
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().normalize("NFC").match(/\p{L}[\p{L}\p{N}-]*/gu) ?? []).filter(
+    (w) => w.length >= 3 && !STOP_WORDS.has(w)
+  );
+}
+
+type SparseRow = Array<[number, number]>; // [term index, value]
+
+function normalizeDense(v: number[]): number[] {
+  const norm = Math.sqrt(v.reduce((s, x) => s + x * x, 0));
+  return norm > 0 ? v.map((x) => x / norm) : v;
+}
+
+/** Vocabulary of terms in at least two papers and at most half of them, most frequent first. */
+function buildVocabulary(docs: string[][]): Map<string, number> {
+  const df = new Map<string, number>();
+  for (const doc of docs) {
+    for (const term of new Set(doc)) df.set(term, (df.get(term) ?? 0) + 1);
+  }
+  const maxDf = Math.max(2, Math.floor(docs.length * 0.5));
+  const terms = [...df.entries()]
+    .filter(([, n]) => n >= 2 && n <= maxDf)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_VOCABULARY)
+    .map(([term]) => term);
+  return new Map(terms.map((term, i) => [term, i]));
+}
+
+/** Sublinear TF-IDF rows, L2-normalized. */
+function tfidf(docs: string[][], vocabulary: Map<string, number>): SparseRow[] {
+  const n = docs.length;
+  const df = new Array(vocabulary.size).fill(0);
+  const counts = docs.map((doc) => {
+    const c = new Map<number, number>();
+    for (const term of doc) {
+      const idx = vocabulary.get(term);
+      if (idx !== undefined) c.set(idx, (c.get(idx) ?? 0) + 1);
+    }
+    for (const idx of c.keys()) df[idx]++;
+    return c;
+  });
+  return counts.map((c) => {
+    const row: SparseRow = [...c.entries()].map(([idx, tf]) => [
+      idx,
+      (1 + Math.log(tf)) * (Math.log((1 + n) / (1 + df[idx])) + 1),
+    ]);
+    const norm = Math.sqrt(row.reduce((s, [, v]) => s + v * v, 0));
+    return norm > 0 ? row.map(([idx, v]) => [idx, v / norm] as [number, number]) : row;
+  });
+}
+
+/** Orthonormalize the columns of a dense n × k matrix in place (modified Gram–Schmidt). */
+function orthonormalizeColumns(m: number[][]): void {
+  const k = m[0]?.length ?? 0;
+  for (let j = 0; j < k; j++) {
+    for (let p = 0; p < j; p++) {
+      let dot = 0;
+      for (const row of m) dot += row[j] * row[p];
+      for (const row of m) row[j] -= dot * row[p];
+    }
+    let norm = 0;
+    for (const row of m) norm += row[j] * row[j];
+    norm = Math.sqrt(norm);
+    for (const row of m) row[j] = norm > 1e-12 ? row[j] / norm : 0;
+  }
+}
+
+/**
+ * Document coordinates in the top-k latent directions of the TF-IDF
+ * matrix (randomized truncated SVD with power iterations), row-normalized
+ * for cosine clustering.
+ */
+function reduceDimensions(rows: SparseRow[], numTerms: number, k: number, rng: Rng): number[][] {
+  // Y = A Ω, refined by (A Aᵀ)^q; Q spans the leading left singular vectors
+  let q: number[][] = rows.map(() => new Array(k).fill(0));
+  const omega = Array.from({ length: numTerms }, () => Array.from({ length: k }, () => gaussian(rng)));
+  rows.forEach((row, i) => {
+    for (const [t, v] of row) for (let j = 0; j < k; j++) q[i][j] += v * omega[t][j];
+  });
+  orthonormalizeColumns(q);
+
+  for (let iter = 0; iter < SVD_POWER_ITERATIONS; iter++) {
+    // Z = Aᵀ Q, then Q = orth(A Z)
+    const z = Array.from({ length: numTerms }, () => new Array(k).fill(0));
+    rows.forEach((row, i) => {
+      for (const [t, v] of row) for (let j = 0; j < k; j++) z[t][j] += v * q[i][j];
+    });
+    const next = rows.map(() => new Array(k).fill(0));
+    rows.forEach((row, i) => {
+      for (const [t, v] of row) for (let j = 0; j < k; j++) next[i][j] += v * z[t][j];
+    });
+    orthonormalizeColumns(next);
+    q = next;
+  }
+
+  // V = orth(Aᵀ Q) spans the leading right singular vectors; A V = U Σ up to rotation
+  const v = Array.from({ length: numTerms }, () => new Array(k).fill(0));
+  rows.forEach((row, i) => {
+    for (const [t, x] of row) for (let j = 0; j < k; j++) v[t][j] += x * q[i][j];
+  });
+  orthonormalizeColumns(v);
+  return rows.map((row) => {
+    const coords = new Array(k).fill(0);
+    for (const [t, x] of row) for (let j = 0; j < k; j++) coords[j] += x * v[t][j];
+    return normalizeDense(coords);
+  });
+}
+
+const dotDense = (a: number[], b: number[]) => a.reduce((s, x, i) => s + x * b[i], 0);
+
+/** Spherical k-means with k-means++ seeding; returns each point's cluster and the centroids. */
+function sphericalKMeans(points: number[][], k: number, rng: Rng): { labels: number[]; centroids: number[][] } {
+  const centroids: number[][] = [points[Math.floor(rng() * points.length)]];
+  while (centroids.length < k) {
+    const dist = points.map((p) => Math.max(0, 1 - Math.max(...centroids.map((c) => dotDense(p, c)))));
+    const total = dist.reduce((a, b) => a + b, 0);
+    let r = rng() * total;
+    let pick = points.length - 1;
+    for (let i = 0; i < points.length; i++) {
+      r -= dist[i];
+      if (r <= 0) {
+        pick = i;
+        break;
+      }
+    }
+    centroids.push(points[pick]);
+  }
+
+  let labels = new Array(points.length).fill(-1);
+  for (let iter = 0; iter < KMEANS_ITERATIONS; iter++) {
+    const next = points.map((p) => {
+      let best = 0;
+      let bestSim = -Infinity;
+      centroids.forEach((c, j) => {
+        const sim = dotDense(p, c);
+        if (sim > bestSim) {
+          bestSim = sim;
+          best = j;
+        }
+      });
+      return best;
+    });
+    const changed = next.some((l, i) => l !== labels[i]);
+    labels = next;
+    for (let j = 0; j < k; j++) {
+      const members = points.filter((_, i) => labels[i] === j);
+      if (members.length === 0) continue; // keep an emptied centroid where it was
+      const sum = new Array(points[0].length).fill(0);
+      for (const m of members) m.forEach((x, d) => (sum[d] += x));
+      centroids[j] = normalizeDense(sum);
+    }
+    if (!changed) break;
+  }
+  return { labels, centroids };
+}
+
+/**
+ * Class-based TF-IDF (BERTopic's c-TF-IDF): each topic's papers are one
+ * document, and a term scores by its frequency in the topic against how
+ * common it is across all topics.
+ */
+function topicKeywords(docs: string[][], labels: number[], numTopics: number, perTopic: number): string[][] {
+  const classCounts = Array.from({ length: numTopics }, () => new Map<string, number>());
+  const totals = new Map<string, number>();
+  docs.forEach((doc, i) => {
+    if (labels[i] < 0) return;
+    for (const term of doc) {
+      classCounts[labels[i]].set(term, (classCounts[labels[i]].get(term) ?? 0) + 1);
+      totals.set(term, (totals.get(term) ?? 0) + 1);
+    }
+  });
+  const classSizes = classCounts.map((c) => [...c.values()].reduce((a, b) => a + b, 0));
+  const avgWords = classSizes.reduce((a, b) => a + b, 0) / Math.max(numTopics, 1);
+
+  return classCounts.map((counts, c) =>
+    [...counts.entries()]
+      .map(([term, tf]) => ({
+        term,
+        score: (tf / Math.max(classSizes[c], 1)) * Math.log(1 + avgWords / (totals.get(term) ?? 1)),
+      }))
+      .sort((a, b) => b.score - a.score || a.term.localeCompare(b.term))
+      .slice(0, perTopic)
+      .map((k) => k.term)
+  );
+}
+
+export function defaultTopicCount(numPapers: number): number {
+  return Math.max(MIN_TOPICS, Math.min(MAX_TOPICS, Math.round(Math.sqrt(numPapers / 2))));
+}
+
+export function extractTopics(
+  papers: Paper[],
+  options: Partial<TopicModelOptions> = {}
+): TopicModelResult {
+  const settings = { ...DEFAULT_TOPIC_MODEL_OPTIONS, ...options };
+  if (papers.length < MIN_TOPIC_MODEL_PAPERS) {
+    throw new Error(`Topic modelling needs at least ${MIN_TOPIC_MODEL_PAPERS} papers; got ${papers.length}`);
+  }
+
+  const docs = papers.map((p) => tokenize(`${p.title} ${p.title} ${p.abstract ?? ""} ${p.fields ?? ""}`));
+  const vocabulary = buildVocabulary(docs);
+  if (vocabulary.size < 2) {
+    throw new Error("Too few shared words across titles and abstracts to find topics");
+  }
+
+  const rng = createRng(settings.seed);
+  const rows = tfidf(docs, vocabulary);
+  const k = Math.max(2, Math.min(settings.dimensions, papers.length - 1, vocabulary.size));
+  const points = reduceDimensions(rows, vocabulary.size, k, rng);
+
+  // Papers sharing no vocabulary word have no direction to cluster on
+  const clusterable = points.map((p) => p.some((x) => x !== 0));
+  const usable = points.filter((_, i) => clusterable[i]);
+  const numClusters = Math.min(settings.numTopics ?? defaultTopicCount(papers.length), usable.length);
+  const { centroids } = sphericalKMeans(usable, numClusters, rng);
+
+  // Final assignment, with weak matches left as outliers like BERTopic's -1
+  const raw = points.map((p, i) => {
+    if (!clusterable[i]) return -1;
+    let best = -1;
+    let bestSim = settings.outlierSimilarity;
+    centroids.forEach((c, j) => {
+      const sim = dotDense(p, c);
+      if (sim >= bestSim) {
+        bestSim = sim;
+        best = j;
+      }
+    });
+    return best;
+  });
+
+  // Number topics by size, largest first, dropping clusters left empty
+  const sizes = centroids.map((_, j) => raw.filter((l) => l === j).length);
+  const order = centroids.map((_, j) => j).filter((j) => sizes[j] > 0).sort((a, b) => sizes[b] - sizes[a] || a - b);
+  const renumber = new Map(order.map((j, rank) => [j, rank]));
+  const labels = raw.map((l) => (l < 0 ? -1 : renumber.get(l) ?? -1));
+  const keywords = topicKeywords(docs, labels, order.length, settings.keywordsPerTopic);
+
+  const topics: TopicInfo[] = order.map((j, t) => {
+    const members = papers
+      .map((paper, i) => ({ paper, sim: dotDense(points[i], centroids[j]), label: labels[i] }))
+      .filter((m) => m.label === t)
+      .sort((a, b) => b.sim - a.sim);
+    return {
+      topicNumber: t,
+      count: members.length,
+      name: [t, ...keywords[t].slice(0, 4)].join("_"),
+      keywords: keywords[t],
+      representativeDocs: members.slice(0, REPRESENTATIVE_DOCS).map((m) => m.paper.abstract || m.paper.title),
+      rarityLabel: rarityForCount(t, members.length),
+    };
+  });
+  const outliers = labels.filter((l) => l === -1).length;
+  if (outliers > 0) {
+    topics.push({
+      topicNumber: -1,
+      count: outliers,
+      name: "-1_outliers",
+      keywords: [],
+      representativeDocs: [],
+      rarityLabel: "NO_TOPIC",
+    });
+  }
+
+  const labelled = papers.map((paper, i) => {
+    const topic = topics.find((t) => t.topicNumber === labels[i]);
+    const missing = paper.missing?.filter((f) => f !== "topic");
+    const next: Paper = {
+      ...paper,
+      topicNumber: labels[i],
+      rarityLabel: topic?.rarityLabel ?? "NO_TOPIC",
+    };
+    if (missing?.length) next.missing = missing;
+    else delete next.missing;
+    return next;
+  });
+
+  return { topics, papers: labelled };
+}
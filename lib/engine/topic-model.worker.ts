@@ -0,0 +1,28 @@
+import { extractTopics, type TopicModelOptions, type TopicModelResult } from "./topic-model";
+import type { Paper } from "./portfolio-types";
+
+export interface TopicModelWorkerMessage {
+  papers: Paper[];
+  options?: Partial<TopicModelOptions>;
+}
+
+export type TopicModelWorkerReply =
+  | { ok: true; result: TopicModelResult }
+  | { ok: false; error: string };
+
+// The app compiles against the DOM lib; inside a worker `self` is the worker scope
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<TopicModelWorkerMessage>) => void) | null;
+  postMessage: (reply: TopicModelWorkerReply) => void;
+};
+
+ctx.onmessage = (event) => {
+  const { papers, options } = event.data;
+  let reply: TopicModelWorkerReply;
+  try {
+    reply = { ok: true, result: extractTopics(papers, options) };
+  } catch (error) {
+    reply = { ok: false, error: error instanceof Error ? error.message : "Topic modelling failed" };
+  }
+  ctx.postMessage(reply);
+};
@@ -0,0 +1,209 @@
+import Papa from "papaparse";
+import type { TopicInfo, Paper } from "./portfolio-types";
+import {
+  TOPIC_CSV_FIELDS,
+  PAPER_CSV_FIELDS,
+  unmappedRequiredFields,
+  type CsvKind,
+  type CsvMapping,
+  type TopicCsvField,
+  type PaperCsvField,
+} from "./csv-mapping";
+
+/**
+ * Pre-flight checks of the uploaded topics and papers. Errors stop the
+ * pipeline (the results would be meaningless); warnings are shown but
+ * the data is used as parsed.
+ */
+export type UploadIssueCode =
+  | "unmapped_column"
+  | "bad_topic_number"
+  | "bad_count"
+  | "bad_year"
+  | "bad_paper_topic"
+  | "empty_paper"
+  | "duplicate_topic"
+  | "duplicate_paper_id"
+  | "unknown_topic"
+  | "unassigned_papers"
+  | "count_mismatch";
+
+export interface UploadIssue {
+  code: UploadIssueCode;
+  severity: "error" | "warning";
+  kind: CsvKind; // which upload the issue is in
+  file: string;
+  row?: number; // 1-based data row, header excluded
+  field?: string;
+  value?: string;
+  expected?: number;
+  actual?: number;
+}
+
+export interface ValidationReport {
+  issues: UploadIssue[];
+  errors: number;
+  warnings: number;
+}
+
+function parseRows(csvContent: string): { columns: string[]; rows: Record<string, string>[] } {
+  const parsed = Papa.parse<Record<string, string>>(csvContent, { header: true, skipEmptyLines: true });
+  return { columns: parsed.meta.fields ?? [], rows: parsed.data };
+}
+
+const isInteger = (value: string) => /^-?\d+$/.test(value.trim());
+
+/** Rows of the topics CSV whose topic number or paper count does not parse, and repeated topic numbers. */
+export function validateTopicsCSV(
+  fileName: string,
+  csvContent: string,
+  mapping: CsvMapping<TopicCsvField>
+): UploadIssue[] {
+  const { columns, rows } = parseRows(csvContent);
+  const unmapped = unmappedRequiredFields(mapping, TOPIC_CSV_FIELDS, columns);
+  if (unmapped.length > 0) {
+    return unmapped.map((field) => ({ code: "unmapped_column", severity: "error", kind: "topics", file: fileName, field }));
+  }
+
+  const issues: UploadIssue[] = [];
+  const firstRow = new Map<number, number>();
+  rows.forEach((row, i) => {
+    const topic = row[mapping.topicNumber!] ?? "";
+    const count = row[mapping.count!] ?? "";
+    if (!isInteger(topic)) {
+      issues.push({ code: "bad_topic_number", severity: "error", kind: "topics", file: fileName, row: i + 1, value: topic });
+    } else {
+      const n = parseInt(topic, 10);
+      if (firstRow.has(n)) {
+        issues.push({
+          code: "duplicate_topic",
+          severity: "error",
+          kind: "topics",
+          file: fileName,
+          row: i + 1,
+          value: topic,
+          expected: firstRow.get(n),
+        });
+      } else {
+        firstRow.set(n, i + 1);
+      }
+    }
+    if (!isInteger(count) || parseInt(count, 10) < 0) {
+      issues.push({ code: "bad_count", severity: "error", kind: "topics", file: fileName, row: i + 1, value: count });
+    }
+  });
+  return issues;
+}
+
+/** Rows of a mapped papers CSV that will be skipped or read with a fallback value. */
+export function validatePapersCSV(
+  fileName: string,
+  csvContent: string,
+  mapping: CsvMapping<PaperCsvField>
+): UploadIssue[] {
+  const { columns, rows } = parseRows(csvContent);
+  const unmapped = unmappedRequiredFields(mapping, PAPER_CSV_FIELDS, columns);
+  if (unmapped.length > 0) {
+    return unmapped.map((field) => ({ code: "unmapped_column", severity: "error", kind: "papers", file: fileName, field }));
+  }
+
+  const value = (row: Record<string, string>, field: PaperCsvField) => {
+    const column = mapping[field];
+    return column ? (row[column] ?? "").trim() : "";
+  };
+  const issues: UploadIssue[] = [];
+  rows.forEach((row, i) => {
+    if (!value(row, "title") && !value(row, "doi")) {
+      issues.push({ code: "empty_paper", severity: "warning", kind: "papers", file: fileName, row: i + 1 });
+      return;
+    }
+    const year = value(row, "year");
+    if (mapping.year && !/^\d{4}$/.test(year)) {
+      issues.push({ code: "bad_year", severity: "warning", kind: "papers", file: fileName, row: i + 1, value: year });
+    }
+    const topic = value(row, "topicNumber");
+    if (mapping.topicNumber && topic && !isInteger(topic)) {
+      issues.push({ code: "bad_paper_topic", severity: "warning", kind: "papers", file: fileName, row: i + 1, value: topic });
+    }
+  });
+  return issues;
+}
+
+/**
+ * Checks across both files: papers sharing an ID, papers without a topic
+ * when a topics file means none will be modelled, papers assigned to a
+ * topic the topics file lacks, and topics whose count differs from the
+ * papers assigned to them. The last two only apply once papers carry
+ * topic assignments, i.e. not before in-app topic modelling.
+ */
+export function crossCheckUpload(
+  topicsFileName: string | null,
+  topics: TopicInfo[] | null,
+  papersFileName: string,
+  papers: Paper[]
+): UploadIssue[] {
+  const issues: UploadIssue[] = [];
+
+  const seenIds = new Set<string>();
+  const reported = new Set<string>();
+  for (const paper of papers) {
+    if (!paper.id) continue;
+    if (seenIds.has(paper.id) && !reported.has(paper.id)) {
+      issues.push({ code: "duplicate_paper_id", severity: "warning", kind: "papers", file: papersFileName, value: paper.id });
+      reported.add(paper.id);
+    }
+    seenIds.add(paper.id);
+  }
+
+  const assigned = papers.filter((p) => !p.missing?.includes("topic"));
+  if (!topics || !topicsFileName) return issues;
+  if (assigned.length < papers.length) {
+    issues.push({
+      code: "unassigned_papers",
+      severity: "warning",
+      kind: "papers",
+      file: papersFileName,
+      actual: papers.length - assigned.length,
+    });
+  }
+  if (assigned.length === 0) return issues;
+
+  const known = new Set(topics.map((t) => t.topicNumber));
+  const perTopic = new Map<number, number>();
+  for (const paper of assigned) {
+    perTopic.set(paper.topicNumber, (perTopic.get(paper.topicNumber) ?? 0) + 1);
+  }
+  for (const [topicNumber, count] of perTopic) {
+    if (!known.has(topicNumber) && topicNumber !== -1) {
+      issues.push({
+        code: "unknown_topic",
+        severity: "warning",
+        kind: "papers",
+        file: papersFileName,
+        value: String(topicNumber),
+        actual: count,
+      });
+    }
+  }
+  for (const topic of topics) {
+    if (!Number.isFinite(topic.topicNumber) || !Number.isFinite(topic.count)) continue;
+    const actual = perTopic.get(topic.topicNumber) ?? 0;
+    if (actual !== topic.count) {
+      issues.push({
+        code: "count_mismatch",
+        severity: "warning",
+        kind: "topics",
+        file: topicsFileName,
+        value: String(topic.topicNumber),
+        expected: topic.count,
+        actual,
+      });
+    }
+  }
+  return issues;
+}
+
+export function buildValidationReport(issues: UploadIssue[]): ValidationReport {
+  const errors = issues.filter((i) => i.severity === "error").length;
+  return { issues, errors, warnings: issues.length - errors };
+}
@@ -8,9 +8,43 @@ import {
   PageBreak,
 } from "docx";
 import { saveAs } from "file-saver";
-import type { CourseOutline, SupervisorMatch } from "@/lib/engine/portfolio-types";
+import type {
+  CourseOutline,
+  SupervisorMatch,
+  AffinityRationale,
+  AllocationStrategy,
+  CovarianceEstimator,
+} from "@/lib/engine/portfolio-types";
 import { TRAINING_DIRECTIONS } from "@/lib/engine/portfolio-types";
 import { parseRichContent, type RichSegment } from "@/lib/rich-text";
+import type { StressTestResult } from "@/lib/engine/stress";
+import type { AffinityOverride } from "@/lib/engine/affinity-overrides";
+import type { EnsembleSummary } from "@/lib/engine/ensemble";
+import type { ProjectPortfolioResult } from "@/lib/project-manager";
+
+/** An overridden affinity cell, listed in the export's appendix. */
+export interface AffinityOverrideRow extends AffinityOverride {
+  topicName: string;
+}
+
+/** Settings the active portfolio was optimized with, so its results can be reproduced. */
+export interface ModelParameters extends NonNullable<ProjectPortfolioResult["parameters"]> {
+  strategy: AllocationStrategy;
+  covarianceEstimator?: CovarianceEstimator;
+}
+
+/** The optimization parameters and the affinity scores with the AI's rationale per cell. */
+export interface MethodologyAnnex {
+  parameters?: ModelParameters;
+  ensemble?: EnsembleSummary;
+  topics: Array<{
+    topicNumber: number;
+    topicName: string;
+    scores: number[]; // the AI's scores, one per direction, which the rationale argues for
+    rationale: Array<AffinityRationale | null>;
+    overrides: Array<AffinityOverride | null>; // hand-set scores that replaced the AI's
+  }>;
+}
 
 // ─────────────────────────────────────────────────
 // Shared helpers
@@ -26,6 +60,152 @@ function sanitizeFileName(name: string): string {
   return name.replace(/[^a-zA-Z0-9_\- ]/g, "").replace(/\s+/g, "_");
 }
 
+/** "37.1% → 41.6% (+4.5 pp)" */
+function formatChange(before: number, after: number): string {
+  const delta = (after - before) * 100;
+  return `${(before * 100).toFixed(1)}% → ${(after * 100).toFixed(1)}% (${delta >= 0 ? "+" : ""}${delta.toFixed(1)} pp)`;
+}
+
+function stressLabels(locale: string) {
+  return locale === "el"
+    ? {
+        title: "Παράρτημα: Δοκιμές Αντοχής",
+        intro: "Πώς θα άλλαζε το επιλεγμένο χαρτοφυλάκιο αν μεταβαλλόταν η βιβλιογραφία του τομέα. Τα βάρη μένουν σταθερά.",
+        scenario: "Σενάριο",
+        return: "Απόδοση",
+        coverage: "Κάλυψη",
+        risk: "Κίνδυνος",
+        affected: "Επηρεαζόμενα θέματα",
+      }
+    : {
+        title: "Appendix: Stress Tests",
+        intro: "How the selected portfolio would fare if the sector's literature changed. Weights are held fixed.",
+        scenario: "Scenario",
+        return: "Return",
+        coverage: "Coverage",
+        risk: "Risk",
+        affected: "Affected topics",
+      };
+}
+
+function overrideLabels(locale: string) {
+  return locale === "el"
+    ? {
+        title: "Παράρτημα: Τροποποιημένες Βαθμολογίες Συνάφειας",
+        intro: "Κελιά του πίνακα συνάφειας θεμάτων–κατευθύνσεων που ορίστηκαν χειροκίνητα αντί της βαθμολογίας της ΤΝ. Το χαρτοφυλάκιο υπολογίστηκε με αυτές τις τιμές.",
+        topic: "Θέμα",
+        direction: "Κατεύθυνση",
+        ai: "ΤΝ",
+        value: "Τιμή",
+        author: "Από",
+        date: "Ημερομηνία",
+        reason: "Αιτιολόγηση",
+      }
+    : {
+        title: "Appendix: Overridden Affinity Scores",
+        intro: "Cells of the topic–direction affinity matrix set by hand in place of the AI's score. The portfolio was computed with these values.",
+        topic: "Topic",
+        direction: "Direction",
+        ai: "AI",
+        value: "Value",
+        author: "By",
+        date: "Date",
+        reason: "Reason",
+      };
+}
+
+function methodologyLabels(locale: string) {
+  return locale === "el"
+    ? {
+        title: "Παράρτημα: Μεθοδολογία",
+        parametersTitle: "Παράμετροι βελτιστοποίησης",
+        parametersIntro: "Οι ρυθμίσεις με τις οποίες βελτιστοποιήθηκε το χαρτοφυλάκιο, ώστε τα αποτελέσματα να μπορούν να αναπαραχθούν.",
+        strategy: "Στρατηγική κατανομής",
+        returnModel: "Μοντέλο απόδοσης",
+        returnModelValue: (m: ModelParameters["returnModel"]) =>
+          `κάλυψη ${m.coverageWeight}, σπανιότητα ${m.rarityWeight}, εύρος ${m.breadthWeight}, πριμ σπανιότητας ${m.rarityPremium}, κατώφλι συνάφειας ${m.affinityThreshold}`,
+        riskFreeRate: "Απόδοση χωρίς κίνδυνο",
+        riskMeasure: "Μέτρο κινδύνου",
+        variance: "διακύμανση",
+        cvar: (confidence: number) => `CVaR στο ${formatPercent(confidence)}`,
+        returnTrend: "Τάση αποδόσεων",
+        staticTrend: "στατική",
+        momentum: (m: NonNullable<ModelParameters["momentum"]>) =>
+          `δυναμική (παράθυρο ${m.windowYears} ετών, ένταση ${m.strength})`,
+        covarianceEstimator: "Εκτιμητής συνδιακύμανσης",
+        cardinality: "Όριο μαθημάτων",
+        cardinalityValue: (c: NonNullable<ModelParameters["cardinality"]>) =>
+          `το πολύ ${c.maxAssets} κατευθύνσεις, ελάχιστη θέση ${formatPercent(c.minPosition)}`,
+        noLimit: "κανένα",
+        affinityTitle: "Βαθμολόγηση συνάφειας",
+        intro: "Κάθε θέμα βαθμολογήθηκε από την ΤΝ ως προς κάθε κατεύθυνση κατάρτισης. Για κάθε βαθμολογία παρατίθεται η αιτιολόγηση της ΤΝ, οι λέξεις-κλειδιά του θέματος και τα αντιπροσωπευτικά έγγραφα στα οποία βασίστηκε. Όπου η βαθμολογία αντικαταστάθηκε χειροκίνητα, σημειώνεται η νέα τιμή και η αιτιολόγησή της.",
+        ensemble: (s: EnsembleSummary) =>
+          `Οι βαθμολογίες προέκυψαν από ${s.succeeded} από ${s.runs} εκτελέσεις (${s.providers.join(", ") || "—"}).`,
+        topic: "Θέμα",
+        direction: "Κατεύθυνση",
+        score: "Βαθμ.",
+        justification: "Αιτιολόγηση",
+        evidence: "Τεκμήρια",
+        none: "Δεν δόθηκε αιτιολόγηση.",
+        overridden: (o: AffinityOverride) =>
+          `Ορίστηκε χειροκίνητα σε ${formatPercent(o.value)} (${o.author || "—"}): ${o.reason}`,
+      }
+    : {
+        title: "Appendix: Methodology",
+        parametersTitle: "Optimization parameters",
+        parametersIntro: "The settings the portfolio was optimized with, so its results can be reproduced.",
+        strategy: "Allocation strategy",
+        returnModel: "Return model",
+        returnModelValue: (m: ModelParameters["returnModel"]) =>
+          `coverage ${m.coverageWeight}, rarity ${m.rarityWeight}, breadth ${m.breadthWeight}, rarity premium ${m.rarityPremium}, affinity threshold ${m.affinityThreshold}`,
+        riskFreeRate: "Risk-free rate",
+        riskMeasure: "Risk measure",
+        variance: "variance",
+        cvar: (confidence: number) => `CVaR at ${formatPercent(confidence)}`,
+        returnTrend: "Return trend",
+        staticTrend: "static",
+        momentum: (m: NonNullable<ModelParameters["momentum"]>) =>
+          `momentum (${m.windowYears}-year window, strength ${m.strength})`,
+        covarianceEstimator: "Covariance estimator",
+        cardinality: "Course limit",
+        cardinalityValue: (c: NonNullable<ModelParameters["cardinality"]>) =>
+          `at most ${c.maxAssets} directions, minimum position ${formatPercent(c.minPosition)}`,
+        noLimit: "none",
+        affinityTitle: "Affinity scoring",
+        intro: "Each topic was scored by the AI against every training direction. For each score the AI's justification is given, with the topic keywords and representative documents it relied on. Where a score was replaced by hand, the new value and its reason are noted.",
+        ensemble: (s: EnsembleSummary) =>
+          `Scores are the consensus of ${s.succeeded} of ${s.runs} runs (${s.providers.join(", ") || "—"}).`,
+        topic: "Topic",
+        direction: "Direction",
+        score: "Score",
+        justification: "Justification",
+        evidence: "Evidence",
+        none: "No justification given.",
+        overridden: (o: AffinityOverride) => `Set by hand to ${formatPercent(o.value)} (${o.author || "—"}): ${o.reason}`,
+      };
+}
+
+/** Label–value rows of the optimization parameters, shared by the DOCX and PDF annexes. */
+function parameterRows(p: ModelParameters, labels: ReturnType<typeof methodologyLabels>): Array<[string, string]> {
+  return [
+    [labels.strategy, p.strategy],
+    [labels.returnModel, labels.returnModelValue(p.returnModel)],
+    [labels.riskFreeRate, String(p.riskFreeRate)],
+    [labels.riskMeasure, p.riskMeasure === "cvar" ? labels.cvar(p.cvarConfidence ?? 0.95) : labels.variance],
+    [labels.returnTrend, p.returnTrend === "momentum" && p.momentum ? labels.momentum(p.momentum) : labels.staticTrend],
+    [labels.covarianceEstimator, p.covarianceEstimator ?? "sample"],
+    [labels.cardinality, p.cardinality ? labels.cardinalityValue(p.cardinality) : labels.noLimit],
+  ];
+}
+
+/** Keywords and documents a rationale cites, on one line. */
+function formatEvidence(rationale: AffinityRationale | null): string {
+  if (!rationale) return "";
+  return [rationale.keywords.join(", "), ...rationale.documents].filter(Boolean).join("; ");
+}
+
+const formatPercent = (value: number | null) => (value === null ? "—" : `${(value * 100).toFixed(0)}%`);
+
 // ─────────────────────────────────────────────────
 // DOCX helpers
 // ─────────────────────────────────────────────────
@@ -112,7 +292,10 @@ export async function exportCoursesToDocx(
   courses: CourseOutline[],
   supervisors: Record<string, SupervisorMatch[]>,
   programTitle: string,
-  locale: string
+  locale: string,
+  stressTests: StressTestResult[] = [],
+  affinityOverrides: AffinityOverrideRow[] = [],
+  methodology?: MethodologyAnnex
 ): Promise<void> {
   const children: Paragraph[] = [];
 
@@ -315,6 +498,111 @@ export async function exportCoursesToDocx(
     }
   }
 
+  // Stress-test appendix
+  if (stressTests.length > 0) {
+    const labels = stressLabels(locale);
+    children.push(new Paragraph({ children: [new PageBreak()] }));
+    children.push(heading(labels.title, HeadingLevel.HEADING_1));
+    children.push(
+      new Paragraph({
+        spacing: { after: 120 },
+        children: [new TextRun({ text: labels.intro, size: 20, italics: true, color: COLORS.muted })],
+      })
+    );
+    for (const test of stressTests) {
+      children.push(heading(test.name, HeadingLevel.HEADING_3));
+      children.push(labelValue(labels.return, formatChange(test.baseline.return, test.stressed.return)));
+      children.push(labelValue(labels.coverage, formatChange(test.baseline.coverage, test.stressed.coverage)));
+      children.push(labelValue(labels.risk, formatChange(test.baseline.risk, test.stressed.risk)));
+      children.push(labelValue(labels.affected, `${test.affectedTopics}`));
+      TRAINING_DIRECTIONS.forEach((dir, d) => {
+        children.push(
+          bullet(
+            `${getDirectionName(dir.key, locale)}: ${formatChange(
+              test.baseline.directionCoverage[d],
+              test.stressed.directionCoverage[d]
+            )}`
+          )
+        );
+      });
+      children.push(emptyLine());
+    }
+  }
+
+  // Affinity-override appendix
+  if (affinityOverrides.length > 0) {
+    const labels = overrideLabels(locale);
+    children.push(new Paragraph({ children: [new PageBreak()] }));
+    children.push(heading(labels.title, HeadingLevel.HEADING_1));
+    children.push(
+      new Paragraph({
+        spacing: { after: 120 },
+        children: [new TextRun({ text: labels.intro, size: 20, italics: true, color: COLORS.muted })],
+      })
+    );
+    for (const o of affinityOverrides) {
+      children.push(
+        heading(`T${o.topicNumber} ${o.topicName} × ${getDirectionName(o.directionKey, locale)}`, HeadingLevel.HEADING_3)
+      );
+      children.push(labelValue(labels.value, `${formatPercent(o.aiValue)} → ${formatPercent(o.value)}`));
+      children.push(labelValue(labels.author, `${o.author || "—"}, ${new Date(o.changedAt).toLocaleDateString(locale)}`));
+      children.push(labelValue(labels.reason, o.reason));
+    }
+  }
+
+  // Methodology annex
+  if (methodology && (methodology.parameters || methodology.topics.length > 0)) {
+    const labels = methodologyLabels(locale);
+    children.push(new Paragraph({ children: [new PageBreak()] }));
+    children.push(heading(labels.title, HeadingLevel.HEADING_1));
+    if (methodology.parameters) {
+      children.push(heading(labels.parametersTitle, HeadingLevel.HEADING_2));
+      children.push(
+        new Paragraph({
+          spacing: { after: 120 },
+          children: [new TextRun({ text: labels.parametersIntro, size: 20, italics: true, color: COLORS.muted })],
+        })
+      );
+      for (const [label, value] of parameterRows(methodology.parameters, labels)) {
+        children.push(labelValue(label, value));
+      }
+    }
+  }
+  if (methodology && methodology.topics.length > 0) {
+    const labels = methodologyLabels(locale);
+    children.push(heading(labels.affinityTitle, HeadingLevel.HEADING_2));
+    children.push(
+      new Paragraph({
+        spacing: { after: 120 },
+        children: [new TextRun({ text: labels.intro, size: 20, italics: true, color: COLORS.muted })],
+      })
+    );
+    if (methodology.ensemble) {
+      children.push(
+        new Paragraph({
+          spacing: { after: 120 },
+          children: [new TextRun({ text: labels.ensemble(methodology.ensemble), size: 20, color: COLORS.muted })],
+        })
+      );
+    }
+    for (const topic of methodology.topics) {
+      children.push(heading(`T${topic.topicNumber} ${topic.topicName}`, HeadingLevel.HEADING_3));
+      TRAINING_DIRECTIONS.forEach((dir, d) => {
+        const rationale = topic.rationale[d];
+        const evidence = formatEvidence(rationale);
+        const override = topic.overrides[d];
+        children.push(
+          bullet(
+            `${getDirectionName(dir.key, locale)} — ${formatPercent(topic.scores[d] ?? null)}: ${
+              rationale?.justification ?? labels.none
+            }${evidence ? ` (${evidence})` : ""}`
+          )
+        );
+        if (override) children.push(bullet(labels.overridden(override), 1));
+      });
+    }
+  }
+
   const doc = new Document({
     creator: "Diversified Educational Portfolios Generator",
     title: programTitle || "Course Outlines",
@@ -511,7 +799,10 @@ export async function exportCoursesToPdf(
   courses: CourseOutline[],
   supervisors: Record<string, SupervisorMatch[]>,
   programTitle: string,
-  locale: string
+  locale: string,
+  stressTests: StressTestResult[] = [],
+  affinityOverrides: AffinityOverrideRow[] = [],
+  methodology?: MethodologyAnnex
 ): Promise<void> {
   const { default: jsPDF } = await import("jspdf");
   const { default: autoTable } = await import("jspdf-autotable");
@@ -780,6 +1071,167 @@ export async function exportCoursesToPdf(
     }
   }
 
+  // ── Stress-test appendix ──
+  if (stressTests.length > 0) {
+    const labels = stressLabels(locale);
+    doc.addPage();
+    y = margin;
+    doc.setFontSize(18);
+    doc.setFont(ff, "bold");
+    doc.setTextColor(30, 41, 59);
+    doc.text(labels.title, margin, y);
+    y += 8;
+
+    doc.setFontSize(10);
+    doc.setFont(ff, "italic");
+    doc.setTextColor(100, 116, 139);
+    const introLines = doc.splitTextToSize(labels.intro, contentWidth);
+    doc.text(introLines, margin, y);
+    y += introLines.length * 4.5 + 4;
+
+    autoTable(doc, {
+      startY: y,
+      margin: { left: margin, right: margin },
+      head: [[labels.scenario, labels.return, labels.coverage, labels.risk]],
+      body: stressTests.map((test) => [
+        test.name,
+        formatChange(test.baseline.return, test.stressed.return),
+        formatChange(test.baseline.coverage, test.stressed.coverage),
+        formatChange(test.baseline.risk, test.stressed.risk),
+      ]),
+      styles: { font: ff, fontSize: 9, cellPadding: 2 },
+      headStyles: { fillColor: [37, 99, 235], textColor: 255, fontStyle: "bold" },
+      alternateRowStyles: { fillColor: [248, 250, 252] },
+    });
+    y = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 8;
+
+    // Coverage by direction, one column per scenario
+    autoTable(doc, {
+      startY: y,
+      margin: { left: margin, right: margin },
+      head: [[labels.coverage, ...stressTests.map((test) => test.name)]],
+      body: TRAINING_DIRECTIONS.map((dir, d) => [
+        getDirectionName(dir.key, locale),
+        ...stressTests.map((test) =>
+          formatChange(test.baseline.directionCoverage[d], test.stressed.directionCoverage[d])
+        ),
+      ]),
+      styles: { font: ff, fontSize: 8, cellPadding: 2 },
+      headStyles: { fillColor: [37, 99, 235], textColor: 255, fontStyle: "bold" },
+      alternateRowStyles: { fillColor: [248, 250, 252] },
+    });
+  }
+
+  // ── Affinity-override appendix ──
+  if (affinityOverrides.length > 0) {
+    const labels = overrideLabels(locale);
+    doc.addPage();
+    y = margin;
+    doc.setFontSize(18);
+    doc.setFont(ff, "bold");
+    doc.setTextColor(30, 41, 59);
+    doc.text(labels.title, margin, y);
+    y += 8;
+
+    doc.setFontSize(10);
+    doc.setFont(ff, "italic");
+    doc.setTextColor(100, 116, 139);
+    const introLines = doc.splitTextToSize(labels.intro, contentWidth);
+    doc.text(introLines, margin, y);
+    y += introLines.length * 4.5 + 4;
+
+    autoTable(doc, {
+      startY: y,
+      margin: { left: margin, right: margin },
+      head: [[labels.topic, labels.direction, labels.ai, labels.value, labels.author, labels.date, labels.reason]],
+      body: affinityOverrides.map((o) => [
+        `T${o.topicNumber} ${o.topicName}`,
+        getDirectionName(o.directionKey, locale),
+        formatPercent(o.aiValue),
+        formatPercent(o.value),
+        o.author || "—",
+        new Date(o.changedAt).toLocaleDateString(locale),
+        o.reason,
+      ]),
+      styles: { font: ff, fontSize: 8, cellPadding: 2 },
+      headStyles: { fillColor: [37, 99, 235], textColor: 255, fontStyle: "bold" },
+      alternateRowStyles: { fillColor: [248, 250, 252] },
+    });
+  }
+
+  // ── Methodology annex ──
+  if (methodology && (methodology.parameters || methodology.topics.length > 0)) {
+    const labels = methodologyLabels(locale);
+    doc.addPage();
+    y = margin;
+    doc.setFontSize(18);
+    doc.setFont(ff, "bold");
+    doc.setTextColor(30, 41, 59);
+    doc.text(labels.title, margin, y);
+    y += 8;
+
+    if (methodology.parameters) {
+      doc.setFontSize(13);
+      doc.setFont(ff, "bold");
+      doc.text(labels.parametersTitle, margin, y);
+      y += 6;
+      doc.setFontSize(10);
+      doc.setFont(ff, "italic");
+      doc.setTextColor(100, 116, 139);
+      const parametersIntro = doc.splitTextToSize(labels.parametersIntro, contentWidth);
+      doc.text(parametersIntro, margin, y);
+      y += parametersIntro.length * 4.5 + 2;
+
+      autoTable(doc, {
+        startY: y,
+        margin: { left: margin, right: margin },
+        body: parameterRows(methodology.parameters, labels),
+        styles: { font: ff, fontSize: 8, cellPadding: 1.5 },
+        columnStyles: { 0: { cellWidth: 45, fontStyle: "bold" } },
+        alternateRowStyles: { fillColor: [248, 250, 252] },
+      });
+      y = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 8;
+    }
+  }
+  if (methodology && methodology.topics.length > 0) {
+    const labels = methodologyLabels(locale);
+    checkPageBreak(40);
+    doc.setFontSize(13);
+    doc.setFont(ff, "bold");
+    doc.setTextColor(30, 41, 59);
+    doc.text(labels.affinityTitle, margin, y);
+    y += 6;
+
+    doc.setFontSize(10);
+    doc.setFont(ff, "italic");
+    doc.setTextColor(100, 116, 139);
+    const intro = methodology.ensemble ? `${labels.intro} ${labels.ensemble(methodology.ensemble)}` : labels.intro;
+    const introLines = doc.splitTextToSize(intro, contentWidth);
+    doc.text(introLines, margin, y);
+    y += introLines.length * 4.5 + 4;
+
+    autoTable(doc, {
+      startY: y,
+      margin: { left: margin, right: margin },
+      head: [[labels.topic, labels.direction, labels.score, labels.justification, labels.evidence]],
+      body: methodology.topics.flatMap((topic) =>
+        TRAINING_DIRECTIONS.map((dir, d) => [
+          d === 0 ? `T${topic.topicNumber} ${topic.topicName}` : "",
+          getDirectionName(dir.key, locale),
+          formatPercent(topic.scores[d] ?? null),
+          [topic.rationale[d]?.justification ?? labels.none, topic.overrides[d] && labels.overridden(topic.overrides[d])]
+            .filter(Boolean)
+            .join("\n"),
+          formatEvidence(topic.rationale[d]),
+        ])
+      ),
+      styles: { font: ff, fontSize: 7, cellPadding: 1.5 },
+      columnStyles: { 0: { cellWidth: 28 }, 1: { cellWidth: 28 }, 2: { cellWidth: 12 } },
+      headStyles: { fillColor: [37, 99, 235], textColor: 255, fontStyle: "bold" },
+      alternateRowStyles: { fillColor: [248, 250, 252] },
+    });
+  }
+
   const fileName = sanitizeFileName(programTitle || "Course_Outlines") + ".pdf";
   doc.save(fileName);
 }
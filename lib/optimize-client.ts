@@ -0,0 +1,129 @@
+import type { OptimizeRequest, OptimizeResponse } from "@/lib/engine/optimize-request";
+import type { OptimizeWorkerMessage, OptimizeWorkerReply } from "@/lib/engine/optimize.worker";
+
+/** Largest difference allowed between worker and server results. */
+export const OPTIMIZE_TOLERANCE = 1e-6;
+
+/** What /api/optimize would have answered: the body plus whether it succeeded. */
+export type OptimizeReply =
+  | { ok: true; body: OptimizeResponse }
+  | { ok: false; status: number; body: { error: string } };
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextId = 0;
+let pending: { id: number; resolve: (reply: OptimizeReply | null) => void } | null = null;
+let crossChecked = false;
+
+function getWorker(): Worker | null {
+  if (worker || workerFailed) return worker;
+  if (typeof Worker === "undefined") {
+    workerFailed = true;
+    return null;
+  }
+  try {
+    worker = new Worker(new URL("./engine/optimize.worker.ts", import.meta.url), {
+      type: "module",
+    });
+  } catch (err) {
+    console.warn("Optimization worker unavailable, using /api/optimize:", err);
+    workerFailed = true;
+  }
+  return worker;
+}
+
+async function optimizeOnServer(request: OptimizeRequest): Promise<OptimizeReply> {
+  const res = await fetch("/api/optimize", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+  const body = await res.json().catch(() => ({ error: `Optimization failed (${res.status})` }));
+  return res.ok ? { ok: true, body } : { ok: false, status: res.status, body };
+}
+
+/**
+ * Largest absolute difference between two optimize responses over the
+ * frontier points, the selected weights and the expected returns;
+ * Infinity when their frontiers differ in length.
+ */
+export function optimizeResultDifference(a: OptimizeResponse, b: OptimizeResponse): number {
+  if (a.frontier.length !== b.frontier.length) return Infinity;
+  const gap = (x: number[], y: number[]) =>
+    x.length !== y.length ? Infinity : Math.max(0, ...x.map((v, i) => Math.abs(v - y[i])));
+  return Math.max(
+    ...a.frontier.map((p, i) =>
+      Math.max(
+        Math.abs(p.risk - b.frontier[i].risk),
+        Math.abs(p.return - b.frontier[i].return),
+        gap(p.weights, b.frontier[i].weights)
+      )
+    ),
+    gap(a.selected_portfolio.weights, b.selected_portfolio.weights),
+    gap(a.expected_returns, b.expected_returns)
+  );
+}
+
+/** In development, check the first worker result against the server once. */
+function crossCheck(request: OptimizeRequest, reply: OptimizeReply) {
+  if (process.env.NODE_ENV !== "development" || crossChecked || !reply.ok) return;
+  crossChecked = true;
+  optimizeOnServer(request)
+    .then((server) => {
+      if (!server.ok) return;
+      const difference = optimizeResultDifference(reply.body, server.body);
+      if (difference > OPTIMIZE_TOLERANCE) {
+        console.warn(
+          `Optimization worker and /api/optimize disagree by ${difference} (tolerance ${OPTIMIZE_TOLERANCE})`
+        );
+      }
+    })
+    .catch(() => {});
+}
+
+/**
+ * Run the optimizer in a Web Worker, falling back to /api/optimize where
+ * workers are unavailable. A new request cancels one still running, so a
+ * dragged slider only pays for the latest position; the cancelled call
+ * resolves to null.
+ */
+export function optimizeInBrowser(request: OptimizeRequest): Promise<OptimizeReply | null> {
+  const w = getWorker();
+  if (!w) return optimizeOnServer(request);
+
+  if (pending) {
+    // Terminating is the only way to stop a synchronous solve mid-way
+    w.terminate();
+    worker = null;
+    pending.resolve(null);
+    pending = null;
+    return optimizeInBrowser(request);
+  }
+
+  const id = ++nextId;
+  return new Promise((resolve) => {
+    pending = { id, resolve };
+    w.onmessage = (event: MessageEvent<OptimizeWorkerReply>) => {
+      if (pending?.id !== event.data.id) return;
+      pending = null;
+      resolve(event.data);
+      crossCheck(request, event.data);
+    };
+    w.onerror = (event) => {
+      // The worker script failed to load or crashed: stop using it
+      console.warn("Optimization worker failed, using /api/optimize:", event.message);
+      event.preventDefault();
+      w.terminate();
+      worker = null;
+      workerFailed = true;
+      if (pending?.id === id) {
+        pending = null;
+        optimizeOnServer(request).then(resolve, () =>
+          resolve({ ok: false, status: 500, body: { error: "Portfolio optimization failed" } })
+        );
+      }
+    };
+    const message: OptimizeWorkerMessage = { id, request };
+    w.postMessage(message);
+  });
+}
@@ -1,8 +1,8 @@
 /**
- * Extract all text from a PDF file (client-side only).
+ * Extract the text of each page of a PDF file (client-side only).
  * Uses dynamic import to avoid SSR issues with DOMMatrix.
  */
-export async function extractTextFromPDF(file: File): Promise<string> {
+export async function extractPagesFromPDF(file: File): Promise<string[]> {
   const pdfjs = await import("pdfjs-dist");
   pdfjs.GlobalWorkerOptions.workerSrc =
     "https://unpkg.com/pdfjs-dist@5.4.624/build/pdf.worker.min.mjs";
@@ -20,5 +20,5 @@ export async function extractTextFromPDF(file: File): Promise<string> {
     pages.push(pageText);
   }
 
-  return pages.join("\n\n");
+  return pages;
 }
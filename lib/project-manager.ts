@@ -1,4 +1,18 @@
-import type { CourseOutline, SourceData, AnalysisResult, PipelineStatus, SupervisorMatch } from "@/lib/engine/portfolio-types";
+import type { CourseOutline, SourceData, TopicInfo, AnalysisResult, PipelineStatus, SupervisorMatch, PortfolioConstraints, ExpertView, OptimizerSettings, AllocationStrategy, ReturnModelCoefficients, RiskMeasure, ReturnTrend, MomentumSettings, StressScenario, TrainingDirectionKey, ProgramBudget, CovarianceEstimator } from "@/lib/engine/portfolio-types";
+import { createDefaultPortfolioConstraints, createDefaultOptimizerSettings, withOptimizerDefaults } from "@/lib/engine/portfolio-types";
+import type { TopicAllocationEntry } from "@/lib/engine/topic-allocation";
+import type { CsvKind, CsvMapping, CsvMappingPreset } from "@/lib/engine/csv-mapping";
+import { classifyTopics, relabelPapers, createDefaultRarityRule, type RarityRule, type RarityOverrides } from "@/lib/engine/rarity";
+import { applyTopicEdit, type TopicEdit } from "@/lib/engine/topic-edits";
+import type { AnalysisEnsembleSettings } from "@/lib/engine/ensemble";
+import {
+  mergeAffinityOverrides,
+  upsertAffinityOverride,
+  removeAffinityOverride,
+  findAffinityOverride,
+  restampAffinityOverrides,
+  type AffinityOverride,
+} from "@/lib/engine/affinity-overrides";
 
 // ============================================================
 // Types
@@ -10,6 +24,7 @@ export interface AppSettings {
   apiKey: string;
   verifiedModel?: string;
   verifiedTier?: "free" | "paid" | null;
+  ensembleKeys?: Partial<Record<AppSettings["aiProvider"], string>>; // other providers' keys, for ensemble analysis
 }
 
 export interface ProjectIndexEntry {
@@ -22,6 +37,15 @@ export interface ProjectIndexEntry {
 export interface ProjectConfig {
   programInstructions: string;
   educationLevel: "high_school" | "bachelor" | "master" | "phd";
+  portfolioConstraints?: PortfolioConstraints; // absent in projects created before per-direction bounds
+  expertViews?: ExpertView[];
+  optimizerSettings?: OptimizerSettings;
+  stressScenarios?: StressScenario[];
+  programBudget?: ProgramBudget; // absent means the model picks each course's hours
+  rarityRule?: RarityRule; // absent means the fixed paper-count threshold
+  rarityOverrides?: RarityOverrides;
+  affinityOverrides?: AffinityOverride[]; // kept across re-analysis
+  analysisEnsemble?: AnalysisEnsembleSettings; // absent means a single run
 }
 
 export interface ProjectPortfolioResult {
@@ -39,6 +63,76 @@ export interface ProjectPortfolioResult {
     diversificationScore: number;
   };
   riskTolerance: number;
+  priorReturns?: number[]; // literature-only returns, before expert views
+  expectedReturns?: number[]; // returns the frontier was computed with
+  weightIntervals?: Array<{ lower: number[]; upper: number[] }>; // resampled frontier only, aligned with frontier
+  strategy?: AllocationStrategy; // how selectedPortfolio was chosen; absent means mean-variance
+  strategies?: Array<{
+    strategy: AllocationStrategy;
+    weights: number[];
+    return_: number;
+    risk: number;
+    sharpeRatio: number;
+    hhi: number;
+    feasible: boolean;
+  }>;
+  topicAllocation?: TopicAllocationEntry[][]; // selected weights split over topics, aligned with weights
+  covariance?: {
+    // Estimate the frontier was computed with, for the correlation heatmap
+    estimator: CovarianceEstimator;
+    shrinkage: number | null;
+    correlation: number[][];
+  };
+  byCount?: Array<{
+    // best portfolio holding exactly index + 1 directions; null when infeasible
+    assets: number;
+    held: TrainingDirectionKey[];
+    weights: number[];
+    return_: number;
+    risk: number;
+    sharpeRatio: number;
+    hhi: number;
+  } | null>;
+  parameters?: {
+    // Model settings the result was computed with, for the methodology appendix
+    returnModel: ReturnModelCoefficients;
+    riskFreeRate: number;
+    riskMeasure?: RiskMeasure; // absent means variance
+    cvarConfidence?: number;
+    returnTrend?: ReturnTrend; // absent means static
+    momentum?: MomentumSettings;
+    cardinality?: { maxAssets: number; minPosition: number }; // absent means no course limit
+  };
+}
+
+/** A named allocation, kept alongside others in the project for comparison. */
+export interface SavedPortfolio {
+  id: string;
+  name: string;
+  savedAt: string;
+  result: ProjectPortfolioResult;
+  stale?: boolean; // topics, rarity or affinity scores changed since it was optimized
+  // Inputs the result was optimized with, restored when it becomes active
+  constraints?: PortfolioConstraints;
+  expertViews?: ExpertView[];
+  optimizerSettings?: OptimizerSettings;
+}
+
+/** Results computed from inputs that have since changed. */
+export type StaleResult = "analysis" | "portfolio" | "courses";
+
+/** Topic model before an edit, kept so the edit can be undone. */
+export interface TopicEditSnapshot {
+  edit: TopicEdit;
+  editedAt: string;
+  topics: TopicInfo[];
+  paperTopics: number[]; // each paper's topic number, in sourceData.papers order
+  affinityMatrix: Record<number, number[]>;
+  affinityVariance?: Record<number, number[]>;
+  affinityRationale?: AnalysisResult["affinityRationale"];
+  pendingRescore: number[];
+  rarityOverrides?: RarityOverrides;
+  affinityOverrides?: AffinityOverride[];
 }
 
 export interface ProjectData {
@@ -49,12 +143,16 @@ export interface ProjectData {
   config: ProjectConfig;
   sourceData: SourceData | null;
   analysis: AnalysisResult | null;
-  portfolioResult: ProjectPortfolioResult | null;
+  portfolios: SavedPortfolio[];
+  activePortfolioId: string | null; // the portfolio course generation uses
   courses: CourseOutline[];
   courseSupervisors: Record<string, SupervisorMatch[]> | null; // key = trainingDirectionKey
   pipelineStatus: PipelineStatus;
   pipelineError: string | null;
   pipelineStep: number;
+  staleResults?: StaleResult[]; // absent means everything is current; portfolios are flagged one by one
+  topicEditHistory?: TopicEditSnapshot[]; // oldest first
+  pendingRescore?: number[]; // topics whose affinity rows are provisional after an edit
 }
 
 // ============================================================
@@ -65,6 +163,7 @@ const KEYS = {
   SETTINGS: "dep-settings",
   CURRENT_PROJECT: "dep-current-project",
   PROJECTS_INDEX: "dep-projects-index",
+  CSV_MAPPING_PRESETS: "dep-csv-mapping-presets",
   projectData: (id: string) => `dep-project-${id}`,
   // Legacy keys for migration
   LEGACY_PROFILE: "dep-profile",
@@ -117,6 +216,41 @@ export function saveSettings(settings: AppSettings): void {
   writeJSON(KEYS.SETTINGS, settings);
 }
 
+/** The API key for `provider`: the main key for the chosen provider, else an ensemble key. */
+export function providerApiKey(settings: AppSettings, provider: AppSettings["aiProvider"]): string | undefined {
+  return (provider === settings.aiProvider ? settings.apiKey : settings.ensembleKeys?.[provider]) || undefined;
+}
+
+// ============================================================
+// CSV Mapping Presets (global, reused across projects)
+// ============================================================
+
+export function listCsvMappingPresets(kind: CsvKind): CsvMappingPreset[] {
+  return readJSON<CsvMappingPreset[]>(KEYS.CSV_MAPPING_PRESETS, []).filter((p) => p.kind === kind);
+}
+
+/** Save a mapping under `name`, replacing a preset of the same kind and name. */
+export function saveCsvMappingPreset(kind: CsvKind, name: string, mapping: CsvMapping): CsvMappingPreset {
+  const all = readJSON<CsvMappingPreset[]>(KEYS.CSV_MAPPING_PRESETS, []);
+  const preset: CsvMappingPreset = {
+    id: generateId(),
+    name: name.trim(),
+    kind,
+    mapping,
+    savedAt: new Date().toISOString(),
+  };
+  writeJSON(KEYS.CSV_MAPPING_PRESETS, [
+    ...all.filter((p) => !(p.kind === kind && p.name === preset.name)),
+    preset,
+  ]);
+  return preset;
+}
+
+export function deleteCsvMappingPreset(id: string): void {
+  const all = readJSON<CsvMappingPreset[]>(KEYS.CSV_MAPPING_PRESETS, []);
+  writeJSON(KEYS.CSV_MAPPING_PRESETS, all.filter((p) => p.id !== id));
+}
+
 // ============================================================
 // Project Index
 // ============================================================
@@ -133,8 +267,43 @@ function saveIndex(index: ProjectIndexEntry[]): void {
 // Project CRUD
 // ============================================================
 
+/** Project data as stored before saved portfolios replaced the single result. */
+type StoredProjectData = Omit<ProjectData, "portfolios" | "activePortfolioId"> &
+  Partial<Pick<ProjectData, "portfolios" | "activePortfolioId">> & {
+    portfolioResult?: ProjectPortfolioResult | null;
+  };
+
+/** Saved portfolios of stored data, turning a pre-list `portfolioResult` into the first entry. */
+function migratePortfolios(raw: StoredProjectData): Pick<ProjectData, "portfolios" | "activePortfolioId"> {
+  if (Array.isArray(raw.portfolios)) {
+    return { portfolios: raw.portfolios, activePortfolioId: raw.activePortfolioId ?? null };
+  }
+  if (!raw.portfolioResult) return { portfolios: [], activePortfolioId: null };
+  const migrated: SavedPortfolio = {
+    id: generateId(),
+    name: DEFAULT_PORTFOLIO_NAME,
+    savedAt: raw.updatedAt || new Date().toISOString(),
+    result: raw.portfolioResult,
+    constraints: raw.config?.portfolioConstraints,
+    expertViews: raw.config?.expertViews,
+    optimizerSettings: raw.config?.optimizerSettings,
+  };
+  return { portfolios: [migrated], activePortfolioId: migrated.id };
+}
+
+/** Projects saved before portfolios were flagged one by one listed "portfolio" for all of them. */
+function migrateStalePortfolios(project: ProjectData): ProjectData {
+  if (!project.staleResults?.includes("portfolio")) return project;
+  const staleResults = project.staleResults.filter((r) => r !== "portfolio");
+  return markStale({ ...project, staleResults: staleResults.length > 0 ? staleResults : undefined }, ["portfolio"]);
+}
+
 export function loadProject(id: string): ProjectData | null {
-  return readJSON<ProjectData | null>(KEYS.projectData(id), null);
+  const raw = readJSON<StoredProjectData | null>(KEYS.projectData(id), null);
+  if (!raw) return null;
+  const project: StoredProjectData = { ...raw, ...migratePortfolios(raw) };
+  delete project.portfolioResult;
+  return migrateStalePortfolios(project as ProjectData);
 }
 
 export function saveProject(project: ProjectData): void {
@@ -168,10 +337,14 @@ export function createNewProject(): ProjectData {
     config: {
       programInstructions: "",
       educationLevel: "bachelor",
+      portfolioConstraints: createDefaultPortfolioConstraints(),
+      expertViews: [],
+      optimizerSettings: createDefaultOptimizerSettings(),
     },
     sourceData: null,
     analysis: null,
-    portfolioResult: null,
+    portfolios: [],
+    activePortfolioId: null,
     courses: [],
     courseSupervisors: null,
     pipelineStatus: "idle",
@@ -223,6 +396,351 @@ export function getCurrentProject(): ProjectData | null {
   return loadProject(id);
 }
 
+// ============================================================
+// Saved Portfolios
+// ============================================================
+
+/** Name given to a portfolio saved without one, including migrated results. */
+export const DEFAULT_PORTFOLIO_NAME = "Portfolio";
+
+export function getActivePortfolio(project: ProjectData): SavedPortfolio | null {
+  return project.portfolios.find((p) => p.id === project.activePortfolioId) ?? null;
+}
+
+/** Inputs a portfolio is saved with, so activating it restores them. */
+function configSnapshot(config: ProjectConfig): Pick<SavedPortfolio, "constraints" | "expertViews" | "optimizerSettings"> {
+  return {
+    constraints: config.portfolioConstraints,
+    expertViews: config.expertViews,
+    optimizerSettings: config.optimizerSettings,
+  };
+}
+
+/**
+ * Replace the active portfolio's result with a fresh optimization, or save
+ * it under the default name when none is active.
+ */
+export function setActivePortfolioResult(project: ProjectData, result: ProjectPortfolioResult): ProjectData {
+  const active = getActivePortfolio(project);
+  if (!active) return savePortfolioAs(project, DEFAULT_PORTFOLIO_NAME, result);
+  const updated: SavedPortfolio = {
+    ...active,
+    savedAt: new Date().toISOString(),
+    result,
+    ...configSnapshot(project.config),
+  };
+  return {
+    ...project,
+    portfolios: project.portfolios.map((p) => (p.id === active.id ? updated : p)),
+  };
+}
+
+/** Keep `result` as a new named portfolio and make it the active one; a copied stale result stays stale. */
+export function savePortfolioAs(
+  project: ProjectData,
+  name: string,
+  result: ProjectPortfolioResult,
+  stale = false
+): ProjectData {
+  const saved: SavedPortfolio = {
+    id: generateId(),
+    name: name.trim() || DEFAULT_PORTFOLIO_NAME,
+    savedAt: new Date().toISOString(),
+    result,
+    stale: stale || undefined,
+    ...configSnapshot(project.config),
+  };
+  return { ...project, portfolios: [...project.portfolios, saved], activePortfolioId: saved.id };
+}
+
+/** Make a saved portfolio active and restore the inputs it was optimized with. */
+export function activatePortfolio(project: ProjectData, id: string): ProjectData {
+  const target = project.portfolios.find((p) => p.id === id);
+  if (!target) return project;
+  return {
+    ...project,
+    activePortfolioId: id,
+    config: {
+      ...project.config,
+      portfolioConstraints: target.constraints ?? project.config.portfolioConstraints,
+      expertViews: target.expertViews ?? project.config.expertViews,
+      optimizerSettings: target.optimizerSettings ?? project.config.optimizerSettings,
+    },
+  };
+}
+
+export function renamePortfolio(project: ProjectData, id: string, name: string): ProjectData {
+  const trimmed = name.trim();
+  if (!trimmed) return project;
+  return {
+    ...project,
+    portfolios: project.portfolios.map((p) => (p.id === id ? { ...p, name: trimmed } : p)),
+  };
+}
+
+/** Remove a saved portfolio; deleting the active one activates the most recent remaining. */
+export function deletePortfolio(project: ProjectData, id: string): ProjectData {
+  const remaining = project.portfolios.filter((p) => p.id !== id);
+  const updated = { ...project, portfolios: remaining };
+  if (project.activePortfolioId !== id) return updated;
+  const fallback = remaining[remaining.length - 1];
+  return fallback ? activatePortfolio(updated, fallback.id) : { ...updated, activePortfolioId: null };
+}
+
+// ============================================================
+// Topic Rarity and Stale Results
+// ============================================================
+
+/**
+ * Re-label topics and papers under a new rarity rule and overrides. The
+ * labels feed the optimizer and course prompts, so an existing portfolio
+ * and courses are marked stale until they are recomputed.
+ */
+export function setTopicRarity(project: ProjectData, rule: RarityRule, overrides: RarityOverrides): ProjectData {
+  if (!project.sourceData) return project;
+  const topics = classifyTopics(project.sourceData.topics, rule, overrides);
+  return markStale(
+    {
+      ...project,
+      config: { ...project.config, rarityRule: rule, rarityOverrides: overrides },
+      sourceData: { ...project.sourceData, topics, papers: relabelPapers(project.sourceData.papers, topics) },
+    },
+    ["portfolio", "courses"]
+  );
+}
+
+// ============================================================
+// Affinity Overrides
+// ============================================================
+
+/** The AI's affinity matrix with the project's hand-set cells applied; what the optimizer runs on. */
+export function effectiveAffinityMatrix(project: ProjectData): Record<number, number[]> {
+  return mergeAffinityOverrides(project.analysis?.affinityMatrix ?? {}, project.config.affinityOverrides);
+}
+
+/** Set or replace one cell's override; the portfolio and courses are marked stale. */
+export function setAffinityOverride(project: ProjectData, override: AffinityOverride): ProjectData {
+  return markStale(
+    {
+      ...project,
+      config: {
+        ...project.config,
+        affinityOverrides: upsertAffinityOverride(project.config.affinityOverrides ?? [], override),
+      },
+    },
+    ["portfolio", "courses"]
+  );
+}
+
+/** Return one cell to the AI's score. */
+export function clearAffinityOverride(
+  project: ProjectData,
+  topicNumber: number,
+  directionKey: AffinityOverride["directionKey"]
+): ProjectData {
+  const overrides = project.config.affinityOverrides ?? [];
+  const remaining = removeAffinityOverride(overrides, topicNumber, directionKey);
+  if (remaining.length === overrides.length) return project;
+  return markStale(
+    {
+      ...project,
+      config: { ...project.config, affinityOverrides: remaining.length > 0 ? remaining : undefined },
+    },
+    ["portfolio", "courses"]
+  );
+}
+
+/** Results that exist and so can go stale, for edits that invalidate them. */
+function staleOutputs(project: ProjectData, results: StaleResult[]): StaleResult[] {
+  return results.filter(
+    (r) =>
+      (r === "analysis" && project.analysis) ||
+      (r === "portfolio" && project.portfolios.length > 0) ||
+      (r === "courses" && project.courses.length > 0)
+  );
+}
+
+/**
+ * Mark existing results stale. Every saved portfolio is flagged on its
+ * own, since re-optimizing refreshes only the active one.
+ */
+export function markStale(project: ProjectData, results: StaleResult[]): ProjectData {
+  const outputs = staleOutputs(project, results);
+  const stale = [...new Set([...(project.staleResults ?? []), ...outputs.filter((r) => r !== "portfolio")])];
+  return {
+    ...project,
+    portfolios: outputs.includes("portfolio") ? project.portfolios.map((p) => ({ ...p, stale: true })) : project.portfolios,
+    staleResults: stale.length > 0 ? stale : undefined,
+  };
+}
+
+/** Whether `result` is stale; for "portfolio", the active portfolio. */
+export function isStale(project: ProjectData, result: StaleResult): boolean {
+  if (result === "portfolio") return getActivePortfolio(project)?.stale ?? false;
+  return project.staleResults?.includes(result) ?? false;
+}
+
+/** Mark `result` current again; for "portfolio", only the active portfolio. */
+export function clearStale(project: ProjectData, result: StaleResult): ProjectData {
+  if (!isStale(project, result)) return project;
+  if (result === "portfolio") {
+    return {
+      ...project,
+      portfolios: project.portfolios.map((p) => (p.id === project.activePortfolioId ? { ...p, stale: undefined } : p)),
+    };
+  }
+  const remaining = project.staleResults!.filter((r) => r !== result);
+  return { ...project, staleResults: remaining.length > 0 ? remaining : undefined };
+}
+
+// ============================================================
+// Topic Edits
+// ============================================================
+
+function withoutRows<T>(rows: Record<number, T>, topicNumbers: number[]): Record<number, T> {
+  const kept = { ...rows };
+  for (const n of topicNumbers) delete kept[n];
+  return kept;
+}
+
+/** Undo steps kept per project. */
+const MAX_TOPIC_EDIT_HISTORY = 20;
+
+/**
+ * Apply a merge, split, rename or exclusion to the project's topic model.
+ * Rarity is re-labeled under the project's rule; changed topics wait in
+ * `pendingRescore` for new affinity rows, and the analysis, portfolio
+ * and courses are marked stale. Throws TopicEditError for invalid edits.
+ */
+export function editTopics(project: ProjectData, edit: TopicEdit): ProjectData {
+  if (!project.sourceData || !project.analysis) return project;
+  const { sourceData, analysis } = project;
+  const result = applyTopicEdit(
+    { topics: sourceData.topics, papers: sourceData.papers, affinityMatrix: analysis.affinityMatrix },
+    edit
+  );
+
+  const snapshot: TopicEditSnapshot = {
+    edit,
+    editedAt: new Date().toISOString(),
+    topics: sourceData.topics,
+    paperTopics: sourceData.papers.map((p) => p.topicNumber),
+    affinityMatrix: analysis.affinityMatrix,
+    affinityVariance: analysis.affinityVariance,
+    affinityRationale: analysis.affinityRationale,
+    pendingRescore: project.pendingRescore ?? [],
+    rarityOverrides: project.config.rarityOverrides,
+    affinityOverrides: project.config.affinityOverrides,
+  };
+
+  // Manual labels and scores of topics that no longer exist are dropped
+  const remaining = new Set(result.topics.map((t) => t.topicNumber));
+  const overrides = Object.fromEntries(
+    Object.entries(project.config.rarityOverrides ?? {}).filter(([n]) => remaining.has(Number(n)))
+  );
+  const topics = classifyTopics(result.topics, project.config.rarityRule ?? createDefaultRarityRule(), overrides);
+  const affinityOverrides = project.config.affinityOverrides && restampAffinityOverrides(project.config.affinityOverrides, topics);
+  const pendingRescore = [
+    ...new Set([...(project.pendingRescore ?? []), ...result.rescore]),
+  ].filter((n) => remaining.has(n));
+  // Ensemble spread and rationale no longer describe rows the edit rewrote or removed
+  const rewritten = Object.keys(analysis.affinityMatrix)
+    .map(Number)
+    .filter((n) => result.affinityMatrix[n] !== analysis.affinityMatrix[n]);
+
+  return markStale(
+    {
+      ...project,
+      config: {
+        ...project.config,
+        rarityOverrides: overrides,
+        affinityOverrides: affinityOverrides?.length ? affinityOverrides : undefined,
+      },
+      sourceData: { ...sourceData, topics, papers: relabelPapers(result.papers, topics) },
+      analysis: {
+        ...analysis,
+        affinityMatrix: result.affinityMatrix,
+        affinityVariance: analysis.affinityVariance && withoutRows(analysis.affinityVariance, rewritten),
+        affinityRationale: analysis.affinityRationale && withoutRows(analysis.affinityRationale, rewritten),
+      },
+      topicEditHistory: [...(project.topicEditHistory ?? []), snapshot].slice(-MAX_TOPIC_EDIT_HISTORY),
+      pendingRescore: pendingRescore.length > 0 ? pendingRescore : undefined,
+    },
+    ["analysis", "portfolio", "courses"]
+  );
+}
+
+/**
+ * Restore the topic model from before the last edit. The analysis is
+ * current again once every edit is undone and no rows are pending; the
+ * portfolio and courses stay stale since they may have been recomputed
+ * in between.
+ */
+export function undoTopicEdit(project: ProjectData): ProjectData {
+  const history = project.topicEditHistory ?? [];
+  const snapshot = history[history.length - 1];
+  if (!snapshot || !project.sourceData || !project.analysis) return project;
+
+  const topics = snapshot.topics;
+  // Scores set since the edit survive; those the edit dropped come back
+  const current = project.config.affinityOverrides ?? [];
+  const affinityOverrides = restampAffinityOverrides(
+    [
+      ...(snapshot.affinityOverrides ?? []).filter((o) => !findAffinityOverride(current, o.topicNumber, o.directionKey)),
+      ...current,
+    ],
+    topics
+  );
+  const papers = relabelPapers(
+    project.sourceData.papers.map((p, i) => ({ ...p, topicNumber: snapshot.paperTopics[i] ?? p.topicNumber })),
+    topics
+  );
+  const restored: ProjectData = {
+    ...project,
+    config: {
+      ...project.config,
+      rarityOverrides: snapshot.rarityOverrides,
+      affinityOverrides: affinityOverrides.length > 0 ? affinityOverrides : undefined,
+    },
+    sourceData: { ...project.sourceData, topics, papers },
+    analysis: {
+      ...project.analysis,
+      affinityMatrix: snapshot.affinityMatrix,
+      affinityVariance: snapshot.affinityVariance,
+      affinityRationale: snapshot.affinityRationale,
+    },
+    topicEditHistory: history.slice(0, -1),
+    pendingRescore: snapshot.pendingRescore.length > 0 ? snapshot.pendingRescore : undefined,
+  };
+  const withoutAnalysis =
+    history.length === 1 && snapshot.pendingRescore.length === 0 ? clearStale(restored, "analysis") : restored;
+  return markStale(withoutAnalysis, ["portfolio", "courses"]);
+}
+
+/** Store re-scored affinity rows and their rationale; the analysis is current again once none are pending. */
+export function applyRescoredAffinity(
+  project: ProjectData,
+  rows: Record<number, number[]>,
+  rationale: NonNullable<AnalysisResult["affinityRationale"]> = {}
+): ProjectData {
+  if (!project.analysis) return project;
+  const pending = (project.pendingRescore ?? []).filter((n) => !(n in rows));
+  const updated: ProjectData = {
+    ...project,
+    analysis: {
+      ...project.analysis,
+      affinityMatrix: { ...project.analysis.affinityMatrix, ...rows },
+      affinityVariance:
+        project.analysis.affinityVariance &&
+        withoutRows(project.analysis.affinityVariance, Object.keys(rows).map(Number)),
+      affinityRationale: { ...project.analysis.affinityRationale, ...rationale },
+      unscoredTopics: project.analysis.unscoredTopics?.filter((n) => !(n in rows)),
+    },
+    pendingRescore: pending.length > 0 ? pending : undefined,
+  };
+  return pending.length > 0 ? updated : clearStale(updated, "analysis");
+}
+
 // ============================================================
 // File Export / Import
 // ============================================================
@@ -260,15 +778,27 @@ export function importProjectFromFile(file: File): Promise<ProjectData> {
           config: {
             programInstructions: raw.config.programInstructions || "",
             educationLevel: raw.config.educationLevel || "bachelor",
+            portfolioConstraints: raw.config.portfolioConstraints || createDefaultPortfolioConstraints(),
+            expertViews: Array.isArray(raw.config.expertViews) ? raw.config.expertViews : [],
+            optimizerSettings: withOptimizerDefaults(raw.config.optimizerSettings),
+            stressScenarios: Array.isArray(raw.config.stressScenarios) ? raw.config.stressScenarios : [],
+            programBudget: raw.config.programBudget || undefined,
+            rarityRule: raw.config.rarityRule || undefined,
+            rarityOverrides: raw.config.rarityOverrides || undefined,
+            affinityOverrides: Array.isArray(raw.config.affinityOverrides) ? raw.config.affinityOverrides : undefined,
+            analysisEnsemble: raw.config.analysisEnsemble || undefined,
           },
           sourceData: raw.sourceData || null,
           analysis: raw.analysis || null,
-          portfolioResult: raw.portfolioResult || null,
+          ...migratePortfolios(raw),
           courses: Array.isArray(raw.courses) ? raw.courses : [],
           courseSupervisors: raw.courseSupervisors || null,
           pipelineStatus: raw.pipelineStatus || (raw.courses?.length > 0 ? "complete" : "idle"),
           pipelineError: raw.pipelineError || null,
           pipelineStep: raw.pipelineStep ?? 0,
+          staleResults: Array.isArray(raw.staleResults) ? raw.staleResults : undefined,
+          topicEditHistory: Array.isArray(raw.topicEditHistory) ? raw.topicEditHistory : undefined,
+          pendingRescore: Array.isArray(raw.pendingRescore) ? raw.pendingRescore : undefined,
         };
         saveProject(project);
         setCurrentProjectId(project.id);
@@ -307,10 +837,11 @@ export function migrateLegacyData(): boolean {
     });
 
     // Create project from remaining fields
-    const project = createNewProject();
+    let project = createNewProject();
     project.config = {
       programInstructions: profile.programInstructions || "",
       educationLevel: profile.educationLevel || "bachelor",
+      portfolioConstraints: createDefaultPortfolioConstraints(),
     };
     project.name = profile.programTitle || "Migrated Project";
 
@@ -319,7 +850,7 @@ export function migrateLegacyData(): boolean {
     if (legacyWeights) {
       const weights = JSON.parse(legacyWeights);
       if (Array.isArray(weights)) {
-        project.portfolioResult = {
+        project = setActivePortfolioResult(project, {
           frontier: [],
           selectedPortfolio: {
             weights,
@@ -329,7 +860,7 @@ export function migrateLegacyData(): boolean {
             diversificationScore: 0,
           },
           riskTolerance: 0.5,
-        };
+        });
       }
     }
 
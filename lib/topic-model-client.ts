@@ -0,0 +1,52 @@
+import {
+  extractTopics,
+  type TopicModelOptions,
+  type TopicModelResult,
+} from "@/lib/engine/topic-model";
+import type { TopicModelWorkerMessage, TopicModelWorkerReply } from "@/lib/engine/topic-model.worker";
+import type { Paper } from "@/lib/engine/portfolio-types";
+
+/**
+ * Extract topics from papers in a Web Worker so the page stays responsive
+ * on a few thousand abstracts; where workers are unavailable the model
+ * runs on the main thread. Rejects with the model's error message.
+ */
+export function extractTopicsInBrowser(
+  papers: Paper[],
+  options?: Partial<TopicModelOptions>
+): Promise<TopicModelResult> {
+  if (typeof Worker === "undefined") {
+    return Promise.resolve().then(() => extractTopics(papers, options));
+  }
+
+  let worker: Worker;
+  try {
+    worker = new Worker(new URL("./engine/topic-model.worker.ts", import.meta.url), {
+      type: "module",
+    });
+  } catch (err) {
+    console.warn("Topic modelling worker unavailable, running on the main thread:", err);
+    return Promise.resolve().then(() => extractTopics(papers, options));
+  }
+
+  return new Promise((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<TopicModelWorkerReply>) => {
+      worker.terminate();
+      if (event.data.ok) resolve(event.data.result);
+      else reject(new Error(event.data.error));
+    };
+    worker.onerror = (event) => {
+      // The worker script failed to load or crashed: fall back to the main thread
+      console.warn("Topic modelling worker failed, running on the main thread:", event.message);
+      event.preventDefault();
+      worker.terminate();
+      try {
+        resolve(extractTopics(papers, options));
+      } catch (err) {
+        reject(err);
+      }
+    };
+    const message: TopicModelWorkerMessage = { papers, options };
+    worker.postMessage(message);
+  });
+}